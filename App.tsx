@@ -1,121 +1,738 @@
 
 // FIX: Imported useState, useCallback, and useEffect from React.
-import React, { useState, useCallback, useEffect } from 'react';
-import { generateRecapScript, generateAudio, transcribeMedia } from './services/geminiService';
-import { createWavUrl } from './utils/audio';
-import { FilmIcon, SparklesIcon, CopyIcon, DownloadIcon, LoaderIcon, LightBulbIcon, TrashIcon, HistoryIcon, UploadIcon, MicrophoneIcon } from './components/icons';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { generateRecapScript, generateBeatSheet, generateAudio, generateTitle, revoiceParagraphs, transcribeMedia, AudioProgress, ChunkProgress, GeneratedAudio, PartialTranscript, BEAT_SHEET_THRESHOLD_CHARS, INLINE_MEDIA_MAX_BYTES } from './services/recapService';
+import { getProvider } from './services/provider';
+import { describeError } from './services/errors';
+import { parseVideoId, listCaptionTracks, fetchCaptions, chooseCaptionTrack, CaptionTrack } from './services/youtubeService';
+import { createWavUrl, createWavBlob, getPcmDuration, readMediaDuration } from './utils/audio';
+import { isSubtitleFile, parseSubtitles, decodeSubtitleBytes, cuesToTranscript, cuesMatchTranscript, alignCaptions, estimateSpeechSegments, formatSrt, formatVtt } from './utils/subtitles';
+import { downloadText } from './utils/download';
+import { splitParagraphs, parseSpeakerTag, listSpeakers } from './utils/script';
+import { reanchorPublishing, chaptersStale } from './utils/publishing';
+import { listHistory, saveHistoryItem, loadHistoryAudio, deleteHistoryItems, clearHistory, migrateLocalStorageHistory, getStorageEstimate, requestPersistentStorage, currentVersion, isDialogueVersion, newHistoryId, StorageEstimate } from './services/storageService';
+import { TimedCue, HistoryItem, RecapVersion, RecapPreset, PublishingPackage, SpeechSegment, LexiconEntry, RecapSource } from './types';
+import { loadPresets, savePresets, loadSelectedPresetId, saveSelectedPresetId, presetStyle, targetWordCount, DEFAULT_PRESET } from './services/presetService';
+import { loadGlobalLexicon, saveGlobalLexicon, mergeLexicons, applyLexicon } from './services/lexiconService';
+import { loadJob, saveJob, clearJob, loadTranscriptDraft, saveTranscriptDraft, JobSettings, PipelineJob } from './services/sessionService';
+import { importProject } from './services/projectService';
+import { startUsageRun, attributeUsage, subscribeUsage, usageSaveError, estimateRecapCost, estimateSpeechCost, estimateTextCost, estimateTranscriptionCost } from './services/usageService';
+import { confirmWithinBudget } from './services/budgetService';
+import { LANGUAGES, VOICES, VOICE_GROUPS, assignSpeakerVoices } from './constants';
+import MusicBedPanel from './components/MusicBedPanel';
+import VideoRenderPanel from './components/VideoRenderPanel';
+import AudioExportControls from './components/AudioExportControls';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import SpeakerScriptView from './components/SpeakerScriptView';
+import BeatSheetPanel from './components/BeatSheetPanel';
+import PresetEditor from './components/PresetEditor';
+import PublishingPanel from './components/PublishingPanel';
+import LexiconPanel from './components/LexiconPanel';
+import ResumeJobBanner from './components/ResumeJobBanner';
+import HistoryBrowser from './components/HistoryBrowser';
+import DubPanel from './components/DubPanel';
+import UsagePanel from './components/UsagePanel';
+import WaveformEditor from './components/WaveformEditor';
+import { FilmIcon, SparklesIcon, CopyIcon, DownloadIcon, LoaderIcon, LightBulbIcon, TrashIcon, UploadIcon, MicrophoneIcon, PlayCircleIcon } from './components/icons';
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+type Mode = 'recap' | 'dub';
 
-// Define the structure for a history item
-interface HistoryItem {
-  id: number;
-  title: string;
-  script: string;
-  audioBase64: string; // Store base64 to recreate audio URL later
-  timestamp: string;
-}
+const MODES: { value: Mode; label: string; hint: string }[] = [
+  { value: 'recap', label: 'Recap', hint: 'Retell and condense the story' },
+  { value: 'dub', label: 'Translation Dub', hint: 'Translate line by line, in the original timing' },
+];
 
 const App: React.FC = () => {
-  const [transcript, setTranscript] = useState<string>('');
+  const [transcript, setTranscript] = useState<string>(loadTranscriptDraft);
+  const [transcriptCues, setTranscriptCues] = useState<TimedCue[] | null>(null); // Source timing, when the transcript came from captions
+  const [transcriptOrigin, setTranscriptOrigin] = useState<Pick<RecapSource, 'fileName' | 'youtubeUrl'>>({}); // Recorded with new recaps
   const [mediaFile, setMediaFile] = useState<File | null>(null);
   const [isTranscribing, setIsTranscribing] = useState<boolean>(false);
+  const [transcriptionProgress, setTranscriptionProgress] = useState<ChunkProgress | null>(null); // Set while a large file is transcribed in chunks
+  const [youtubeUrl, setYoutubeUrl] = useState<string>('');
+  const [captionTracks, setCaptionTracks] = useState<CaptionTrack[]>([]);
+  const [selectedTrackIndex, setSelectedTrackIndex] = useState<number>(0);
   const [selectedLanguage, setSelectedLanguage] = useState<string>('Burmese');
   const [selectedVoice, setSelectedVoice] = useState<string>('Puck');
+  const [mode, setMode] = useState<Mode>('recap'); // A dub translates line by line in the source's timing instead of retelling
+  const [dialogueMode, setDialogueMode] = useState<boolean>(false);
+  const [presets, setPresets] = useState<RecapPreset[]>(loadPresets);
+  const [selectedPresetId, setSelectedPresetId] = useState<string>(loadSelectedPresetId);
+  const [recapPreset, setRecapPreset] = useState<RecapPreset | null>(null); // The style the current script was written in
+  const [scriptDialogue, setScriptDialogue] = useState<boolean>(false);     // Whether the current script's speaker tags are voices
+  const [useBeatSheet, setUseBeatSheet] = useState<boolean>(false);
+  const [beatSheet, setBeatSheet] = useState<string>('');
+  const [beatSheetProgress, setBeatSheetProgress] = useState<ChunkProgress | null>(null);
+  const [speakerVoices, setSpeakerVoices] = useState<Record<string, string>>({});             // Voices the user picked per speaker
+  const [voicedSpeakerVoices, setVoicedSpeakerVoices] = useState<Record<string, string>>({}); // Speaker voices the audio was made with
+  const [globalLexicon, setGlobalLexicon] = useState<LexiconEntry[]>(loadGlobalLexicon);
+  const [projectLexicon, setProjectLexicon] = useState<LexiconEntry[]>([]); // Pronunciations for the current recap only
+  const [voicedLexicon, setVoicedLexicon] = useState<LexiconEntry[]>([]);   // Pronunciations the audio was made with
   const [recapScript, setRecapScript] = useState<string>('');
   const [title, setTitle] = useState<string>('');
+  const [publishing, setPublishing] = useState<PublishingPackage | null>(null);
+  const [scriptWarnings, setScriptWarnings] = useState<string[]>([]); // Off-language or off-length, per the validation
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [speechSegments, setSpeechSegments] = useState<SpeechSegment[]>([]);
+  const [narrationAudio, setNarrationAudio] = useState<string | null>(null); // Base64 PCM behind audioUrl
+  const [voicedScript, setVoicedScript] = useState<string>('');             // The script text the audio was made from
+  const [segmentsMeasured, setSegmentsMeasured] = useState<boolean>(false); // False when timings are estimated
+  const [activeHistory, setActiveHistory] = useState<{ id: number; audioId: number } | null>(null);
+  const [regenerating, setRegenerating] = useState<'audio' | 'title' | 'paragraphs' | null>(null);
+  const [selectedVersions, setSelectedVersions] = useState<{ [id: number]: number }>({});
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState<{ [key: string]: boolean }>({});
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [loadingHistoryId, setLoadingHistoryId] = useState<number | null>(null);
+  const [paragraphGapMs, setParagraphGapMs] = useState<number>(500);
+  const [audioProgress, setAudioProgress] = useState<AudioProgress | null>(null);
+  // A job the last session left unfinished; a finished one is reopened instead
+  const [interruptedJob, setInterruptedJob] = useState<PipelineJob | null>(() => {
+    const job = loadJob();
+    return job && job.stage !== 'voiced' ? job : null;
+  });
+  // Shown while API usage can't be recorded, so the user knows the log is incomplete
+  const [usageWarning, setUsageWarning] = useState<string | null>(usageSaveError);
 
+  // The running operation's controller; the Cancel button aborts it
+  const abortRef = useRef<AbortController | null>(null);
+  // Usage runs since the last save, charged to the next recap saved
+  const usageRunsRef = useRef<number[]>([]);
 
-  // Load history from localStorage on initial render
-  useEffect(() => {
-    try {
-      const savedHistory = localStorage.getItem('movieRecapHistory');
-      if (savedHistory) {
-        setHistory(JSON.parse(savedHistory));
-      }
-    } catch (e) {
-      console.error("Failed to load history from localStorage", e);
-    }
+  const startCancellable = (): AbortSignal => {
+    abortRef.current = new AbortController();
+    usageRunsRef.current.push(startUsageRun(abortRef.current.signal));
+    return abortRef.current.signal;
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  // Cancelling is not a failure, so it clears the error instead of showing one
+  const showError = (e: unknown, fallback: string) => {
+    console.error(e);
+    setError(describeError(e, fallback));
+  };
+
+  useEffect(() => subscribeUsage(() => setUsageWarning(usageSaveError())), []);
+
+  const refreshStorageEstimate = useCallback(() => {
+    getStorageEstimate()
+      .then(setStorageEstimate)
+      .catch(e => console.error("Failed to read storage estimate", e));
   }, []);
 
-  // Save history to localStorage whenever it changes
+  // Migrate any localStorage history, then load history metadata on initial render.
+  // Audio stays in IndexedDB until an item is opened.
   useEffect(() => {
-    try {
-      localStorage.setItem('movieRecapHistory', JSON.stringify(history));
-    } catch (e) {
-      console.error("Failed to save history to localStorage", e);
-    }
-  }, [history]);
+    migrateLocalStorageHistory()
+      .catch(e => console.error("Failed to migrate history from localStorage", e))
+      .then(() => listHistory())
+      .then(items => {
+        setHistory(items);
+        // Reopen the recap the last job finished with, as it was before the reload
+        const job = loadJob();
+        const finished = job?.stage === 'voiced' ? items.find(item => item.id === job.historyId) : undefined;
+        if (finished) handleLoadHistory(finished);
+      })
+      .catch(e => {
+        console.error("Failed to load history from IndexedDB", e);
+        setError('Could not load your saved history.');
+      })
+      .finally(refreshStorageEstimate);
+  }, [refreshStorageEstimate]);
+
+  // Autosave the transcript draft once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => saveTranscriptDraft(transcript), 1000);
+    return () => clearTimeout(timer);
+  }, [transcript]);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files[0]) {
       const file = event.target.files[0];
+      event.target.value = ''; // Allow re-selecting the same file
+
+      if (isSubtitleFile(file)) {
+        // Subtitles are already text, so they fill the transcript without an API call
+        setError(null);
+        setMediaFile(null);
+        try {
+          const cues = parseSubtitles(decodeSubtitleBytes(await file.arrayBuffer()), file.name);
+          if (cues.length === 0) {
+            throw new Error('No subtitle lines were found in this file.');
+          }
+          setTranscriptCues(cues);
+          setTranscript(cuesToTranscript(cues));
+          setTranscriptOrigin({ fileName: file.name });
+        } catch (e: any) {
+          console.error(e);
+          setError(e.message || 'Could not read the subtitle file.');
+        }
+        return;
+      }
+
       setMediaFile(file);
     }
   };
 
-  const handleTranscribe = async () => {
+  // Transcribes the picked file, or continues an interrupted transcription of
+  // it. Each chunk is checkpointed, and the finished transcript saved as a job.
+  const handleTranscribe = async (previous?: PartialTranscript, settings: JobSettings = currentSettings()) => {
     if (!mediaFile) return;
+    const fileName = mediaFile.name;
+
+    // Only the part after the last finished cue is still to be transcribed
+    const duration = await readMediaDuration(mediaFile);
+    const transcribed = previous?.cues.length ? previous.cues[previous.cues.length - 1].end : 0;
+    if (duration !== null && !confirmWithinBudget([estimateTranscriptionCost(Math.max(0, duration - transcribed))], 'Transcribe it')) return;
 
     setIsTranscribing(true);
     setError(null);
-    setTranscript('');
+    setInterruptedJob(null);
+    setTranscript(previous ? cuesToTranscript(previous.cues) : '');
+    setTranscriptCues(previous?.cues ?? null);
+    setTranscriptOrigin({});
+    setTranscriptionProgress(null);
 
+    let checkpoint: PipelineJob | null = null;
+    let cues: TimedCue[] | null = previous?.cues ?? null;
     try {
-      const transcribedText = await transcribeMedia(mediaFile);
+      const transcribedText = await transcribeMedia(mediaFile, {
+        signal: startCancellable(),
+        timed: mode === 'dub', // Dubbing needs line timings, which only chunked transcription returns
+        previous,
+        // Large files arrive chunk by chunk; show each part as it lands
+        onCues: (partial, chunksDone) => {
+          cues = partial;
+          setTranscriptCues(partial);
+          setTranscript(cuesToTranscript(partial));
+          checkpoint = saveJob({
+            stage: 'transcribing',
+            settings,
+            transcript: cuesToTranscript(partial),
+            source: { fileName, cues: partial },
+            media: { fileName, size: mediaFile.size, chunksDone },
+          });
+        },
+        onProgress: setTranscriptionProgress,
+      });
       setTranscript(transcribedText);
+      setTranscriptOrigin({ fileName });
+      saveJob({
+        stage: 'transcribed',
+        settings,
+        transcript: transcribedText,
+        source: { fileName, ...(cues ? { cues } : {}) },
+      });
     } catch (e: any) {
-      console.error(e);
-      setError(e.message || 'An error occurred during transcription.');
+      showError(e, 'An error occurred during transcription.');
+      if (checkpoint) setInterruptedJob(checkpoint); // Offer to continue after the last finished part
     } finally {
       setIsTranscribing(false);
+      setTranscriptionProgress(null);
     }
   };
 
-  const handleGenerate = useCallback(async () => {
-    if (!transcript.trim()) {
-      setError('Please provide a transcript to generate a recap.');
+  // Typed or pasted text no longer follows the imported lines, so their
+  // timings and source are dropped
+  const handleTranscriptEdit = (text: string) => {
+    setTranscript(text);
+    setTranscriptCues(null);
+    setTranscriptOrigin({});
+  };
+
+  // Where the transcript came from, with its line timings. Recorded only while
+  // the timings still describe the transcript.
+  const transcriptSource = (): RecapSource => {
+    if (transcriptCues && !cuesMatchTranscript(transcriptCues, transcript)) return {};
+    return { ...transcriptOrigin, ...(transcriptCues ? { cues: transcriptCues } : {}) };
+  };
+
+  const importCaptions = async (videoId: string, track: CaptionTrack) => {
+    const cues = await fetchCaptions(videoId, track);
+    setTranscriptCues(cues);
+    setTranscript(cuesToTranscript(cues));
+    setTranscriptOrigin({ youtubeUrl: `https://www.youtube.com/watch?v=${videoId}` });
+    setCaptionTracks([]);
+  };
+
+  const handleLoadCaptions = async () => {
+    const videoId = parseVideoId(youtubeUrl);
+    if (!videoId) {
+      setError('Please enter a valid YouTube video URL or ID.');
       return;
     }
 
+    setIsTranscribing(true);
+    setError(null);
+    setCaptionTracks([]);
+
+    try {
+      const tracks = await listCaptionTracks(videoId);
+      if (tracks.length === 0) {
+        throw new Error('This video has no captions available.');
+      }
+      if (tracks.length === 1) {
+        await importCaptions(videoId, tracks[0]);
+      } else {
+        const preferred = chooseCaptionTrack(tracks);
+        setSelectedTrackIndex(preferred ? tracks.indexOf(preferred) : 0);
+        setCaptionTracks(tracks);
+      }
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'An error occurred while loading captions.');
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const handleImportSelectedTrack = async () => {
+    const videoId = parseVideoId(youtubeUrl);
+    const track = captionTracks[selectedTrackIndex];
+    if (!videoId || !track) return;
+
+    setIsTranscribing(true);
+    setError(null);
+
+    try {
+      await importCaptions(videoId, track);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'An error occurred while importing captions.');
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  // Global entries plus this recap's own, which win for the same term
+  const lexicon = mergeLexicons(globalLexicon, projectLexicon);
+
+  const applyAudio = (
+    audio: GeneratedAudio,
+    script: string,
+    voices: Record<string, string>,
+    measured: boolean = true,
+    voicedWith: LexiconEntry[] = lexicon
+  ) => {
+    setAudioUrl(createWavUrl(audio.base64Audio));
+    setNarrationAudio(audio.base64Audio);
+    setSpeechSegments(audio.segments);
+    setVoicedScript(script);
+    setVoicedSpeakerVoices(voices);
+    setVoicedLexicon(voicedWith);
+    setSegmentsMeasured(measured);
+  };
+
+  // Saves the result as a new version of the target history item, or as a new
+  // item when there is no target. Audio is only written when it changed.
+  const saveVersion = async (
+    target: { id: number; audioId: number } | null,
+    version: Omit<RecapVersion, 'version' | 'audioId' | 'timestamp'>,
+    newAudio?: string,
+    // Recorded on new items only
+    details: Pick<HistoryItem, 'preset' | 'language' | 'transcript' | 'settings' | 'source'> = {
+      preset: recapPreset ?? undefined,
+      language: selectedLanguage,
+      transcript,
+      settings: { dialogue: dialogueMode, paragraphGapMs },
+      source: transcriptSource(),
+    }
+  ): Promise<number | null> => {
+    const timestamp = new Date().toISOString();
+    const existing = target ? history.find(item => item.id === target.id) : undefined;
+    const audioId = newAudio || !target ? newHistoryId() : target.audioId;
+    const recapVersion: RecapVersion = {
+      // A version that keeps the audio keeps its voice and pronunciations
+      voice: existing ? currentVersion(existing).voice : undefined,
+      voicedLexicon: existing ? currentVersion(existing).voicedLexicon : undefined,
+      dialogue: scriptDialogue,
+      ...version,
+      version: existing ? currentVersion(existing).version + 1 : 1,
+      audioId,
+      timestamp,
+    };
+    const item: HistoryItem = existing
+      ? { ...existing, versions: [...existing.versions, recapVersion], lexicon: projectLexicon }
+      : {
+        id: audioId,
+        timestamp,
+        versions: [recapVersion],
+        ...(details.preset ? { preset: details.preset } : {}),
+        ...(details.language ? { language: details.language } : {}),
+        ...(details.transcript ? { transcript: details.transcript } : {}),
+        ...(details.settings ? { settings: details.settings } : {}),
+        ...(projectLexicon.length > 0 ? { lexicon: projectLexicon } : {}),
+        source: details.source ?? {},
+      };
+
+    try {
+      await saveHistoryItem(item, newAudio ? { audioId, base64Audio: newAudio } : undefined);
+      attributeUsage(usageRunsRef.current, item.id);
+      usageRunsRef.current = [];
+      setHistory(prevHistory => [item, ...prevHistory.filter(other => other.id !== item.id)]);
+      setActiveHistory({ id: item.id, audioId });
+      setSelectedVersions(prev => ({ ...prev, [item.id]: recapVersion.version }));
+      requestPersistentStorage().catch(e => console.error("Failed to request persistent storage", e));
+      return item.id;
+    } catch (e: any) {
+      setError(`${e.message} The recap above was not added to history.`);
+      return null;
+    } finally {
+      refreshStorageEstimate();
+    }
+  };
+
+  // Every character in the current script gets a voice, picked or assigned
+  const resolvedSpeakerVoices = assignSpeakerVoices(listSpeakers(recapScript, scriptDialogue), selectedVoice, speakerVoices);
+  const audioOptions = { paragraphGapMs, speakerVoices: resolvedSpeakerVoices, lexicon, dialogue: scriptDialogue, onProgress: setAudioProgress };
+
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId) ?? DEFAULT_PRESET;
+
+  const handlePresetsChange = (updated: RecapPreset[]) => {
+    setPresets(updated);
+    try {
+      savePresets(updated);
+    } catch (e) {
+      console.error("Failed to save presets", e);
+      setError('Could not save your presets in this browser.');
+    }
+  };
+
+  const handleSelectPreset = (id: string) => {
+    setSelectedPresetId(id);
+    saveSelectedPresetId(id);
+  };
+
+  const handleGlobalLexiconChange = (entries: LexiconEntry[]) => {
+    setGlobalLexicon(entries);
+    try {
+      saveGlobalLexicon(entries);
+    } catch (e) {
+      console.error("Failed to save lexicon", e);
+      setError('Could not save your pronunciation lexicon in this browser.');
+    }
+  };
+
+  // Saves changed metadata, such as tags, without adding a version
+  const handleUpdateHistoryItem = async (item: HistoryItem) => {
+    setHistory(prevHistory => prevHistory.map(other => (other.id === item.id ? item : other)));
+    try {
+      await saveHistoryItem(item);
+    } catch (e: any) {
+      console.error("Failed to update history item", e);
+      setError(e.message || 'Could not save changes to this history item.');
+    }
+  };
+
+  // The recap's own entries are stored on its history item, without adding a version
+  const handleProjectLexiconChange = async (entries: LexiconEntry[]) => {
+    setProjectLexicon(entries);
+    const existing = activeHistory ? history.find(item => item.id === activeHistory.id) : undefined;
+    if (!existing) return;
+
+    await handleUpdateHistoryItem({ ...existing, lexicon: entries });
+  };
+
+  const currentSettings = (): JobSettings => ({
+    language: selectedLanguage,
+    voice: selectedVoice,
+    dialogue: dialogueMode,
+    preset: selectedPreset,
+  });
+
+  // Runs a job from its last completed stage: writes the script unless the job
+  // already has one, then voices and saves it, checkpointing after each stage.
+  const runJob = async (job: PipelineJob) => {
+    const { settings } = job;
+    const signal = startCancellable();
     setIsLoading(true);
     setError(null);
+    setInterruptedJob(null);
     setRecapScript('');
+    setScriptWarnings([]);
     setTitle('');
+    setPublishing(null);
     setAudioUrl(null);
+    setNarrationAudio(null);
+    setSpeechSegments([]);
+    setActiveHistory(null);
+    setAudioProgress(null);
     setCopied({});
 
     try {
-      const { script, title } = await generateRecapScript(transcript, selectedLanguage);
+      if (job.stage === 'transcribed') {
+        const { script, title, publishing, warnings } = await generateRecapScript(job.beatSheet ?? job.transcript, settings.language, {
+          dialogue: settings.dialogue,
+          fromBeatSheet: job.beatSheet !== undefined,
+          style: presetStyle(settings.preset, settings.language),
+          signal,
+        });
+        job = saveJob({
+          ...job,
+          stage: 'scripted',
+          script,
+          title,
+          publishing,
+          speakerVoices: assignSpeakerVoices(listSpeakers(script, settings.dialogue), settings.voice, {}),
+          warnings,
+        });
+      }
+
+      const { script, title, publishing, speakerVoices: voices } = job;
       setRecapScript(script);
       setTitle(title);
+      setPublishing(publishing ?? null);
+      setScriptWarnings(job.warnings ?? []);
+      setSpeakerVoices(voices);
+      setRecapPreset(settings.preset);
+      setScriptDialogue(settings.dialogue);
 
-      const audioBase64 = await generateAudio(script, selectedVoice);
-      const url = createWavUrl(audioBase64);
-      setAudioUrl(url);
+      const audio = await generateAudio(script, settings.voice, { ...audioOptions, speakerVoices: voices, dialogue: settings.dialogue, signal });
+      applyAudio(audio, script, voices);
 
       // Save to history
-      const newHistoryItem: HistoryItem = {
-        id: Date.now(),
+      const historyId = await saveVersion(null, {
         title,
         script,
-        audioBase64,
-        timestamp: new Date().toISOString(),
-      };
-      setHistory(prevHistory => [newHistoryItem, ...prevHistory]);
+        segments: audio.segments,
+        durationSeconds: getPcmDuration(audio.base64Audio),
+        speakerVoices: voices,
+        voice: settings.voice,
+        dialogue: settings.dialogue,
+        voicedLexicon: lexicon,
+        publishing,
+      }, audio.base64Audio, {
+        preset: settings.preset,
+        language: settings.language,
+        transcript: job.transcript,
+        source: job.source,
+        settings: { dialogue: settings.dialogue, paragraphGapMs, ...(job.beatSheet ? { beatSheet: job.beatSheet } : {}) },
+      });
+      if (historyId !== null) saveJob({ ...job, stage: 'voiced', historyId });
 
     } catch (e: any) {
-      console.error(e);
-      setError(e.message || 'An error occurred while generating the recap. Please check your API key and try again.');
+      showError(e, 'An error occurred while generating the recap. Please check your API key and try again.');
+      setInterruptedJob(job); // Offer to continue from the last checkpoint
     } finally {
       setIsLoading(false);
     }
-  }, [transcript, selectedVoice, selectedLanguage]);
+  };
+
+  // Writes the recap from the transcript, or from a reviewed beat sheet, then voices and saves it.
+  const writeRecap = async (source: string, fromBeatSheet: boolean) => {
+    if (!confirmWithinBudget([estimateRecapCost(source.length, targetWordCount(selectedPreset.targetLength), false)], 'Write it')) return;
+    await runJob(saveJob({
+      stage: 'transcribed',
+      settings: currentSettings(),
+      transcript,
+      source: transcriptSource(),
+      ...(fromBeatSheet ? { beatSheet: source } : {}),
+    }));
+  };
+
+  // Puts the interrupted job's inputs back in the form, then continues it.
+  const handleResumeJob = async () => {
+    if (!interruptedJob) return;
+    const { settings, media, source = {} } = interruptedJob;
+    if (media && (mediaFile?.name !== media.fileName || mediaFile.size !== media.size)) {
+      setError(`To continue transcribing, pick "${media.fileName}" again. Media files can't be kept between sessions.`);
+      return;
+    }
+    setTranscript(interruptedJob.transcript);
+    setTranscriptCues(source.cues ?? null);
+    setTranscriptOrigin({ fileName: source.fileName, youtubeUrl: source.youtubeUrl });
+    setBeatSheet(interruptedJob.beatSheet ?? '');
+    setSelectedLanguage(settings.language);
+    setSelectedVoice(settings.voice);
+    setDialogueMode(settings.dialogue);
+    if (presets.some(preset => preset.id === settings.preset.id)) setSelectedPresetId(settings.preset.id);
+    if (media) {
+      await handleTranscribe({ cues: source.cues ?? [], chunksDone: media.chunksDone }, settings);
+      return;
+    }
+    // What is left: the script and its audio, or only the audio
+    const estimate = interruptedJob.stage === 'transcribed'
+      ? estimateRecapCost((interruptedJob.beatSheet ?? interruptedJob.transcript).length, targetWordCount(settings.preset.targetLength), false)
+      : estimateSpeechCost(interruptedJob.script);
+    if (confirmWithinBudget([estimate], 'Continue it')) await runJob(interruptedJob);
+  };
+
+  const handleDiscardJob = () => {
+    clearJob();
+    setInterruptedJob(null);
+  };
+
+  // Summarizes a long transcript part by part; the recap is written once the user has reviewed the result.
+  const buildBeatSheet = async () => {
+    setIsLoading(true);
+    setError(null);
+    setBeatSheet('');
+    setBeatSheetProgress(null);
+
+    try {
+      setBeatSheet(await generateBeatSheet(transcript, { signal: startCancellable(), onProgress: setBeatSheetProgress }));
+    } catch (e: any) {
+      showError(e, 'An error occurred while summarizing the transcript.');
+    } finally {
+      setIsLoading(false);
+      setBeatSheetProgress(null);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!transcript.trim()) {
+      setError('Please provide a transcript to generate a recap.');
+      return;
+    }
+
+    if (useBeatSheet) {
+      // Writing from the reviewed beat sheet asks again if that part alone is over budget
+      if (!confirmWithinBudget([estimateRecapCost(transcript.length, targetWordCount(selectedPreset.targetLength), true)], 'Generate it')) return;
+      await buildBeatSheet();
+    } else {
+      await writeRecap(transcript, false);
+    }
+  };
+
+  const handleRegenerateAudio = async () => {
+    if (!recapScript.trim()) return;
+    if (!confirmWithinBudget([estimateSpeechCost(recapScript)], 'Regenerate the audio')) return;
+
+    setIsLoading(true);
+    setRegenerating('audio');
+    setError(null);
+    setAudioProgress(null);
+
+    try {
+      const audio = await generateAudio(recapScript, selectedVoice, { ...audioOptions, signal: startCancellable() });
+      // Chapters point at paragraphs, so they follow the script's edits into the new audio
+      const voicedPublishing = publishing && reanchorPublishing(publishing, voicedScript, recapScript);
+      applyAudio(audio, recapScript, resolvedSpeakerVoices);
+      setPublishing(voicedPublishing);
+      await saveVersion(activeHistory, {
+        title,
+        script: recapScript,
+        segments: audio.segments,
+        durationSeconds: getPcmDuration(audio.base64Audio),
+        speakerVoices: resolvedSpeakerVoices,
+        voice: selectedVoice,
+        voicedLexicon: lexicon,
+        publishing: voicedPublishing,
+      }, audio.base64Audio);
+    } catch (e: any) {
+      showError(e, 'An error occurred while regenerating the audio.');
+    } finally {
+      setIsLoading(false);
+      setRegenerating(null);
+    }
+  };
+
+  const applyTitle = async (newTitle: string) => {
+    setTitle(newTitle);
+    // Without a saved item there is no stored audio for a title-only version to point at
+    if (activeHistory) await saveVersion(activeHistory, {
+      title: newTitle,
+      script: recapScript,
+      segments: speechSegments,
+      durationSeconds: narrationAudio ? getPcmDuration(narrationAudio) : undefined,
+      speakerVoices: voicedSpeakerVoices,
+      publishing,
+    });
+  };
+
+  const handleRegenerateTitle = async () => {
+    if (!recapScript.trim()) return;
+    if (!confirmWithinBudget([estimateTextCost(recapScript.length, title.length)], 'Regenerate the title')) return;
+
+    setIsLoading(true);
+    setRegenerating('title');
+    setError(null);
+
+    try {
+      await applyTitle(await generateTitle(recapScript, selectedLanguage, startCancellable()));
+    } catch (e: any) {
+      showError(e, 'An error occurred while regenerating the title.');
+    } finally {
+      setIsLoading(false);
+      setRegenerating(null);
+    }
+  };
+
+  const editedParagraphs = splitParagraphs(recapScript);
+  const voicedParagraphs = splitParagraphs(voicedScript);
+  // A paragraph needs re-voicing when its text changed, its speaker was given
+  // another voice, or a lexicon change alters what is sent to TTS
+  const paragraphChanged = (paragraph: string, i: number) => {
+    const speaker = scriptDialogue ? parseSpeakerTag(paragraph).speaker : null;
+    return paragraph !== voicedParagraphs[i]
+      || (speaker !== null && resolvedSpeakerVoices[speaker] !== voicedSpeakerVoices[speaker])
+      || applyLexicon(paragraph, lexicon) !== applyLexicon(paragraph, voicedLexicon);
+  };
+  const changedParagraphs = editedParagraphs.length === voicedParagraphs.length
+    ? editedParagraphs.flatMap((paragraph, i) => (paragraphChanged(paragraph, i) ? [i] : []))
+    : [];
+  const hasResult = recapScript !== '' || audioUrl !== null;
+  const scriptOutOfSync = voicedScript !== '' && (recapScript !== voicedScript || changedParagraphs.length > 0);
+  const canRevoiceParagraphs = segmentsMeasured && narrationAudio !== null && changedParagraphs.length > 0;
+
+  const handleRevoiceParagraphs = async () => {
+    if (!canRevoiceParagraphs || !narrationAudio) return;
+    if (!confirmWithinBudget([estimateSpeechCost(changedParagraphs.map(i => editedParagraphs[i]).join('\n\n'))], 'Re-voice them')) return;
+
+    setIsLoading(true);
+    setRegenerating('paragraphs');
+    setError(null);
+    setAudioProgress(null);
+
+    try {
+      const audio = await revoiceParagraphs(
+        { base64Audio: narrationAudio, segments: speechSegments },
+        editedParagraphs,
+        changedParagraphs,
+        selectedVoice,
+        { ...audioOptions, signal: startCancellable() }
+      );
+      applyAudio(audio, recapScript, resolvedSpeakerVoices);
+      await saveVersion(activeHistory, {
+        title,
+        script: recapScript,
+        segments: audio.segments,
+        durationSeconds: getPcmDuration(audio.base64Audio),
+        speakerVoices: resolvedSpeakerVoices,
+        voice: selectedVoice,
+        voicedLexicon: lexicon,
+        publishing,
+      }, audio.base64Audio);
+    } catch (e: any) {
+      showError(e, 'An error occurred while re-voicing the edited paragraphs.');
+    } finally {
+      setIsLoading(false);
+      setRegenerating(null);
+    }
+  };
   
+  // The edited audio is saved as a new version, so the unedited take stays in history
+  const handleApplyAudioEdits = async (audio: GeneratedAudio) => {
+    applyAudio(audio, voicedScript, voicedSpeakerVoices, segmentsMeasured, voicedLexicon);
+    await saveVersion(activeHistory, {
+      title,
+      script: voicedScript,
+      segments: segmentsMeasured ? audio.segments : undefined,
+      durationSeconds: getPcmDuration(audio.base64Audio),
+      speakerVoices: voicedSpeakerVoices,
+      publishing,
+    }, audio.base64Audio);
+  };
+
   const handleCopy = (text: string, key: string) => {
     if (text) {
         navigator.clipboard.writeText(text);
@@ -124,30 +741,139 @@ const App: React.FC = () => {
     }
   };
 
+  const handleDownloadCaptions = (format: 'srt' | 'vtt') => {
+    const cues = alignCaptions(speechSegments);
+    if (format === 'srt') {
+      downloadText(formatSrt(cues), 'movie_recap.srt', 'application/x-subrip');
+    } else {
+      downloadText(formatVtt(cues), 'movie_recap.vtt', 'text/vtt');
+    }
+  };
+
   const handleClearCurrent = () => {
     setRecapScript('');
+    setScriptWarnings([]);
     setTitle('');
+    setPublishing(null);
     setAudioUrl(null);
+    setNarrationAudio(null);
+    setSpeechSegments([]);
+    setVoicedScript('');
+    setSpeakerVoices({});
+    setProjectLexicon([]);
+    setRecapPreset(null);
+    setScriptDialogue(false);
+    setActiveHistory(null);
+    clearJob();
     setError(null);
     setCopied({});
   };
 
-  const handleLoadHistory = (item: HistoryItem) => {
-    setTitle(item.title);
-    setRecapScript(item.script);
-    const url = createWavUrl(item.audioBase64);
-    setAudioUrl(url);
-    window.scrollTo({ top: 0, behavior: 'smooth' });
+  const handleLoadHistory = async (item: HistoryItem) => {
+    const versionNumber = selectedVersions[item.id] ?? currentVersion(item).version;
+    const version = item.versions.find(v => v.version === versionNumber) ?? currentVersion(item);
+
+    setLoadingHistoryId(item.id);
+    setError(null);
+    try {
+      const audioBase64 = await loadHistoryAudio(version.audioId);
+      setTitle(version.title);
+      setPublishing(version.publishing ?? null);
+      setRecapScript(version.script);
+      setScriptWarnings([]);
+      // Segments saved before paragraph indexes were recorded can't be spliced
+      const measured = version.segments?.every(segment => typeof segment.paragraphIndex === 'number') ?? false;
+      const dialogue = isDialogueVersion(item, version);
+      const segments = measured ? version.segments! : estimateSpeechSegments(version.script, getPcmDuration(audioBase64), dialogue);
+      const voices = assignSpeakerVoices(listSpeakers(version.script, dialogue), selectedVoice, version.speakerVoices ?? {});
+      setScriptDialogue(dialogue);
+      setSpeakerVoices(voices);
+      setProjectLexicon(item.lexicon ?? []);
+      // Versions saved before the lexicon was recorded are assumed to match it as it is now
+      applyAudio({ base64Audio: audioBase64, segments }, version.script, voices, measured, version.voicedLexicon ?? mergeLexicons(globalLexicon, item.lexicon ?? []));
+      setActiveHistory({ id: item.id, audioId: version.audioId });
+      setRecapPreset(item.preset ?? null);
+      usageRunsRef.current = []; // Work on the previous transcript is not this recap's
+      // Put back the inputs it was made from, so it can be reproduced or reworked
+      if (item.transcript) {
+        setTranscript(item.transcript);
+        setTranscriptCues(item.source?.cues ?? null);
+        setTranscriptOrigin({ fileName: item.source?.fileName, youtubeUrl: item.source?.youtubeUrl });
+      }
+      if (item.language) setSelectedLanguage(item.language);
+      if (version.voice) setSelectedVoice(version.voice);
+      if (item.settings) {
+        setDialogueMode(item.settings.dialogue);
+        setParagraphGapMs(item.settings.paragraphGapMs);
+      }
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Could not load this history item.');
+    } finally {
+      setLoadingHistoryId(null);
+    }
   };
   
-  const handleDeleteHistory = (id: number) => {
-    setHistory(prevHistory => prevHistory.filter(item => item.id !== id));
+  const handleDeleteHistory = async (items: HistoryItem[]) => {
+    const ids = new Set(items.map(item => item.id));
+    try {
+      await deleteHistoryItems(items);
+      setHistory(prevHistory => prevHistory.filter(other => !ids.has(other.id)));
+      if (activeHistory && ids.has(activeHistory.id)) setActiveHistory(null);
+    } catch (e) {
+      console.error("Failed to delete history items", e);
+      setError(items.length === 1 ? 'Could not delete this history item.' : 'Could not delete the selected history items.');
+    } finally {
+      refreshStorageEstimate();
+    }
   };
   
-  const handleClearAllHistory = () => {
-    setHistory([]);
+  const handleClearAllHistory = async () => {
+    try {
+      await clearHistory();
+      setHistory([]);
+      setActiveHistory(null);
+    } catch (e) {
+      console.error("Failed to clear history", e);
+      setError('Could not clear history.');
+    } finally {
+      refreshStorageEstimate();
+    }
+  };
+
+  const handleImportProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const item = await importProject(file);
+      setHistory(prevHistory => [item, ...prevHistory]);
+      await handleLoadHistory(item);
+    } catch (e: any) {
+      console.error("Failed to import project", e);
+      setError(e.message || 'Could not import this project.');
+    } finally {
+      refreshStorageEstimate();
+    }
   };
 
+  // Batch results are saved by the queue itself; only the list needs updating
+  const handleBatchHistoryAdded = useCallback((item: HistoryItem) => {
+    setHistory(prevHistory => [item, ...prevHistory]);
+    refreshStorageEstimate();
+  }, [refreshStorageEstimate]);
+
+  const cancelButton = (
+    <button
+      onClick={handleCancel}
+      className="inline-flex items-center justify-center px-6 py-2 border border-red-500/50 text-base font-medium rounded-full text-red-400 hover:bg-red-500/10 transition-colors"
+    >
+      Cancel
+    </button>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 text-gray-200 font-sans p-4 sm:p-6 lg:p-8">
       <div className="max-w-4xl mx-auto">
@@ -156,37 +882,66 @@ const App: React.FC = () => {
             Movie Recap Generator
           </h1>
           <p className="mt-2 text-lg text-gray-400">Transform movie transcripts into engaging audio recaps in multiple languages.</p>
+          {getProvider().name === 'mock' && (
+            <p className="mt-3 inline-block px-3 py-1 rounded-full text-xs font-medium bg-yellow-500/20 text-yellow-300 border border-yellow-500/40">
+              Offline mock provider: responses and audio are synthetic
+            </p>
+          )}
         </header>
 
         <main className="space-y-8">
+          {interruptedJob && (
+            <ResumeJobBanner job={interruptedJob} onResume={handleResumeJob} onDiscard={handleDiscardJob} disabled={isLoading || isTranscribing} />
+          )}
+
           <div className="bg-white/5 p-6 rounded-2xl shadow-lg backdrop-blur-sm border border-white/10">
             <h2 className="text-2xl font-bold mb-4 flex items-center"><FilmIcon className="w-6 h-6 mr-2" /> Input</h2>
             
             <div className="space-y-6">
-              
+
+              <div>
+                <span className="block text-sm font-medium text-gray-300 mb-2">Mode</span>
+                <div className="grid grid-cols-2 gap-2">
+                  {MODES.map(({ value, label, hint }) => (
+                    <label
+                      key={value}
+                      className={`flex flex-col bg-gray-800/50 rounded-lg p-3 border cursor-pointer ${mode === value ? 'border-purple-500' : 'border-gray-700'}`}
+                    >
+                      <span className="flex items-center gap-2 text-sm">
+                        <input type="radio" name="mode" className="accent-purple-500" checked={mode === value} onChange={() => setMode(value)} disabled={isLoading || isTranscribing} />
+                        {label}
+                      </span>
+                      <span className="text-xs text-gray-500 mt-1">{hint}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
               <div>
-                <label htmlFor="media-upload" className="block text-sm font-medium text-gray-300 mb-2">Transcribe from Media File</label>
+                <label htmlFor="media-upload" className="block text-sm font-medium text-gray-300 mb-2">Transcribe from Media or Subtitle File</label>
                 <div className="mt-2 flex items-center space-x-4">
                   <div className="flex-grow">
                     <label htmlFor="file-upload" className="relative cursor-pointer bg-gray-800 rounded-md font-medium text-purple-400 hover:text-purple-300 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-offset-gray-900 focus-within:ring-purple-500 px-4 py-2 w-full text-center inline-block">
                       <div className="flex items-center justify-center">
                         <UploadIcon className="w-5 h-5 mr-2" />
-                        <span>{mediaFile ? 'Change File' : 'Select Audio/Video File'}</span>
+                        <span>{mediaFile ? 'Change File' : 'Select Audio/Video or Subtitle File'}</span>
                       </div>
-                      <input id="file-upload" name="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept="audio/*,video/*" disabled={isLoading || isTranscribing} />
+                      <input id="file-upload" name="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept="audio/*,video/*,.srt,.vtt,.ass,.ssa" disabled={isLoading || isTranscribing} />
                     </label>
                     {mediaFile && <p className="text-xs text-gray-500 mt-2 text-center truncate" title={mediaFile.name}>{mediaFile.name}</p>}
                   </div>
                   {mediaFile && (
                     <button
-                      onClick={handleTranscribe}
+                      onClick={() => handleTranscribe()}
                       disabled={isTranscribing || isLoading}
                       className="inline-flex items-center justify-center px-6 py-2 border border-transparent text-base font-medium rounded-full shadow-sm text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all"
                     >
                       {isTranscribing ? (
                         <>
                           <LoaderIcon className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" />
-                          Transcribing...
+                          {transcriptionProgress
+                            ? `Transcribing part ${Math.min(transcriptionProgress.completed + 1, transcriptionProgress.total)} of ${transcriptionProgress.total}...`
+                            : 'Transcribing...'}
                         </>
                       ) : (
                         <>
@@ -196,8 +951,57 @@ const App: React.FC = () => {
                       )}
                     </button>
                   )}
+                  {isTranscribing && mediaFile && cancelButton}
                 </div>
-                <p className="text-xs text-gray-500 mt-2">Upload a file to generate a transcript automatically.</p>
+                <p className="text-xs text-gray-500 mt-2">Upload a file to generate a transcript automatically. Subtitle files (SRT, VTT, ASS) are imported directly. Files over {formatBytes(INLINE_MEDIA_MAX_BYTES)} are transcribed in parts.</p>
+              </div>
+
+              <div>
+                <label htmlFor="youtube-url" className="block text-sm font-medium text-gray-300 mb-2">Import YouTube Captions</label>
+                <div className="mt-2 flex items-center space-x-4">
+                  <input
+                    id="youtube-url"
+                    type="text"
+                    className="flex-grow bg-gray-800/50 rounded-lg p-3 border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-300 placeholder-gray-500"
+                    placeholder="https://www.youtube.com/watch?v=... or video ID"
+                    value={youtubeUrl}
+                    onChange={(e) => { setYoutubeUrl(e.target.value); setCaptionTracks([]); }}
+                    disabled={isLoading || isTranscribing}
+                  />
+                  <button
+                    onClick={handleLoadCaptions}
+                    disabled={isTranscribing || isLoading || !youtubeUrl.trim()}
+                    className="inline-flex items-center justify-center px-6 py-2 border border-transparent text-base font-medium rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all"
+                  >
+                    <PlayCircleIcon className="-ml-1 mr-2 h-5 w-5" />
+                    Load Captions
+                  </button>
+                </div>
+                {captionTracks.length > 1 && (
+                  <div className="mt-3 flex items-center space-x-4">
+                    <select
+                      aria-label="Caption language"
+                      className="flex-grow bg-gray-800/50 rounded-lg p-3 border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-300"
+                      value={selectedTrackIndex}
+                      onChange={(e) => setSelectedTrackIndex(Number(e.target.value))}
+                      disabled={isLoading || isTranscribing}
+                    >
+                      {captionTracks.map((track, i) => (
+                        <option key={`${track.languageCode}-${track.name}-${i}`} value={i}>
+                          {track.label}{track.name ? ` - ${track.name}` : ''}{track.isAutoGenerated ? ' (auto-generated)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleImportSelectedTrack}
+                      disabled={isTranscribing || isLoading}
+                      className="inline-flex items-center justify-center px-6 py-2 border border-transparent text-base font-medium rounded-full shadow-sm text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all"
+                    >
+                      Import
+                    </button>
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mt-2">Paste a video link to use its captions as the transcript.</p>
               </div>
 
               <hr className="border-gray-700" />
@@ -213,7 +1017,7 @@ const App: React.FC = () => {
                     "Paste the transcript here, or generate one from a source above."
                   }
                   value={transcript}
-                  onChange={(e) => setTranscript(e.target.value)}
+                  onChange={(e) => handleTranscriptEdit(e.target.value)}
                   disabled={isLoading || isTranscribing}
                 />
               </div>
@@ -229,11 +1033,9 @@ const App: React.FC = () => {
                   onChange={(e) => setSelectedLanguage(e.target.value)}
                   disabled={isLoading || isTranscribing}
                 >
-                  <option value="Burmese">Burmese (Myanmar)</option>
-                  <option value="Thai">Thai</option>
-                  <option value="Vietnamese">Vietnamese</option>
-                  <option value="Indonesian">Indonesian</option>
-                  <option value="Japanese">Japanese</option>
+                  {LANGUAGES.map(language => (
+                    <option key={language.value} value={language.value}>{language.label}</option>
+                  ))}
                 </select>
                </div>
 
@@ -248,48 +1050,139 @@ const App: React.FC = () => {
                   onChange={(e) => setSelectedVoice(e.target.value)}
                   disabled={isLoading || isTranscribing}
                 >
-                  <optgroup label="Female Voices">
-                    <option value="Kore">Youthful Protagonist (Female)</option>
-                  </optgroup>
-                  <optgroup label="Male Voices">
-                    <option value="Puck">Standard Narrator (Male)</option>
-                    <option value="Charon">Wise Mentor (Male)</option>
-                    <option value="Fenrir">Action Hero (Male)</option>
-                    <option value="Zephyr">Friendly Sidekick (Male)</option>
-                  </optgroup>
+                  {VOICE_GROUPS.map(group => (
+                    <optgroup key={group} label={group}>
+                      {VOICES.filter(voice => voice.group === group).map(voice => (
+                        <option key={voice.value} value={voice.value}>{voice.label}</option>
+                      ))}
+                    </optgroup>
+                  ))}
                 </select>
                 <p className="text-xs text-gray-500 mt-2">Choose a voice that best fits the selected language and characters.</p>
               </div>
 
-            </div>
+              {mode === 'recap' && (
+                <>
+                  <div>
+                    <label htmlFor="gap-select" className="block text-sm font-medium text-gray-300 mb-2">
+                      Pause Between Paragraphs
+                    </label>
+                    <select
+                      id="gap-select"
+                      className="w-full bg-gray-800/50 rounded-lg p-3 border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-300"
+                      value={paragraphGapMs}
+                      onChange={(e) => setParagraphGapMs(Number(e.target.value))}
+                      disabled={isLoading || isTranscribing}
+                    >
+                      <option value={0}>None</option>
+                      <option value={250}>Short (0.25s)</option>
+                      <option value={500}>Medium (0.5s)</option>
+                      <option value={1000}>Long (1s)</option>
+                      <option value={1500}>Extra Long (1.5s)</option>
+                    </select>
+                  </div>
+
+                  <PresetEditor
+                    presets={presets}
+                    selectedId={selectedPreset.id}
+                    onSelect={handleSelectPreset}
+                    onChange={handlePresetsChange}
+                    language={selectedLanguage}
+                    disabled={isLoading || isTranscribing}
+                  />
+                </>
+              )}
+
+              <LexiconPanel
+                globalEntries={globalLexicon}
+                projectEntries={projectLexicon}
+                onGlobalChange={handleGlobalLexiconChange}
+                onProjectChange={handleProjectLexiconChange}
+                voice={selectedVoice}
+                disabled={isLoading}
+              />
+
+              {mode === 'recap' && (
+                <div>
+                  <span className="block text-sm font-medium text-gray-300 mb-2">Script Options</span>
+                  <label className="flex items-center gap-3 bg-gray-800/50 rounded-lg p-3 border border-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="accent-purple-500 w-4 h-4"
+                      checked={dialogueMode}
+                      onChange={(e) => setDialogueMode(e.target.checked)}
+                      disabled={isLoading || isTranscribing}
+                    />
+                    <span className="text-sm">Character dialogue</span>
+                  </label>
+                  <p className="text-xs text-gray-500 mt-2">Characters speak their own lines; the voice above narrates.</p>
+                  <label className="flex items-center gap-3 bg-gray-800/50 rounded-lg p-3 mt-3 border border-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="accent-purple-500 w-4 h-4"
+                      checked={useBeatSheet}
+                      onChange={(e) => setUseBeatSheet(e.target.checked)}
+                      disabled={isLoading || isTranscribing}
+                    />
+                    <span className="text-sm">Summarize in parts first</span>
+                  </label>
+                  <p className={`text-xs mt-2 ${transcript.length > BEAT_SHEET_THRESHOLD_CHARS && !useBeatSheet ? 'text-yellow-400' : 'text-gray-500'}`}>
+                    {transcript.length > BEAT_SHEET_THRESHOLD_CHARS && !useBeatSheet
+                      ? 'This transcript is long; summarizing it in parts gives a more complete recap.'
+                      : 'Builds an editable beat sheet for long transcripts before the script is written.'}
+                  </p>
+                </div>
+              )}
 
-            <div className="mt-8 text-center">
-              <button
-                onClick={handleGenerate}
-                disabled={isLoading || isTranscribing || !transcript}
-                className="inline-flex items-center justify-center px-8 py-3 border border-transparent text-base font-medium rounded-full shadow-sm text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transform hover:scale-105 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-purple-500"
-              >
-                {isLoading ? (
-                  <>
-                    <LoaderIcon className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" />
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <SparklesIcon className="-ml-1 mr-2 h-5 w-5" />
-                    Generate Recap
-                  </>
-                )}
-              </button>
             </div>
+
+            {mode === 'dub' ? (
+              <div className="mt-8">
+                <DubPanel cues={transcriptCues} transcript={transcript} language={selectedLanguage} voice={selectedVoice} lexicon={lexicon} disabled={isLoading || isTranscribing} />
+              </div>
+            ) : (
+              <div className="mt-8 text-center">
+                <button
+                  onClick={handleGenerate}
+                  disabled={isLoading || isTranscribing || !transcript}
+                  className="inline-flex items-center justify-center px-8 py-3 border border-transparent text-base font-medium rounded-full shadow-sm text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transform hover:scale-105 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-purple-500"
+                >
+                  {isLoading && !regenerating ? (
+                    <>
+                      <LoaderIcon className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" />
+                      {beatSheetProgress
+                        ? `Summarizing ${beatSheetProgress.completed}/${beatSheetProgress.total}...`
+                        : audioProgress ? `Voicing ${audioProgress.completed}/${audioProgress.total}...` : 'Writing Script...'}
+                    </>
+                  ) : (
+                    <>
+                      <SparklesIcon className="-ml-1 mr-2 h-5 w-5" />
+                      {useBeatSheet ? 'Build Beat Sheet' : 'Generate Recap'}
+                    </>
+                  )}
+                </button>
+                {isLoading && <span className="ml-3">{cancelButton}</span>}
+              </div>
+            )}
+            {(beatSheet || beatSheetProgress) && (
+              <BeatSheetPanel
+                beatSheet={beatSheet}
+                onChange={setBeatSheet}
+                onWriteRecap={() => writeRecap(beatSheet, true)}
+                onDiscard={() => setBeatSheet('')}
+                progress={beatSheetProgress}
+                disabled={isLoading}
+              />
+            )}
             {error && <p className="mt-4 text-center text-red-400">{error}</p>}
+            {usageWarning && <p className="mt-2 text-center text-sm text-yellow-400">{usageWarning}</p>}
           </div>
 
-          {(recapScript || isLoading) && (
+          {(hasResult || isLoading) && (
             <div className="bg-white/5 p-6 rounded-2xl shadow-lg backdrop-blur-sm border border-white/10">
               <div className="flex justify-between items-center mb-4">
                 <h2 className="text-2xl font-bold">Generated Recap</h2>
-                {recapScript && !isLoading && (
+                {hasResult && !isLoading && (
                   <button
                     onClick={handleClearCurrent}
                     className="inline-flex items-center px-3 py-1.5 border border-red-500/50 text-sm font-medium rounded-md text-red-400 hover:bg-red-500/10 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-red-500"
@@ -300,7 +1193,7 @@ const App: React.FC = () => {
                   </button>
                 )}
               </div>
-              {isLoading && !recapScript && (
+              {isLoading && !hasResult && (
                  <div className="space-y-4 animate-pulse">
                     <div className="h-4 bg-gray-700 rounded w-3/4"></div>
                     <div className="h-4 bg-gray-700 rounded"></div>
@@ -308,11 +1201,21 @@ const App: React.FC = () => {
                     <div className="h-4 bg-gray-700 rounded w-1/2"></div>
                 </div>
               )}
-              {recapScript && (
+              {hasResult && (
                 <div className="space-y-8">
                     {title && (
                         <div>
-                            <h3 className="text-lg font-semibold mb-2 flex items-center text-purple-300"><LightBulbIcon className="w-5 h-5 mr-2"/>Recommended Title</h3>
+                            <div className="flex justify-between items-center mb-2">
+                                <h3 className="text-lg font-semibold flex items-center text-purple-300"><LightBulbIcon className="w-5 h-5 mr-2"/>Recommended Title</h3>
+                                <button
+                                    onClick={handleRegenerateTitle}
+                                    disabled={isLoading || !recapScript.trim()}
+                                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    {regenerating === 'title' ? <LoaderIcon className="animate-spin w-4 h-4 mr-2" /> : <SparklesIcon className="w-4 h-4 mr-2" />}
+                                    Regenerate Title
+                                </button>
+                            </div>
                              <div className="relative">
                                 <p className="whitespace-pre-wrap bg-gray-800/50 rounded-lg p-4 font-sans text-base leading-relaxed">{title}</p>
                                 <button onClick={() => handleCopy(title, 'title')} className="absolute top-2 right-2 p-2 bg-gray-700/50 rounded-lg hover:bg-gray-600 transition-colors">
@@ -323,14 +1226,83 @@ const App: React.FC = () => {
                     )}
                     <div>
                         <h3 className="text-lg font-semibold mb-2">Recap Script</h3>
+                        {scriptWarnings.length > 0 && (
+                            <ul className="mb-2 text-xs text-yellow-400 space-y-1">
+                                {scriptWarnings.map((warning, i) => <li key={i}>⚠ {warning} Edit the script or generate again.</li>)}
+                            </ul>
+                        )}
                         <div className="relative">
-                            <p className="whitespace-pre-wrap bg-gray-800/50 rounded-lg p-4 font-mono text-sm leading-relaxed max-h-96 overflow-y-auto">{recapScript}</p>
+                            <textarea
+                                aria-label="Recap script"
+                                rows={14}
+                                className="w-full bg-gray-800/50 rounded-lg p-4 pr-14 font-mono text-sm leading-relaxed border border-transparent focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-300"
+                                value={recapScript}
+                                onChange={(e) => setRecapScript(e.target.value)}
+                                disabled={isLoading}
+                            />
                              <button onClick={() => handleCopy(recapScript, 'script')} className="absolute top-2 right-2 p-2 bg-gray-700/50 rounded-lg hover:bg-gray-600 transition-colors">
                                {copied['script'] ? <span className="text-xs text-green-400">Copied!</span> : <CopyIcon className="w-5 h-5" />}
                             </button>
                         </div>
+                        {listSpeakers(recapScript, scriptDialogue).length > 0 && (
+                            <SpeakerScriptView
+                                script={recapScript}
+                                narratorVoice={selectedVoice}
+                                speakerVoices={resolvedSpeakerVoices}
+                                onSpeakerVoiceChange={(speaker, voice) => setSpeakerVoices(prev => ({ ...prev, [speaker]: voice }))}
+                                disabled={isLoading}
+                            />
+                        )}
+                        {scriptOutOfSync && (
+                            <p className="text-xs text-yellow-400 mt-2">
+                                {changedParagraphs.length > 0
+                                  ? `${changedParagraphs.length} edited paragraph${changedParagraphs.length === 1 ? '' : 's'} not yet voiced.`
+                                  : 'Paragraphs were added or removed; regenerate the audio to match the script.'}
+                                {changedParagraphs.length > 0 && !segmentsMeasured && ' This recap has no paragraph timings, so regenerate the full audio instead.'}
+                            </p>
+                        )}
+                        <div className="flex flex-wrap gap-2 mt-3">
+                            <button
+                                onClick={handleRegenerateAudio}
+                                disabled={isLoading || !recapScript.trim()}
+                                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                {regenerating === 'audio' ? <LoaderIcon className="animate-spin w-4 h-4 mr-2" /> : <MicrophoneIcon className="w-4 h-4 mr-2" />}
+                                Regenerate Audio
+                            </button>
+                            <button
+                                onClick={handleRevoiceParagraphs}
+                                disabled={isLoading || !canRevoiceParagraphs}
+                                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                {regenerating === 'paragraphs' ? <LoaderIcon className="animate-spin w-4 h-4 mr-2" /> : <MicrophoneIcon className="w-4 h-4 mr-2" />}
+                                Re-voice Edited Paragraphs{changedParagraphs.length > 0 ? ` (${changedParagraphs.length})` : ''}
+                            </button>
+                        </div>
                     </div>
                   
+                  {isLoading && audioProgress && (
+                    <div className="pt-4">
+                        <h3 className="text-lg font-semibold mb-2">
+                            Generating Audio ({audioProgress.completed}/{audioProgress.total} parts)
+                        </h3>
+                        <div className="flex flex-wrap gap-1">
+                            {audioProgress.chunks.map((status, i) => (
+                                <span
+                                    key={i}
+                                    title={`Part ${i + 1}: ${status}`}
+                                    className={`h-3 w-6 rounded ${
+                                        status === 'done' ? 'bg-green-500' :
+                                        status === 'active' ? 'bg-purple-500 animate-pulse' :
+                                        status === 'retrying' ? 'bg-yellow-500 animate-pulse' :
+                                        status === 'failed' ? 'bg-red-500' : 'bg-gray-700'
+                                    }`}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                  )}
+
                   {audioUrl && (
                     <div className="pt-4">
                         <h3 className="text-lg font-semibold mb-2">Listen to the Recap</h3>
@@ -345,18 +1317,67 @@ const App: React.FC = () => {
                             <DownloadIcon className="w-4 h-4 mr-2"/>
                             Download Audio (.wav)
                         </a>
+                        {speechSegments.length > 0 && (
+                          <>
+                            <button
+                                onClick={() => handleDownloadCaptions('srt')}
+                                className="inline-flex items-center mt-4 ml-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 transition-colors"
+                            >
+                                <DownloadIcon className="w-4 h-4 mr-2"/>
+                                Captions (.srt)
+                            </button>
+                            <button
+                                onClick={() => handleDownloadCaptions('vtt')}
+                                className="inline-flex items-center mt-4 ml-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 transition-colors"
+                            >
+                                <DownloadIcon className="w-4 h-4 mr-2"/>
+                                Captions (.vtt)
+                            </button>
+                          </>
+                        )}
+                        {narrationAudio && (
+                          <AudioExportControls getWav={() => createWavBlob(narrationAudio)} fileBaseName="movie_recap" disabled={isLoading} />
+                        )}
                     </div>
                   )}
+
+                  {narrationAudio && (
+                    <WaveformEditor narrationAudio={narrationAudio} segments={speechSegments} onApply={handleApplyAudioEdits} disabled={isLoading} />
+                  )}
+
+                  {narrationAudio && <MusicBedPanel narrationAudio={narrationAudio} disabled={isLoading} />}
+
+                  {narrationAudio && speechSegments.length > 0 && (
+                    <VideoRenderPanel narrationAudio={narrationAudio} segments={speechSegments} chapters={publishing && !chaptersStale(publishing, speechSegments) ? publishing.chapters : undefined} disabled={isLoading} />
+                  )}
+
+                  {publishing && speechSegments.length > 0 && (
+                    <PublishingPanel title={title} publishing={publishing} segments={speechSegments} onUseTitle={applyTitle} />
+                  )}
                 </div>
               )}
             </div>
           )}
 
-          {history.length > 0 && (
-            <div className="bg-white/5 p-6 rounded-2xl shadow-lg backdrop-blur-sm border border-white/10">
-              <div className="flex justify-between items-center mb-4">
-                <h2 className="text-2xl font-bold">Generation History</h2>
-                <button
+          <BatchQueuePanel
+            defaultLanguage={selectedLanguage}
+            defaultVoice={selectedVoice}
+            paragraphGapMs={paragraphGapMs}
+            lexicon={globalLexicon}
+            onHistoryAdded={handleBatchHistoryAdded}
+          />
+
+          <div className="bg-white/5 p-6 rounded-2xl shadow-lg backdrop-blur-sm border border-white/10">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-bold">Generation History</h2>
+              <div className="flex gap-2">
+                <label className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 cursor-pointer transition-colors">
+                  <UploadIcon className="w-4 h-4 mr-2" />
+                  Import Project
+                  <input type="file" className="sr-only" accept=".zip,.json,application/zip,application/json" onChange={handleImportProject} disabled={isLoading} />
+                </label>
+                {history.length > 0 && (
+                  <button
                     onClick={handleClearAllHistory}
                     className="inline-flex items-center px-3 py-1.5 border border-red-500/50 text-sm font-medium rounded-md text-red-400 hover:bg-red-500/10 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-red-500"
                     aria-label="Clear all history"
@@ -364,37 +1385,39 @@ const App: React.FC = () => {
                     <TrashIcon className="w-4 h-4 mr-2" />
                     Clear All
                   </button>
+                )}
               </div>
-              <ul className="space-y-4">
-                {history.map((item) => (
-                  <li key={item.id} className="bg-gray-800/50 p-4 rounded-lg flex items-center justify-between">
-                    <div>
-                      <p className="font-semibold">{item.title}</p>
-                      <p className="text-sm text-gray-400">
-                        Generated on: {new Date(item.timestamp).toLocaleString()}
-                      </p>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => handleLoadHistory(item)}
-                        className="p-2 bg-gray-700/50 rounded-lg hover:bg-gray-600 transition-colors"
-                        aria-label="Load this item"
-                      >
-                        <HistoryIcon className="w-5 h-5" />
-                      </button>
-                      <button
-                        onClick={() => handleDeleteHistory(item.id)}
-                        className="p-2 bg-red-900/50 rounded-lg hover:bg-red-800/50 transition-colors"
-                        aria-label="Delete this item"
-                      >
-                        <TrashIcon className="w-5 h-5 text-red-400" />
-                      </button>
-                    </div>
-                  </li>
-                ))}
-              </ul>
             </div>
-          )}
+            {storageEstimate && storageEstimate.quota > 0 && (
+              <div className="mb-4">
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>Storage used</span>
+                  <span>{formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)}</span>
+                </div>
+                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${storageEstimate.usage / storageEstimate.quota > 0.9 ? 'bg-red-500' : 'bg-purple-500'}`}
+                    style={{ width: `${Math.min(100, Math.max(1, (storageEstimate.usage / storageEstimate.quota) * 100))}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-400">Recaps you generate or import appear here.</p>
+            ) : (
+              <HistoryBrowser
+                history={history}
+                selectedVersions={selectedVersions}
+                onSelectVersion={(id, version) => setSelectedVersions(prev => ({ ...prev, [id]: version }))}
+                loadingHistoryId={loadingHistoryId}
+                onLoad={handleLoadHistory}
+                onDelete={handleDeleteHistory}
+                onUpdate={handleUpdateHistoryItem}
+              />
+            )}
+          </div>
+
+          <UsagePanel history={history} />
         </main>
       </div>
     </div>
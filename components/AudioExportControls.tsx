@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { exportAudio, exportExtension, EXPORT_FORMATS, EXPORT_BITRATES, ExportFormat } from '../utils/encoder';
+import { LOUDNESS_TARGETS } from '../utils/loudness';
+import { downloadBlob } from '../utils/download';
+import { DownloadIcon, LoaderIcon } from './icons';
+
+interface AudioExportControlsProps {
+  getWav: () => Blob;  // The audio to export, as a WAV
+  fileBaseName: string;
+  disabled?: boolean;
+}
+
+const AudioExportControls: React.FC<AudioExportControlsProps> = ({ getWav, fileBaseName, disabled }) => {
+  const [format, setFormat] = useState<ExportFormat>('mp3');
+  const [bitrate, setBitrate] = useState<number>(128);
+  const [normalize, setNormalize] = useState<boolean>(false);
+  const [targetLufs, setTargetLufs] = useState<number>(LOUDNESS_TARGETS[0].value);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const blob = await exportAudio(getWav(), {
+        format,
+        bitrate,
+        targetLufs: normalize ? targetLufs : null,
+      });
+      downloadBlob(blob, `${fileBaseName}.${exportExtension(format)}`);
+    } catch (e: any) {
+      console.error("Error exporting audio:", e);
+      setError(e.message || 'Could not export the audio.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const selectClassName = "bg-gray-800/50 rounded-lg p-2 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500";
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select aria-label="Export format" className={selectClassName} value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} disabled={disabled || isExporting}>
+          {EXPORT_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+        </select>
+        {format !== 'wav' && (
+          <select aria-label="Bitrate" className={selectClassName} value={bitrate} onChange={(e) => setBitrate(Number(e.target.value))} disabled={disabled || isExporting}>
+            {EXPORT_BITRATES.map(rate => <option key={rate} value={rate}>{rate} kbps</option>)}
+          </select>
+        )}
+        <label className="inline-flex items-center text-sm text-gray-300">
+          <input type="checkbox" className="mr-2 accent-purple-500" checked={normalize} onChange={(e) => setNormalize(e.target.checked)} disabled={disabled || isExporting} />
+          Normalize to
+        </label>
+        <select aria-label="Loudness target" className={selectClassName} value={targetLufs} onChange={(e) => setTargetLufs(Number(e.target.value))} disabled={disabled || isExporting || !normalize}>
+          {LOUDNESS_TARGETS.map(target => <option key={target.value} value={target.value}>{target.label}</option>)}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={disabled || isExporting}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isExporting ? <LoaderIcon className="animate-spin w-4 h-4 mr-2" /> : <DownloadIcon className="w-4 h-4 mr-2" />}
+          {isExporting ? 'Encoding...' : 'Export'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default AudioExportControls;
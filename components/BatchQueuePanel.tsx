@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useRef } from 'react';
+import JSZip from 'jszip';
+import { createBatchQueue, estimateBatchItemCost, BatchQueue, BatchState, BatchItem, BatchStage } from '../services/batchQueue';
+import { confirmWithinBudget } from '../services/budgetService';
+import { saveHistoryItem, loadHistoryAudio, newHistoryId } from '../services/storageService';
+import { isSubtitleFile, parseSubtitles, decodeSubtitleBytes, cuesToTranscript } from '../utils/subtitles';
+import { getPcmDuration } from '../utils/audio';
+import { downloadBlob } from '../utils/download';
+import { addRecapFolder } from '../utils/recapZip';
+import { HistoryItem, LexiconEntry } from '../types';
+import { LANGUAGES, VOICES } from '../constants';
+import { DownloadIcon, LoaderIcon, SparklesIcon, TrashIcon, UploadIcon } from './icons';
+
+interface BatchQueuePanelProps {
+  defaultLanguage: string;
+  defaultVoice: string;
+  paragraphGapMs: number;
+  lexicon: LexiconEntry[];
+  onHistoryAdded: (item: HistoryItem) => void;
+}
+
+const STAGE_LABELS: Record<BatchStage, string> = {
+  queued: 'Queued',
+  transcribing: 'Transcribing',
+  scripting: 'Writing script',
+  voicing: 'Voicing',
+  saving: 'Saving',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STAGE_COLORS: Record<BatchStage, string> = {
+  queued: 'bg-gray-700 text-gray-300',
+  transcribing: 'bg-purple-700/60 text-purple-200',
+  scripting: 'bg-purple-700/60 text-purple-200',
+  voicing: 'bg-purple-700/60 text-purple-200',
+  saving: 'bg-purple-700/60 text-purple-200',
+  done: 'bg-green-700/60 text-green-200',
+  failed: 'bg-red-700/60 text-red-200',
+  cancelled: 'bg-gray-600 text-gray-300',
+};
+
+// Text and subtitle files become transcripts right away; anything else is
+// treated as media to transcribe.
+async function toBatchSource(file: File): Promise<BatchItem['source']> {
+  if (isSubtitleFile(file)) {
+    const cues = parseSubtitles(decodeSubtitleBytes(await file.arrayBuffer()), file.name);
+    return { kind: 'transcript', text: cuesToTranscript(cues) };
+  }
+  if (file.type === 'text/plain' || file.name.toLowerCase().endsWith('.txt')) {
+    return { kind: 'transcript', text: await file.text() };
+  }
+  return { kind: 'media', file };
+}
+
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({ defaultLanguage, defaultVoice, paragraphGapMs, lexicon, onHistoryAdded }) => {
+  const [state, setState] = useState<BatchState>({ items: [], running: false, paused: false });
+  const [batchLanguage, setBatchLanguage] = useState<string>(defaultLanguage);
+  const [batchVoice, setBatchVoice] = useState<string>(defaultVoice);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [pastedTranscript, setPastedTranscript] = useState<string>('');
+  const [isZipping, setIsZipping] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onHistoryAddedRef = useRef(onHistoryAdded);
+  onHistoryAddedRef.current = onHistoryAdded;
+
+  const queueRef = useRef<BatchQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createBatchQueue({
+      concurrency,
+      paragraphGapMs,
+      lexicon,
+      onChange: setState,
+      onResult: async (item, recap) => {
+        const id = newHistoryId();
+        const timestamp = new Date().toISOString();
+        const historyItem: HistoryItem = {
+          id,
+          timestamp,
+          language: item.language,
+          transcript: recap.transcript,
+          settings: recap.settings,
+          source: item.source.kind === 'media' ? { fileName: item.source.file.name } : {},
+          versions: [{
+            version: 1,
+            title: recap.title,
+            script: recap.script,
+            segments: recap.segments,
+            durationSeconds: getPcmDuration(recap.base64Audio),
+            publishing: recap.publishing,
+            voice: item.voice,
+            dialogue: recap.settings.dialogue,
+            voicedLexicon: recap.lexicon,
+            audioId: id,
+            timestamp,
+          }],
+        };
+        await saveHistoryItem(historyItem, { audioId: id, base64Audio: recap.base64Audio });
+        onHistoryAddedRef.current(historyItem);
+        return { historyId: id, audioId: id };
+      },
+    });
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    queue.setParagraphGap(paragraphGapMs);
+  }, [queue, paragraphGapMs]);
+
+  useEffect(() => {
+    queue.setLexicon(lexicon);
+  }, [queue, lexicon]);
+
+  const { items, running, paused } = state;
+  const queuedCount = items.filter(item => item.stage === 'queued').length;
+  const doneItems = items.filter(item => item.stage === 'done');
+  const retryableCount = items.filter(item => item.stage === 'failed' || item.stage === 'cancelled').length;
+
+  const handleFilesAdded = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    setError(null);
+
+    const newItems: Parameters<BatchQueue['add']>[0] = [];
+    for (const file of files) {
+      try {
+        newItems.push({ name: file.name, source: await toBatchSource(file), language: batchLanguage, voice: batchVoice });
+      } catch (e) {
+        console.error(`Could not read "${file.name}"`, e);
+        setError(`Could not read "${file.name}".`);
+      }
+    }
+    queue.add(newItems);
+  };
+
+  const handleAddTranscript = () => {
+    const text = pastedTranscript.trim();
+    if (!text) return;
+    queue.add([{
+      name: `Pasted transcript ${items.length + 1}`,
+      source: { kind: 'transcript', text },
+      language: batchLanguage,
+      voice: batchVoice,
+    }]);
+    setPastedTranscript('');
+  };
+
+  const handleApplyToAll = () => {
+    for (const item of items) {
+      queue.update(item.id, { language: batchLanguage, voice: batchVoice });
+    }
+  };
+
+  // Asks once about everything queued, rather than as each item starts
+  const handleStart = async () => {
+    const estimates = await Promise.all(items.filter(item => item.stage === 'queued').map(item => estimateBatchItemCost(item.source)));
+    const known = estimates.filter((estimate): estimate is number => estimate !== null);
+    if (confirmWithinBudget(known, 'Start the batch')) queue.start();
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    queue.setConcurrency(value);
+  };
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    setError(null);
+
+    try {
+      const zip = new JSZip();
+      for (const [index, item] of doneItems.entries()) {
+        const result = item.result!;
+        addRecapFolder(zip, index, { ...result, base64Audio: await loadHistoryAudio(result.audioId) });
+      }
+      downloadBlob(await zip.generateAsync({ type: 'blob' }), 'movie_recaps.zip');
+    } catch (e: any) {
+      console.error("Error building batch ZIP:", e);
+      setError('Could not build the ZIP file.');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const selectClassName = "bg-gray-800/50 rounded-lg p-2 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500";
+  const buttonClassName = "inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl shadow-lg backdrop-blur-sm border border-white/10">
+      <h2 className="text-2xl font-bold mb-4">Batch Queue</h2>
+
+      <div className="space-y-4">
+        <label htmlFor="batch-upload" className="relative cursor-pointer bg-gray-800 rounded-md font-medium text-purple-400 hover:text-purple-300 px-4 py-2 w-full text-center inline-block">
+          <div className="flex items-center justify-center">
+            <UploadIcon className="w-5 h-5 mr-2" />
+            <span>Add Media, Subtitle or Transcript Files</span>
+          </div>
+          <input id="batch-upload" type="file" multiple className="sr-only" accept="audio/*,video/*,.srt,.vtt,.ass,.ssa,.txt" onChange={handleFilesAdded} />
+        </label>
+
+        <div className="flex items-start gap-2">
+          <textarea
+            aria-label="Transcript to add to the batch"
+            rows={2}
+            className="flex-grow bg-gray-800/50 rounded-lg p-3 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 placeholder-gray-500"
+            placeholder="Or paste a transcript and add it to the queue"
+            value={pastedTranscript}
+            onChange={(e) => setPastedTranscript(e.target.value)}
+          />
+          <button onClick={handleAddTranscript} disabled={!pastedTranscript.trim()} className={buttonClassName}>Add</button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select aria-label="Batch language" className={selectClassName} value={batchLanguage} onChange={(e) => setBatchLanguage(e.target.value)}>
+            {LANGUAGES.map(language => <option key={language.value} value={language.value}>{language.label}</option>)}
+          </select>
+          <select aria-label="Batch voice" className={selectClassName} value={batchVoice} onChange={(e) => setBatchVoice(e.target.value)}>
+            {VOICES.map(voice => <option key={voice.value} value={voice.value}>{voice.value} - {voice.label}</option>)}
+          </select>
+          <button onClick={handleApplyToAll} disabled={queuedCount === 0} className={buttonClassName}>Apply to Queued</button>
+          <label className="inline-flex items-center text-sm text-gray-300 ml-auto">
+            Parallel items
+            <select aria-label="Parallel items" className={`${selectClassName} ml-2`} value={concurrency} onChange={(e) => handleConcurrencyChange(Number(e.target.value))}>
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {running && !paused ? (
+            <button onClick={() => queue.pause()} className={buttonClassName}>Pause</button>
+          ) : (
+            <button onClick={handleStart} disabled={queuedCount === 0} className={buttonClassName}>
+              <SparklesIcon className="w-4 h-4 mr-2" />
+              {paused ? 'Resume' : 'Start Batch'}
+            </button>
+          )}
+          <button onClick={() => queue.cancel()} disabled={!running && queuedCount === 0} className={buttonClassName}>Cancel</button>
+          <button onClick={() => queue.retryFailed()} disabled={retryableCount === 0} className={buttonClassName}>Retry Failed</button>
+          <button onClick={() => queue.clearFinished()} disabled={items.length === queuedCount} className={buttonClassName}>Clear Finished</button>
+          <button onClick={handleDownloadZip} disabled={doneItems.length === 0 || isZipping} className={buttonClassName}>
+            {isZipping ? <LoaderIcon className="animate-spin w-4 h-4 mr-2" /> : <DownloadIcon className="w-4 h-4 mr-2" />}
+            Download ZIP ({doneItems.length})
+          </button>
+        </div>
+        {paused && running && <p className="text-xs text-yellow-400">Pausing after the items in progress finish...</p>}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {items.length > 0 && (
+          <ul className="space-y-2">
+            {items.map(item => (
+              <li key={item.id} className="bg-gray-800/50 p-3 rounded-lg">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="flex-grow font-medium truncate" title={item.name}>{item.result?.title ?? item.name}</span>
+                  <select aria-label="Item language" className={selectClassName} value={item.language} onChange={(e) => queue.update(item.id, { language: e.target.value })} disabled={item.stage !== 'queued'}>
+                    {LANGUAGES.map(language => <option key={language.value} value={language.value}>{language.value}</option>)}
+                  </select>
+                  <select aria-label="Item voice" className={selectClassName} value={item.voice} onChange={(e) => queue.update(item.id, { voice: e.target.value })} disabled={item.stage !== 'queued'}>
+                    {VOICES.map(voice => <option key={voice.value} value={voice.value}>{voice.value}</option>)}
+                  </select>
+                  <span className={`px-2 py-1 rounded text-xs font-medium ${STAGE_COLORS[item.stage]}`}>
+                    {STAGE_LABELS[item.stage]}
+                    {item.stage === 'voicing' && item.audioProgress && ` ${item.audioProgress.completed}/${item.audioProgress.total}`}
+                  </span>
+                  <button
+                    onClick={() => queue.remove(item.id)}
+                    disabled={!['queued', 'done', 'failed', 'cancelled'].includes(item.stage)}
+                    className="p-2 bg-red-900/50 rounded-lg hover:bg-red-800/50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    aria-label="Remove from batch"
+                  >
+                    <TrashIcon className="w-4 h-4 text-red-400" />
+                  </button>
+                </div>
+                {item.error && <p className="text-xs text-red-400 mt-1">{item.error}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueuePanel;
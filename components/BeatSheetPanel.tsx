@@ -0,0 +1,82 @@
+import React from 'react';
+import { ChunkProgress } from '../services/recapService';
+import { LoaderIcon, SparklesIcon, TrashIcon } from './icons';
+
+interface BeatSheetPanelProps {
+  beatSheet: string;
+  onChange: (beatSheet: string) => void;
+  onWriteRecap: () => void;
+  onDiscard: () => void;
+  progress: ChunkProgress | null; // Set while the beat sheet is being built
+  disabled?: boolean;
+}
+
+// The intermediate summary of a long transcript. The recap is written from
+// this text, so edits here shape the final script.
+const BeatSheetPanel: React.FC<BeatSheetPanelProps> = ({ beatSheet, onChange, onWriteRecap, onDiscard, progress, disabled }) => {
+  const building = progress !== null && progress.completed < progress.total;
+
+  return (
+    <div className="mt-8">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold">Beat Sheet</h3>
+        {!building && (
+          <button
+            onClick={onDiscard}
+            disabled={disabled}
+            className="inline-flex items-center px-3 py-1.5 border border-red-500/50 text-sm font-medium rounded-md text-red-400 hover:bg-red-500/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <TrashIcon className="w-4 h-4 mr-2" />
+            Discard
+          </button>
+        )}
+      </div>
+
+      {building ? (
+        <div>
+          <p className="text-sm text-gray-300 mb-2">
+            Summarizing part {Math.min(progress.completed + 1, progress.total)} of {progress.total}...
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {progress.chunks.map((status, i) => (
+              <span
+                key={i}
+                title={`Part ${i + 1}: ${status}`}
+                className={`h-3 w-6 rounded ${
+                  status === 'done' ? 'bg-green-500' :
+                  status === 'active' ? 'bg-purple-500 animate-pulse' :
+                  status === 'retrying' ? 'bg-yellow-500 animate-pulse' :
+                  status === 'failed' ? 'bg-red-500' : 'bg-gray-700'
+                }`}
+              />
+            ))}
+          </div>
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400 mb-2">
+            Check the plot beats and character names, fix anything the summary got wrong, then write the recap from it.
+          </p>
+          <textarea
+            aria-label="Beat sheet"
+            rows={12}
+            className="w-full bg-gray-800/50 rounded-lg p-4 font-mono text-sm leading-relaxed border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-300"
+            value={beatSheet}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+          />
+          <button
+            onClick={onWriteRecap}
+            disabled={disabled || !beatSheet.trim()}
+            className="inline-flex items-center mt-3 px-4 py-2 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {disabled ? <LoaderIcon className="animate-spin w-4 h-4 mr-2" /> : <SparklesIcon className="w-4 h-4 mr-2" />}
+            Write Recap From Beat Sheet
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BeatSheetPanel;
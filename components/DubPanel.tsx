@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LexiconEntry, TimedCue } from '../types';
+import { translateCues, generateDub, ChunkProgress, DubLine, DubTrack } from '../services/recapService';
+import { CancelledError } from '../services/errors';
+import { estimateSpeechCost, estimateTextCost } from '../services/usageService';
+import { confirmWithinBudget } from '../services/budgetService';
+import { createWavBlob } from '../utils/audio';
+import { DEFAULT_MAX_SPEEDUP } from '../utils/dub';
+import { formatSrt, cuesMatchTranscript } from '../utils/subtitles';
+import { formatChapterTimestamp } from '../utils/publishing';
+import { downloadText } from '../utils/download';
+import AudioExportControls from './AudioExportControls';
+import { DownloadIcon, LoaderIcon, MicrophoneIcon, SparklesIcon } from './icons';
+
+interface DubPanelProps {
+  cues: TimedCue[] | null; // The timed source transcript; dubbing needs its timing
+  transcript: string;      // The transcript as shown; the cues only count while it is their text
+  language: string;
+  voice: string;
+  lexicon: LexiconEntry[];
+  disabled?: boolean;
+}
+
+const SPEEDUP_OPTIONS = [
+  { value: 1, label: 'Never (pad only)' },
+  { value: 1.15, label: 'Up to 1.15×' },
+  { value: DEFAULT_MAX_SPEEDUP, label: `Up to ${DEFAULT_MAX_SPEEDUP}×` },
+  { value: 1.5, label: 'Up to 1.5×' },
+];
+
+// Overruns shorter than this are not audible as lines stepping on each other.
+const OVERRUN_NOTICE_SECONDS = 0.1;
+
+const DubPanel: React.FC<DubPanelProps> = ({ cues, transcript, language, voice, lexicon, disabled }) => {
+  const [lines, setLines] = useState<DubLine[]>([]);
+  const [track, setTrack] = useState<DubTrack | null>(null);
+  const [maxSpeedup, setMaxSpeedup] = useState<number>(DEFAULT_MAX_SPEEDUP);
+  const [step, setStep] = useState<'translating' | 'voicing' | null>(null);
+  const [progress, setProgress] = useState<ChunkProgress | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // A new source transcript starts the dub over
+  useEffect(() => {
+    setLines([]);
+    setTrack(null);
+  }, [cues]);
+
+  useEffect(() => {
+    if (!track) {
+      setAudioUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(createWavBlob(track.base64Audio));
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [track]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = async (nextStep: 'translating' | 'voicing', task: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStep(nextStep);
+    setProgress(null);
+    setError(null);
+    try {
+      await task(controller.signal);
+    } catch (e: any) {
+      if (!(e instanceof CancelledError)) {
+        console.error(`Error ${nextStep} dub:`, e);
+        setError(e.message || 'Could not make the dub.');
+      }
+    } finally {
+      abortRef.current = null;
+      setStep(null);
+      setProgress(null);
+    }
+  };
+
+  const handleTranslate = () => {
+    // The translation runs about as long as the lines it translates
+    const sourceChars = cues!.reduce((chars, cue) => chars + cue.text.length, 0);
+    if (!confirmWithinBudget([estimateTextCost(sourceChars, sourceChars)], 'Translate it')) return;
+    return run('translating', async (signal) => {
+      setLines(await translateCues(cues!, language, { signal, onProgress: setProgress }));
+      setTrack(null);
+    });
+  };
+
+  const handleVoice = () => {
+    if (!confirmWithinBudget([estimateSpeechCost(lines.map(line => line.translation).join('\n'))], 'Voice it')) return;
+    return run('voicing', async (signal) => {
+      setTrack(await generateDub(lines, voice, { lexicon, maxSpeedup, previous: track ?? undefined, signal, onProgress: setProgress }));
+    });
+  };
+
+  const handleLineChange = (index: number, translation: string) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, translation } : line)));
+  };
+
+  const handleDownloadCaptions = () => {
+    const translated = lines.filter(line => line.translation.trim()).map(line => ({ start: line.start, end: line.end, text: line.translation.trim() }));
+    downloadText(formatSrt(translated), 'movie_dub.srt', 'application/x-subrip');
+  };
+
+  if (!cues || cues.length === 0) {
+    return (
+      <p className="text-sm text-yellow-300 bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4">
+        Dubbing follows the timing of the original lines. Import a subtitle file or YouTube captions, or transcribe the clip, to get a timed transcript first.
+      </p>
+    );
+  }
+
+  if (!cuesMatchTranscript(cues, transcript)) {
+    return (
+      <p className="text-sm text-yellow-300 bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4">
+        The transcript no longer matches the timed lines it was imported with, so it cannot be dubbed in sync. Import or transcribe it again to dub it.
+      </p>
+    );
+  }
+
+  const busy = step !== null;
+  const overruns = track ? track.fits.filter(fit => fit && fit.overrunSeconds > OVERRUN_NOTICE_SECONDS).length : 0;
+  const selectClassName = "bg-gray-800/50 rounded-lg p-2 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500";
+  const buttonClassName = "inline-flex items-center justify-center px-6 py-2 border border-transparent text-base font-medium rounded-full shadow-sm text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <button onClick={handleTranslate} disabled={disabled || busy} className={buttonClassName}>
+          {step === 'translating' ? <LoaderIcon className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" /> : <SparklesIcon className="-ml-1 mr-2 h-5 w-5" />}
+          {step === 'translating' && progress ? `Translating ${progress.completed}/${progress.total}...` : `${lines.length > 0 ? 'Translate Again' : 'Translate'} ${cues.length} Lines`}
+        </button>
+        {lines.length > 0 && (
+          <button onClick={handleVoice} disabled={disabled || busy} className={buttonClassName}>
+            {step === 'voicing' ? <LoaderIcon className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" /> : <MicrophoneIcon className="-ml-1 mr-2 h-5 w-5" />}
+            {step === 'voicing' && progress ? `Voicing ${progress.completed}/${progress.total}...` : track ? 'Update Dub' : 'Voice Dub'}
+          </button>
+        )}
+        {busy && (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="inline-flex items-center px-4 py-2 border border-red-500/50 text-sm font-medium rounded-full text-red-400 hover:bg-red-500/10 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <label className="inline-flex items-center gap-2 text-sm text-gray-300">
+          Speed up long lines
+          <select aria-label="Maximum speed-up" className={selectClassName} value={maxSpeedup} onChange={(e) => setMaxSpeedup(Number(e.target.value))} disabled={busy}>
+            {SPEEDUP_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </label>
+      </div>
+      {error && <p className="text-center text-red-400">{error}</p>}
+
+      {audioUrl && track && (
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <h3 className="text-lg font-semibold mb-2">Dubbed Track</h3>
+          {overruns > 0 && (
+            <p className="text-sm text-yellow-300 mb-2">
+              {overruns} line{overruns === 1 ? '' : 's'} still run{overruns === 1 ? 's' : ''} into the next one. Shorten {overruns === 1 ? 'it' : 'them'} below and update the dub.
+            </p>
+          )}
+          <audio controls src={audioUrl} className="w-full">
+            Your browser does not support the audio element.
+          </audio>
+          <a
+            href={audioUrl}
+            download="movie_dub.wav"
+            className="inline-flex items-center mt-4 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 transition-colors"
+          >
+            <DownloadIcon className="w-4 h-4 mr-2"/>
+            Download Dub (.wav)
+          </a>
+          <button
+            onClick={handleDownloadCaptions}
+            className="inline-flex items-center mt-4 ml-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 transition-colors"
+          >
+            <DownloadIcon className="w-4 h-4 mr-2"/>
+            Translated Captions (.srt)
+          </button>
+          <AudioExportControls getWav={() => createWavBlob(track.base64Audio)} fileBaseName="movie_dub" disabled={busy} />
+        </div>
+      )}
+
+      {lines.length > 0 && (
+        <ul className="space-y-2 max-h-[60vh] overflow-y-auto pr-1">
+          {lines.map((line, i) => {
+            const fit = track?.fits[i];
+            return (
+              <li key={i} className="bg-gray-800/50 rounded-lg p-3 text-sm">
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>{formatChapterTimestamp(line.start)} · {(line.end - line.start).toFixed(1)}s</span>
+                  {fit && (
+                    <span className={fit.overrunSeconds > OVERRUN_NOTICE_SECONDS ? 'text-yellow-300' : fit.speed > 1 ? 'text-purple-300' : 'text-green-400'}>
+                      {fit.overrunSeconds > OVERRUN_NOTICE_SECONDS
+                        ? `Runs over by ${fit.overrunSeconds.toFixed(1)}s`
+                        : fit.speed > 1 ? `Sped up ${fit.speed.toFixed(2)}×` : 'Fits'}
+                    </span>
+                  )}
+                </div>
+                <p className="text-gray-400 mb-1">{line.source}</p>
+                <textarea
+                  aria-label={`Translation of line ${i + 1}`}
+                  rows={2}
+                  className="w-full bg-gray-900/50 rounded-md p-2 border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                  value={line.translation}
+                  onChange={(e) => handleLineChange(i, e.target.value)}
+                  disabled={busy}
+                />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DubPanel;
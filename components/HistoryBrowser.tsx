@@ -0,0 +1,365 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import JSZip from 'jszip';
+import { HistoryItem } from '../types';
+import { currentVersion, isDialogueVersion, loadHistoryAudio } from '../services/storageService';
+import { filterHistory, historySearchText, listTags, normalizeTag, EMPTY_HISTORY_QUERY, HistoryQuery, HistorySort } from '../utils/historySearch';
+import { exportProject, ProjectBundleKind } from '../services/projectService';
+import { addRecapFolder } from '../utils/recapZip';
+import { estimateSpeechSegments } from '../utils/subtitles';
+import { getPcmDuration } from '../utils/audio';
+import { downloadBlob } from '../utils/download';
+import { LANGUAGES, VOICES } from '../constants';
+import { DownloadIcon, HistoryIcon, LoaderIcon, TrashIcon } from './icons';
+
+interface HistoryBrowserProps {
+  history: HistoryItem[];
+  selectedVersions: { [id: number]: number };
+  onSelectVersion: (id: number, version: number) => void;
+  loadingHistoryId: number | null;
+  onLoad: (item: HistoryItem) => void;
+  onDelete: (items: HistoryItem[]) => void;
+  onUpdate: (item: HistoryItem) => void; // Saves metadata such as tags, without a new version
+}
+
+const PAGE_SIZE = 20;
+
+const SORT_OPTIONS: { value: HistorySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'title', label: 'Title A–Z' },
+  { value: 'longest', label: 'Longest first' },
+  { value: 'shortest', label: 'Shortest first' },
+];
+
+const inputClassName = "bg-gray-800/50 rounded-lg p-2 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500";
+const buttonClassName = "inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+// Search, filters and bulk actions over the saved recaps.
+const HistoryBrowser: React.FC<HistoryBrowserProps> = ({ history, selectedVersions, onSelectVersion, loadingHistoryId, onLoad, onDelete, onUpdate }) => {
+  const [query, setQuery] = useState<HistoryQuery>(EMPTY_HISTORY_QUERY);
+  const [showFilters, setShowFilters] = useState<boolean>(false);
+  const [page, setPage] = useState<number>(0);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [tagDrafts, setTagDrafts] = useState<{ [id: number]: string }>({});
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [exportingProjectId, setExportingProjectId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Search text is rebuilt only when history changes, not on every keystroke
+  const searchTexts = useMemo(() => new Map(history.map(item => [item.id, historySearchText(item)])), [history]);
+  const matches = useMemo(
+    () => filterHistory(history, query, item => searchTexts.get(item.id) ?? ''),
+    [history, query, searchTexts]
+  );
+  const allTags = useMemo(() => listTags(history), [history]);
+  const languages = useMemo(
+    () => [...new Set([...LANGUAGES.map(language => language.value), ...history.flatMap(item => (item.language ? [item.language] : []))])],
+    [history]
+  );
+
+  const pageCount = Math.max(1, Math.ceil(matches.length / PAGE_SIZE));
+  const pageItems = matches.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const selectedItems = history.filter(item => selected.has(item.id));
+
+  // Back to the first page whenever the results change shape
+  useEffect(() => setPage(0), [query]);
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [page, pageCount]);
+  // Forget selections of deleted items
+  useEffect(() => {
+    setSelected(prev => new Set(history.filter(item => prev.has(item.id)).map(item => item.id)));
+  }, [history]);
+
+  const updateQuery = (changes: Partial<HistoryQuery>) => setQuery(prev => ({ ...prev, ...changes }));
+
+  const toggleSelected = (id: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    updateQuery({ tags: query.tags.includes(tag) ? query.tags.filter(other => other !== tag) : [...query.tags, tag] });
+  };
+
+  const addTag = (item: HistoryItem) => {
+    const tag = normalizeTag(tagDrafts[item.id] ?? '');
+    setTagDrafts(prev => ({ ...prev, [item.id]: '' }));
+    if (!tag || item.tags?.some(other => normalizeTag(other) === tag)) return;
+    onUpdate({ ...item, tags: [...(item.tags ?? []), tag] });
+  };
+
+  const removeTag = (item: HistoryItem, tag: string) => {
+    onUpdate({ ...item, tags: (item.tags ?? []).filter(other => normalizeTag(other) !== tag) });
+  };
+
+  const handleDeleteSelected = () => {
+    if (!window.confirm(`Delete ${selectedItems.length} recap${selectedItems.length === 1 ? '' : 's'} and their audio?`)) return;
+    onDelete(selectedItems);
+  };
+
+  // Exports the version picked in each row, or the current one
+  const handleExportSelected = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const zip = new JSZip();
+      for (const [index, item] of selectedItems.entries()) {
+        const version = item.versions.find(v => v.version === selectedVersions[item.id]) ?? currentVersion(item);
+        const base64Audio = await loadHistoryAudio(version.audioId);
+        const measured = version.segments?.every(segment => typeof segment.paragraphIndex === 'number') ?? false;
+        addRecapFolder(zip, index, {
+          title: version.title,
+          script: version.script,
+          segments: measured ? version.segments! : estimateSpeechSegments(version.script, getPcmDuration(base64Audio), isDialogueVersion(item, version)),
+          base64Audio,
+          publishing: version.publishing,
+          transcript: item.transcript,
+        });
+      }
+      downloadBlob(await zip.generateAsync({ type: 'blob' }), 'movie_recap_history.zip');
+    } catch (e: any) {
+      console.error("Error exporting history:", e);
+      setError(e.message || 'Could not build the ZIP file.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Exports every version with its audio, inputs and settings, for importing elsewhere
+  const handleExportProject = async (item: HistoryItem, kind: ProjectBundleKind) => {
+    setExportingProjectId(item.id);
+    setError(null);
+    try {
+      const { blob, fileName } = await exportProject(item, kind);
+      downloadBlob(blob, fileName);
+    } catch (e: any) {
+      console.error("Error exporting project:", e);
+      setError(e.message || 'Could not export the project.');
+    } finally {
+      setExportingProjectId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          aria-label="Search history"
+          placeholder="Search titles, scripts and transcripts..."
+          className={`${inputClassName} flex-grow`}
+          value={query.text}
+          onChange={(e) => updateQuery({ text: e.target.value })}
+        />
+        <select aria-label="Sort history" className={inputClassName} value={query.sort} onChange={(e) => updateQuery({ sort: e.target.value as HistorySort })}>
+          {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        <button onClick={() => setShowFilters(!showFilters)} className={buttonClassName}>{showFilters ? 'Hide Filters' : 'Filters'}</button>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 bg-gray-800/30 rounded-lg p-4 text-sm">
+          <label className="block">
+            <span className="text-gray-300">Language</span>
+            <select className={`${inputClassName} w-full`} value={query.language} onChange={(e) => updateQuery({ language: e.target.value })}>
+              <option value="">Any</option>
+              {languages.map(language => <option key={language} value={language}>{language}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-gray-300">Voice</span>
+            <select className={`${inputClassName} w-full`} value={query.voice} onChange={(e) => updateQuery({ voice: e.target.value })}>
+              <option value="">Any</option>
+              {VOICES.map(voice => <option key={voice.value} value={voice.value}>{voice.value}</option>)}
+            </select>
+          </label>
+          <div className="block">
+            <span className="text-gray-300">Date</span>
+            <div className="flex gap-2">
+              <input type="date" aria-label="From date" className={`${inputClassName} w-full`} value={query.from} onChange={(e) => updateQuery({ from: e.target.value })} />
+              <input type="date" aria-label="To date" className={`${inputClassName} w-full`} value={query.to} onChange={(e) => updateQuery({ to: e.target.value })} />
+            </div>
+          </div>
+          <div className="block">
+            <span className="text-gray-300">Duration (minutes)</span>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={0}
+                aria-label="Minimum minutes"
+                placeholder="Min"
+                className={`${inputClassName} w-full`}
+                value={query.minMinutes ?? ''}
+                onChange={(e) => updateQuery({ minMinutes: e.target.value === '' ? null : Number(e.target.value) })}
+              />
+              <input
+                type="number"
+                min={0}
+                aria-label="Maximum minutes"
+                placeholder="Max"
+                className={`${inputClassName} w-full`}
+                value={query.maxMinutes ?? ''}
+                onChange={(e) => updateQuery({ maxMinutes: e.target.value === '' ? null : Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          {allTags.length > 0 && (
+            <div className="sm:col-span-2">
+              <span className="text-gray-300">Tags</span>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {allTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTagFilter(tag)}
+                    className={`px-2 py-0.5 rounded-full text-xs ${query.tags.includes(tag) ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="sm:col-span-2">
+            <button onClick={() => setQuery({ ...EMPTY_HISTORY_QUERY, text: query.text, sort: query.sort })} className={buttonClassName}>Reset Filters</button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-400">
+        <span>
+          {matches.length === history.length ? `${history.length} recaps` : `${matches.length} of ${history.length} recaps`}
+          {selected.size > 0 && ` · ${selected.size} selected`}
+        </span>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setSelected(new Set(matches.map(item => item.id)))} disabled={matches.length === 0} className={buttonClassName}>
+            Select All {matches.length}
+          </button>
+          {selected.size > 0 && (
+            <>
+              <button onClick={() => setSelected(new Set())} className={buttonClassName}>Clear Selection</button>
+              <button onClick={handleExportSelected} disabled={isExporting} className={buttonClassName}>
+                {isExporting ? <LoaderIcon className="animate-spin w-4 h-4 mr-2" /> : <DownloadIcon className="w-4 h-4 mr-2" />}
+                Export Selected (.zip)
+              </button>
+              <button
+                onClick={handleDeleteSelected}
+                className="inline-flex items-center px-3 py-1.5 border border-red-500/50 text-sm font-medium rounded-md text-red-400 hover:bg-red-500/10 transition-colors"
+              >
+                <TrashIcon className="w-4 h-4 mr-2" />
+                Delete Selected
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {matches.length === 0 ? (
+        <p className="text-center text-gray-500 py-6">No recaps match your search.</p>
+      ) : (
+        <ul className="space-y-4">
+          {pageItems.map((item) => {
+            const version = currentVersion(item);
+            return (
+              <li key={item.id} className="bg-gray-800/50 p-4 rounded-lg flex items-start justify-between gap-3">
+                <input
+                  type="checkbox"
+                  aria-label="Select this item"
+                  className="accent-purple-500 w-4 h-4 mt-1"
+                  checked={selected.has(item.id)}
+                  onChange={() => toggleSelected(item.id)}
+                />
+                <div className="flex-grow min-w-0">
+                  <p className="font-semibold">{version.title}</p>
+                  <p className="text-sm text-gray-400">
+                    Generated on: {new Date(item.timestamp).toLocaleString()}
+                    {item.preset && ` · ${item.preset.name}`}
+                    {item.language && ` · ${item.language}`}
+                    {version.voice && ` · ${version.voice}`}
+                    {version.durationSeconds !== undefined && ` · ${formatDuration(version.durationSeconds)}`}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-1 mt-2">
+                    {(item.tags ?? []).map(tag => (
+                      <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-gray-700 text-gray-300">
+                        #{tag}
+                        <button onClick={() => removeTag(item, normalizeTag(tag))} className="ml-1 text-gray-400 hover:text-red-400" aria-label={`Remove tag ${tag}`}>×</button>
+                      </span>
+                    ))}
+                    <input
+                      type="text"
+                      aria-label="Add tag"
+                      placeholder="+ tag"
+                      className="bg-transparent text-xs w-20 border-b border-gray-700 focus:border-purple-500 focus:outline-none"
+                      value={tagDrafts[item.id] ?? ''}
+                      onChange={(e) => setTagDrafts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      onKeyDown={(e) => { if (e.key === 'Enter') addTag(item); }}
+                      onBlur={() => addTag(item)}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {item.versions.length > 1 && (
+                    <select
+                      aria-label="Version to load"
+                      className="bg-gray-700/50 rounded-lg p-2 text-sm border border-gray-700"
+                      value={selectedVersions[item.id] ?? version.version}
+                      onChange={(e) => onSelectVersion(item.id, Number(e.target.value))}
+                    >
+                      {[...item.versions].reverse().map(v => (
+                        <option key={v.version} value={v.version}>
+                          v{v.version} · {new Date(v.timestamp).toLocaleString()}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={() => onLoad(item)}
+                    disabled={loadingHistoryId !== null}
+                    className="p-2 bg-gray-700/50 rounded-lg hover:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+                    aria-label="Load this item"
+                  >
+                    {loadingHistoryId === item.id ? <LoaderIcon className="w-5 h-5 animate-spin" /> : <HistoryIcon className="w-5 h-5" />}
+                  </button>
+                  <select
+                    aria-label="Export project"
+                    className="bg-gray-700/50 rounded-lg p-2 text-sm border border-gray-700 disabled:cursor-not-allowed"
+                    value=""
+                    onChange={(e) => handleExportProject(item, e.target.value as ProjectBundleKind)}
+                    disabled={exportingProjectId !== null}
+                  >
+                    <option value="" disabled>{exportingProjectId === item.id ? 'Exporting...' : 'Export'}</option>
+                    <option value="zip">Project (.zip)</option>
+                    <option value="json">Project (.json)</option>
+                  </select>
+                  <button
+                    onClick={() => onDelete([item])}
+                    className="p-2 bg-red-900/50 rounded-lg hover:bg-red-800/50 transition-colors"
+                    aria-label="Delete this item"
+                  >
+                    <TrashIcon className="w-5 h-5 text-red-400" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3 text-sm">
+          <button onClick={() => setPage(page - 1)} disabled={page === 0} className={buttonClassName}>Previous</button>
+          <span className="text-gray-400">Page {page + 1} of {pageCount}</span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1} className={buttonClassName}>Next</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryBrowser;
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LexiconEntry } from '../types';
+import { exportLexiconJson, parseLexiconJson, importLexiconEntries } from '../services/lexiconService';
+import { previewSpeech } from '../services/recapService';
+import { createWavUrl } from '../utils/audio';
+import { downloadText } from '../utils/download';
+import { DownloadIcon, LoaderIcon, PlayCircleIcon, TrashIcon, UploadIcon } from './icons';
+
+type LexiconScope = 'global' | 'project';
+
+interface LexiconPanelProps {
+  globalEntries: LexiconEntry[];
+  projectEntries: LexiconEntry[];
+  onGlobalChange: (entries: LexiconEntry[]) => void;
+  onProjectChange: (entries: LexiconEntry[]) => void;
+  voice: string; // Used to preview entries
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full bg-gray-800/50 rounded-lg p-2 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 disabled:opacity-60";
+const buttonClassName = "inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+// Pronunciations for names and terms the voice gets wrong. Respellings only
+// change what is sent to TTS; the script, captions and exports keep the
+// original spelling.
+const LexiconPanel: React.FC<LexiconPanelProps> = ({ globalEntries, projectEntries, onGlobalChange, onProjectChange, voice, disabled }) => {
+  const [scope, setScope] = useState<LexiconScope>('global');
+  const [previewing, setPreviewing] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const previewUrl = useRef<string | null>(null);
+
+  const entries = scope === 'global' ? globalEntries : projectEntries;
+  const onChange = scope === 'global' ? onGlobalChange : onProjectChange;
+
+  useEffect(() => () => {
+    if (previewUrl.current) URL.revokeObjectURL(previewUrl.current);
+  }, []);
+
+  const updateEntry = (index: number, changes: Partial<LexiconEntry>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  const handlePreview = async (index: number) => {
+    const entry = entries[index];
+    setError(null);
+    setPreviewing(index);
+    try {
+      const base64Audio = await previewSpeech(entry.respelling.trim(), voice);
+      if (previewUrl.current) URL.revokeObjectURL(previewUrl.current);
+      previewUrl.current = createWavUrl(base64Audio);
+      await new Audio(previewUrl.current).play();
+    } catch (e: any) {
+      console.error("Error previewing pronunciation:", e);
+      setError(e.message || 'Could not preview this pronunciation.');
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      onChange(importLexiconEntries(entries, parseLexiconJson(await file.text())));
+    } catch (e: any) {
+      console.error("Error importing lexicon:", e);
+      setError(e.message || 'Could not import a lexicon from this file.');
+    }
+  };
+
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">
+        Pronunciation Lexicon ({globalEntries.length} global, {projectEntries.length} for this recap)
+      </summary>
+      <div className="mt-3 space-y-3 bg-gray-800/30 rounded-lg p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            aria-label="Lexicon scope"
+            className="bg-gray-800/50 rounded-lg p-2 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as LexiconScope)}
+          >
+            <option value="global">Global (all recaps)</option>
+            <option value="project">This recap only</option>
+          </select>
+          <button onClick={() => onChange([...entries, { term: '', respelling: '' }])} disabled={disabled} className={buttonClassName}>Add Entry</button>
+          <label className={`${buttonClassName} cursor-pointer`}>
+            <UploadIcon className="w-4 h-4 mr-2" />
+            Import
+            <input type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} disabled={disabled} />
+          </label>
+          <button
+            onClick={() => downloadText(exportLexiconJson(entries), scope === 'global' ? 'pronunciation_lexicon.json' : 'recap_lexicon.json', 'application/json')}
+            disabled={entries.length === 0}
+            className={buttonClassName}
+          >
+            <DownloadIcon className="w-4 h-4 mr-2" />
+            Export
+          </button>
+        </div>
+        <p className="text-xs text-gray-400">
+          Write each term as it appears in the script and how it should sound, e.g. "Daenerys" → "dah-NAIR-iss". Entries for this recap override global ones for the same term.
+        </p>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {entries.length === 0 ? (
+          <p className="text-gray-500">No entries yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {entries.map((entry, i) => (
+              <li key={i} className="flex items-center gap-2">
+                <input type="text" aria-label="Term" placeholder="Term" className={inputClassName} value={entry.term} onChange={(e) => updateEntry(i, { term: e.target.value })} disabled={disabled} />
+                <span className="text-gray-500">→</span>
+                <input type="text" aria-label="Respelling" placeholder="Say it like" className={inputClassName} value={entry.respelling} onChange={(e) => updateEntry(i, { respelling: e.target.value })} disabled={disabled} />
+                <button
+                  onClick={() => handlePreview(i)}
+                  disabled={previewing !== null || !entry.respelling.trim()}
+                  title={`Preview with ${voice}`}
+                  aria-label="Preview pronunciation"
+                  className="p-2 text-purple-300 hover:text-purple-200 disabled:text-gray-600"
+                >
+                  {previewing === i ? <LoaderIcon className="w-5 h-5 animate-spin" /> : <PlayCircleIcon className="w-5 h-5" />}
+                </button>
+                <button
+                  onClick={() => onChange(entries.filter((_, j) => j !== i))}
+                  disabled={disabled}
+                  aria-label="Delete entry"
+                  className="p-2 text-red-400 hover:text-red-300 disabled:text-gray-600"
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default LexiconPanel;
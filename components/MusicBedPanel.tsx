@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { mixMusicBed } from '../utils/audio';
+import AudioExportControls from './AudioExportControls';
+import { DownloadIcon, LoaderIcon, UploadIcon, SparklesIcon } from './icons';
+
+interface MusicBedPanelProps {
+  narrationAudio: string; // Base64 PCM of the narration
+  disabled?: boolean;
+}
+
+const MusicBedPanel: React.FC<MusicBedPanelProps> = ({ narrationAudio, disabled }) => {
+  const [musicFile, setMusicFile] = useState<File | null>(null);
+  const [musicVolume, setMusicVolume] = useState<number>(0.3);
+  const [duckDepth, setDuckDepth] = useState<number>(0.7);
+  const [fadeSeconds, setFadeSeconds] = useState<number>(2);
+  const [mixedWav, setMixedWav] = useState<Blob | null>(null);
+  const [mixedUrl, setMixedUrl] = useState<string | null>(null);
+  const [isMixing, setIsMixing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new narration invalidates the previous mix
+  useEffect(() => {
+    setMixedUrl(null);
+  }, [narrationAudio]);
+
+  useEffect(() => {
+    return () => {
+      if (mixedUrl) URL.revokeObjectURL(mixedUrl);
+    };
+  }, [mixedUrl]);
+
+  const handleMusicChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files && event.target.files[0]) {
+      setMusicFile(event.target.files[0]);
+      setMixedUrl(null);
+    }
+  };
+
+  const handleMix = async () => {
+    if (!musicFile) return;
+
+    setIsMixing(true);
+    setError(null);
+
+    try {
+      const wavBlob = await mixMusicBed(narrationAudio, await musicFile.arrayBuffer(), {
+        musicVolume,
+        duckDepth,
+        fadeInSeconds: fadeSeconds,
+        fadeOutSeconds: fadeSeconds,
+      });
+      setMixedWav(wavBlob);
+      setMixedUrl(URL.createObjectURL(wavBlob));
+    } catch (e: any) {
+      console.error("Error mixing music bed:", e);
+      setError('Could not mix the music. The file may be in a format this browser cannot decode.');
+    } finally {
+      setIsMixing(false);
+    }
+  };
+
+  return (
+    <div className="pt-4">
+      <h3 className="text-lg font-semibold mb-2">Background Music</h3>
+      <div className="space-y-4 bg-gray-800/50 rounded-lg p-4">
+        <label htmlFor="music-upload" className="relative cursor-pointer bg-gray-800 rounded-md font-medium text-purple-400 hover:text-purple-300 px-4 py-2 w-full text-center inline-block">
+          <div className="flex items-center justify-center">
+            <UploadIcon className="w-5 h-5 mr-2" />
+            <span className="truncate">{musicFile ? musicFile.name : 'Select Music File'}</span>
+          </div>
+          <input id="music-upload" type="file" className="sr-only" accept="audio/*" onChange={handleMusicChange} disabled={disabled || isMixing} />
+        </label>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+          <label className="block">
+            <span className="text-gray-300">Music volume: {Math.round(musicVolume * 100)}%</span>
+            <input type="range" min={0} max={1} step={0.05} value={musicVolume} onChange={(e) => setMusicVolume(Number(e.target.value))} className="w-full accent-purple-500" disabled={isMixing} />
+          </label>
+          <label className="block">
+            <span className="text-gray-300">Duck depth: {Math.round(duckDepth * 100)}%</span>
+            <input type="range" min={0} max={1} step={0.05} value={duckDepth} onChange={(e) => setDuckDepth(Number(e.target.value))} className="w-full accent-purple-500" disabled={isMixing} />
+          </label>
+          <label className="block">
+            <span className="text-gray-300">Fade in/out: {fadeSeconds}s</span>
+            <input type="range" min={0} max={10} step={0.5} value={fadeSeconds} onChange={(e) => setFadeSeconds(Number(e.target.value))} className="w-full accent-purple-500" disabled={isMixing} />
+          </label>
+        </div>
+
+        <button
+          onClick={handleMix}
+          disabled={disabled || isMixing || !musicFile}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isMixing ? <LoaderIcon className="animate-spin w-4 h-4 mr-2" /> : <SparklesIcon className="w-4 h-4 mr-2" />}
+          {isMixing ? 'Mixing...' : 'Mix With Music'}
+        </button>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {mixedUrl && (
+          <div>
+            <audio controls src={mixedUrl} className="w-full">
+              Your browser does not support the audio element.
+            </audio>
+            <a
+              href={mixedUrl}
+              download="movie_recap_mixed.wav"
+              className="inline-flex items-center mt-4 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 transition-colors"
+            >
+              <DownloadIcon className="w-4 h-4 mr-2"/>
+              Download Mix (.wav)
+            </a>
+            {mixedWav && <AudioExportControls getWav={() => mixedWav} fileBaseName="movie_recap_mixed" disabled={disabled} />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MusicBedPanel;
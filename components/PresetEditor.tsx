@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { RecapPreset, TargetLength } from '../types';
+import { exportPresetsJson, parsePresetsJson, presetStyle, newPresetId, TEMPLATE_VARIABLES, DEFAULT_PRESET } from '../services/presetService';
+import { downloadText } from '../utils/download';
+import { DownloadIcon, UploadIcon } from './icons';
+
+interface PresetEditorProps {
+  presets: RecapPreset[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onChange: (presets: RecapPreset[]) => void;
+  language: string; // For the rendered prompt preview
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full bg-gray-800/50 rounded-lg p-2 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 disabled:opacity-60";
+const buttonClassName = "inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+const PresetEditor: React.FC<PresetEditorProps> = ({ presets, selectedId, onSelect, onChange, language, disabled }) => {
+  const [editing, setEditing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = presets.find(preset => preset.id === selectedId) ?? DEFAULT_PRESET;
+  const readOnly = disabled || selected.builtIn;
+  const customPresets = presets.filter(preset => !preset.builtIn);
+
+  const updateSelected = (changes: Partial<RecapPreset>) => {
+    onChange(presets.map(preset => (preset.id === selected.id ? { ...preset, ...changes } : preset)));
+  };
+
+  const addPreset = (preset: RecapPreset) => {
+    onChange([...presets, preset]);
+    onSelect(preset.id);
+    setEditing(true);
+  };
+
+  const handleDuplicate = () => {
+    const { builtIn, ...copy } = selected;
+    addPreset({ ...copy, id: newPresetId(), name: `${selected.name} (copy)` });
+  };
+
+  const handleDelete = () => {
+    if (selected.builtIn) return;
+    onChange(presets.filter(preset => preset.id !== selected.id));
+    onSelect(DEFAULT_PRESET.id);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const imported = parsePresetsJson(await file.text());
+      onChange([...presets, ...imported]);
+      onSelect(imported[0].id);
+    } catch (e: any) {
+      console.error("Error importing presets:", e);
+      setError(e.message || 'Could not import presets from this file.');
+    }
+  };
+
+  const handleLengthUnitChange = (unit: string) => {
+    if (unit === 'none') {
+      updateSelected({ targetLength: null });
+    } else {
+      const value = selected.targetLength?.value ?? (unit === 'minutes' ? 5 : 750);
+      updateSelected({ targetLength: { value, unit: unit as TargetLength['unit'] } });
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor="preset-select" className="block text-sm font-medium text-gray-300 mb-2">
+        Recap Style
+      </label>
+      <div className="flex flex-wrap gap-2">
+        <select
+          id="preset-select"
+          className="flex-grow bg-gray-800/50 rounded-lg p-3 border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-300"
+          value={selected.id}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled}
+        >
+          <optgroup label="Built-in">
+            {presets.filter(preset => preset.builtIn).map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          </optgroup>
+          {customPresets.length > 0 && (
+            <optgroup label="Custom">
+              {customPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={() => setEditing(!editing)} className={buttonClassName}>{editing ? 'Close Editor' : 'Edit'}</button>
+      </div>
+
+      {editing && (
+        <div className="mt-3 space-y-3 bg-gray-800/30 rounded-lg p-4">
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => addPreset({ ...DEFAULT_PRESET, builtIn: undefined, id: newPresetId(), name: 'New Preset' })} disabled={disabled} className={buttonClassName}>New</button>
+            <button onClick={handleDuplicate} disabled={disabled} className={buttonClassName}>Duplicate</button>
+            <button onClick={handleDelete} disabled={readOnly} className={buttonClassName}>Delete</button>
+            <label className={`${buttonClassName} cursor-pointer`}>
+              <UploadIcon className="w-4 h-4 mr-2" />
+              Import
+              <input type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} disabled={disabled} />
+            </label>
+            <button onClick={() => downloadText(exportPresetsJson([selected]), `${selected.name.replace(/[^\w-]+/g, '_')}.json`, 'application/json')} className={buttonClassName}>
+              <DownloadIcon className="w-4 h-4 mr-2" />
+              Export
+            </button>
+            <button
+              onClick={() => downloadText(exportPresetsJson(customPresets), 'recap_presets.json', 'application/json')}
+              disabled={customPresets.length === 0}
+              className={buttonClassName}
+            >
+              <DownloadIcon className="w-4 h-4 mr-2" />
+              Export All Custom
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {selected.builtIn && <p className="text-xs text-gray-400">Built-in styles are read-only. Duplicate one to customize it.</p>}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="block text-sm">
+              <span className="text-gray-300">Name</span>
+              <input type="text" className={inputClassName} value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} disabled={readOnly} />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-300">Tone</span>
+              <input type="text" className={inputClassName} value={selected.tone} onChange={(e) => updateSelected({ tone: e.target.value })} disabled={readOnly} />
+            </label>
+            <div className="block text-sm">
+              <span className="text-gray-300">Target length</span>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  aria-label="Target length"
+                  className={inputClassName}
+                  value={selected.targetLength?.value ?? ''}
+                  onChange={(e) => selected.targetLength && updateSelected({ targetLength: { ...selected.targetLength, value: Math.max(1, Number(e.target.value)) } })}
+                  disabled={readOnly || !selected.targetLength}
+                />
+                <select
+                  aria-label="Target length unit"
+                  className={inputClassName}
+                  value={selected.targetLength?.unit ?? 'none'}
+                  onChange={(e) => handleLengthUnitChange(e.target.value)}
+                  disabled={readOnly}
+                >
+                  <option value="none">Any length</option>
+                  <option value="minutes">Minutes</option>
+                  <option value="words">Words</option>
+                </select>
+              </div>
+            </div>
+            <label className="block text-sm">
+              <span className="text-gray-300">Creativity (temperature): {selected.temperature.toFixed(1)}</span>
+              <input type="range" min={0} max={2} step={0.1} value={selected.temperature} onChange={(e) => updateSelected({ temperature: Number(e.target.value) })} className="w-full accent-purple-500" disabled={readOnly} />
+            </label>
+          </div>
+
+          <label className="block text-sm">
+            <span className="text-gray-300">Prompt template</span>
+            <textarea
+              rows={6}
+              className={`${inputClassName} font-mono leading-relaxed`}
+              value={selected.promptTemplate}
+              onChange={(e) => updateSelected({ promptTemplate: e.target.value })}
+              disabled={readOnly}
+            />
+            <span className="text-xs text-gray-500">Variables: {TEMPLATE_VARIABLES.join(', ')}. The app adds the output format rules.</span>
+          </label>
+
+          <details className="text-sm">
+            <summary className="cursor-pointer text-gray-300">Preview for {language}</summary>
+            <p className="mt-2 whitespace-pre-wrap text-gray-400 bg-gray-900/40 rounded p-3">{presetStyle(selected, language).instructions}</p>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetEditor;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { PublishingPackage, SpeechSegment } from '../types';
+import { timeChapters, chaptersStale, formatChapterTimestamp, formatDescription, formatPublishingText, formatPublishingJson, MIN_CHAPTERS } from '../utils/publishing';
+import { downloadText } from '../utils/download';
+import { CopyIcon, DownloadIcon } from './icons';
+
+interface PublishingPanelProps {
+  title: string;
+  publishing: PublishingPackage;
+  segments: SpeechSegment[]; // Timings of the voiced audio, for the chapter timestamps
+  onUseTitle: (title: string) => void;
+}
+
+const buttonClassName = "inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 transition-colors";
+
+const PublishingPanel: React.FC<PublishingPanelProps> = ({ title, publishing, segments, onUseTitle }) => {
+  const [copied, setCopied] = useState<string | null>(null);
+  // Stale chapters would point at the wrong moments, so they are left out until the script is re-voiced
+  const stale = chaptersStale(publishing, segments);
+  const chapters = stale ? [] : timeChapters(publishing.chapters, segments);
+
+  const copy = (text: string, key: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const copyButton = (text: string, key: string, label: string) => (
+    <button onClick={() => copy(text, key)} className={buttonClassName}>
+      {copied === key ? <span className="text-green-400">Copied!</span> : <><CopyIcon className="w-4 h-4 mr-2" />{label}</>}
+    </button>
+  );
+
+  return (
+    <div className="pt-4">
+      <h3 className="text-lg font-semibold mb-2">Publishing Package</h3>
+      <div className="space-y-4 bg-gray-800/50 rounded-lg p-4 text-sm">
+        {publishing.titleVariants.length > 0 && (
+          <div>
+            <h4 className="font-semibold text-gray-300 mb-1">Title Variants</h4>
+            <ul className="space-y-1">
+              {publishing.titleVariants.map((variant, i) => (
+                <li key={i} className="flex items-center justify-between gap-2">
+                  <span>{variant}</span>
+                  <button
+                    onClick={() => onUseTitle(variant)}
+                    disabled={variant === title}
+                    className="shrink-0 text-xs text-purple-300 hover:text-purple-200 disabled:text-gray-500"
+                  >
+                    {variant === title ? 'In use' : 'Use'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div>
+          <h4 className="font-semibold text-gray-300 mb-1">Description</h4>
+          <p className="whitespace-pre-wrap text-gray-300">{formatDescription(publishing, chapters)}</p>
+          {stale ? (
+            <p className="text-xs text-yellow-400 mt-1">
+              Chapters are left out: they were made for a version of the script with other paragraphs than this audio. Regenerating the audio places them again where it can.
+            </p>
+          ) : chapters.length < MIN_CHAPTERS && (
+            <p className="text-xs text-yellow-400 mt-1">
+              Chapters are left out: YouTube needs at least {MIN_CHAPTERS} chapters, each 10 seconds or longer.
+            </p>
+          )}
+        </div>
+
+        {chapters.length > 0 && (
+          <div>
+            <h4 className="font-semibold text-gray-300 mb-1">Chapters</h4>
+            <ul className="font-mono text-gray-300">
+              {chapters.map((chapter, i) => <li key={i}>{formatChapterTimestamp(chapter.start)} {chapter.title}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div>
+          <h4 className="font-semibold text-gray-300 mb-1">Tags</h4>
+          <p className="text-gray-300">{publishing.tags.join(', ')}</p>
+        </div>
+
+        {publishing.thumbnailText.length > 0 && (
+          <div>
+            <h4 className="font-semibold text-gray-300 mb-1">Thumbnail Text</h4>
+            <ul className="list-disc list-inside text-gray-300">
+              {publishing.thumbnailText.map((text, i) => <li key={i}>{text}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {copyButton(formatDescription(publishing, chapters), 'description', 'Copy Description')}
+          {copyButton(publishing.tags.join(', '), 'tags', 'Copy Tags')}
+          {copyButton(formatPublishingText(title, publishing, chapters), 'all', 'Copy All')}
+          <button onClick={() => downloadText(formatPublishingText(title, publishing, chapters), 'movie_recap_publishing.txt', 'text/plain')} className={buttonClassName}>
+            <DownloadIcon className="w-4 h-4 mr-2" />
+            Text (.txt)
+          </button>
+          <button onClick={() => downloadText(formatPublishingJson(title, publishing, chapters), 'movie_recap_publishing.json', 'application/json')} className={buttonClassName}>
+            <DownloadIcon className="w-4 h-4 mr-2" />
+            JSON
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PublishingPanel;
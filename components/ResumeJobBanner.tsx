@@ -0,0 +1,47 @@
+import React from 'react';
+import { PipelineJob, JOB_STAGE_LABELS } from '../services/sessionService';
+import { SparklesIcon, TrashIcon } from './icons';
+
+interface ResumeJobBannerProps {
+  job: PipelineJob;
+  onResume: () => void;
+  onDiscard: () => void;
+  disabled?: boolean;
+}
+
+// Offers to continue a recap the previous session left unfinished.
+const ResumeJobBanner: React.FC<ResumeJobBannerProps> = ({ job, onResume, onDiscard, disabled }) => (
+  <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-2xl p-4 flex flex-wrap items-center justify-between gap-3">
+    <div className="text-sm">
+      <p className="font-semibold text-yellow-300">An unfinished recap was interrupted</p>
+      <p className="text-gray-300">
+        Last step: {JOB_STAGE_LABELS[job.stage]} · {job.settings.language}, {job.settings.preset.name} · {new Date(job.updatedAt).toLocaleString()}
+      </p>
+      <p className="text-xs text-gray-400 mt-1">
+        {job.media
+          ? `Pick "${job.media.fileName}" again, then resume to transcribe from part ${job.media.chunksDone + 1}.`
+          : job.stage === 'scripted' ? `Resuming voices "${job.title}" without rewriting it.` : 'Resuming writes the script from the saved transcript.'}
+      </p>
+    </div>
+    <div className="flex gap-2">
+      <button
+        onClick={onResume}
+        disabled={disabled}
+        className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        <SparklesIcon className="w-4 h-4 mr-2" />
+        Resume
+      </button>
+      <button
+        onClick={onDiscard}
+        disabled={disabled}
+        className="inline-flex items-center px-3 py-1.5 border border-red-500/50 text-sm font-medium rounded-md text-red-400 hover:bg-red-500/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        <TrashIcon className="w-4 h-4 mr-2" />
+        Discard
+      </button>
+    </div>
+  </div>
+);
+
+export default ResumeJobBanner;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { splitParagraphs, parseSpeakerTag, listSpeakers, NARRATOR } from '../utils/script';
+import { VOICES } from '../constants';
+
+interface SpeakerScriptViewProps {
+  script: string;
+  narratorVoice: string;
+  speakerVoices: Record<string, string>; // Resolved voice for every speaker in the script
+  onSpeakerVoiceChange: (speaker: string, voice: string) => void;
+  disabled?: boolean;
+}
+
+// Text and border colors per speaker, in order of first appearance.
+const SPEAKER_COLORS = [
+  { text: 'text-sky-300', border: 'border-sky-400' },
+  { text: 'text-amber-300', border: 'border-amber-400' },
+  { text: 'text-emerald-300', border: 'border-emerald-400' },
+  { text: 'text-rose-300', border: 'border-rose-400' },
+  { text: 'text-lime-300', border: 'border-lime-400' },
+  { text: 'text-fuchsia-300', border: 'border-fuchsia-400' },
+];
+const NARRATOR_COLOR = { text: 'text-gray-400', border: 'border-gray-600' };
+
+// Shows who reads each paragraph of a dialogue script and lets the user
+// choose a voice for every character.
+const SpeakerScriptView: React.FC<SpeakerScriptViewProps> = ({ script, narratorVoice, speakerVoices, onSpeakerVoiceChange, disabled }) => {
+  const speakers = listSpeakers(script, true);
+  const colorFor = (speaker: string | null) =>
+    speaker === null ? NARRATOR_COLOR : SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length];
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-300 mb-2">Character Voices</h4>
+        <div className="flex flex-wrap gap-2">
+          <span className={`inline-flex items-center px-3 py-1.5 rounded-md bg-gray-800/50 border-l-4 text-sm ${NARRATOR_COLOR.border}`}>
+            <span className={`font-medium mr-2 ${NARRATOR_COLOR.text}`}>{NARRATOR}</span>
+            <span className="text-gray-400">{narratorVoice}</span>
+          </span>
+          {speakers.map(speaker => (
+            <label key={speaker} className={`inline-flex items-center px-3 py-1 rounded-md bg-gray-800/50 border-l-4 text-sm ${colorFor(speaker).border}`}>
+              <span className={`font-medium mr-2 ${colorFor(speaker).text}`}>{speaker}</span>
+              <select
+                aria-label={`Voice for ${speaker}`}
+                className="bg-gray-900/50 rounded p-1 border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                value={speakerVoices[speaker]}
+                onChange={(e) => onSpeakerVoiceChange(speaker, e.target.value)}
+                disabled={disabled}
+              >
+                {VOICES.map(voice => <option key={voice.value} value={voice.value}>{voice.value}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto space-y-2 bg-gray-800/30 rounded-lg p-3 text-sm leading-relaxed">
+        {splitParagraphs(script).map((paragraph, i) => {
+          const { speaker, text } = parseSpeakerTag(paragraph);
+          const color = colorFor(speaker);
+          return (
+            <p key={i} className={`border-l-4 pl-3 ${color.border}`}>
+              {speaker && <span className={`font-semibold mr-2 ${color.text}`}>{speaker}:</span>}
+              <span className={speaker ? 'text-gray-100' : 'text-gray-300'}>{text}</span>
+            </p>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SpeakerScriptView;
@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryItem } from '../types';
+import { currentVersion } from '../services/storageService';
+import {
+  loadUsage, subscribeUsage, clearUsage, totalUsage, loadPrices, savePrices, loadBudget, saveBudget,
+  ModelPrice, UsageRecord, UsageTotals,
+} from '../services/usageService';
+import { TrashIcon } from './icons';
+
+interface UsagePanelProps {
+  history: HistoryItem[]; // For the titles of the recaps usage was charged to
+}
+
+const ALL_TIME = 'all';
+
+const inputClassName = "bg-gray-800/50 rounded-lg p-2 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500";
+
+// Usage is kept in UTC timestamps but grouped by the user's own months.
+const monthKey = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+const monthLabel = (key: string) => new Date(`${key}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+const formatMinutes = (seconds: number) => `${(seconds / 60).toFixed(1)} min`;
+
+function groupBy<K>(records: UsageRecord[], key: (record: UsageRecord) => K): Map<K, UsageRecord[]> {
+  const groups = new Map<K, UsageRecord[]>();
+  for (const record of records) {
+    const group = groups.get(key(record));
+    if (group) group.push(record);
+    else groups.set(key(record), [record]);
+  }
+  return groups;
+}
+
+const UsageRow: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <tr className="border-t border-gray-700/50">
+    <td className="py-1.5 pr-2 truncate max-w-[14rem]" title={label}>{label}</td>
+    <td className="py-1.5 px-2 text-right">{totals.calls}</td>
+    <td className="py-1.5 px-2 text-right">{formatTokens(totals.inputTokens)}</td>
+    <td className="py-1.5 px-2 text-right">{formatTokens(totals.outputTokens)}</td>
+    <td className="py-1.5 px-2 text-right">{formatMinutes(totals.audioSeconds)}</td>
+    <td className="py-1.5 px-2 text-right">{(totals.latencyMs / totals.calls / 1000).toFixed(1)}s</td>
+    <td className="py-1.5 pl-2 text-right font-medium">{formatCost(totals.cost)}</td>
+  </tr>
+);
+
+const UsageTable: React.FC<{ title: string; nameHeading: string; rows: { label: string; totals: UsageTotals }[] }> = ({ title, nameHeading, rows }) => (
+  <div>
+    <h3 className="text-lg font-semibold mb-2">{title}</h3>
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="text-xs text-gray-400">
+          <tr>
+            <th className="pb-1 pr-2 text-left font-medium">{nameHeading}</th>
+            <th className="pb-1 px-2 text-right font-medium">Calls</th>
+            <th className="pb-1 px-2 text-right font-medium">Input tokens</th>
+            <th className="pb-1 px-2 text-right font-medium">Output tokens</th>
+            <th className="pb-1 px-2 text-right font-medium">Audio</th>
+            <th className="pb-1 px-2 text-right font-medium">Avg. latency</th>
+            <th className="pb-1 pl-2 text-right font-medium">Est. cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => <UsageRow key={row.label} label={row.label} totals={row.totals} />)}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+// What the Gemini calls have used, by month, recap and model, priced from an
+// editable table. Costs are estimates: the bill is the source of truth.
+const UsagePanel: React.FC<UsagePanelProps> = ({ history }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [prices, setPrices] = useState<ModelPrice[]>(loadPrices);
+  const [budget, setBudget] = useState<string>(() => loadBudget()?.toString() ?? '');
+  const [month, setMonth] = useState<string>(ALL_TIME);
+  const [showPrices, setShowPrices] = useState<boolean>(false);
+
+  useEffect(() => {
+    const refresh = () => loadUsage()
+      .then(setRecords)
+      .catch(e => console.error("Failed to load the usage log", e));
+    refresh();
+    return subscribeUsage(refresh);
+  }, []);
+
+  const months = useMemo(() => [...new Set(records.map(record => monthKey(record.timestamp)))].sort().reverse(), [records]);
+  const selected = month === ALL_TIME ? records : records.filter(record => monthKey(record.timestamp) === month);
+  // Prices are listed for every model seen, including ones added after this table was written
+  const pricedModels = [...prices, ...[...new Set(records.map(record => record.model))]
+    .filter(model => !prices.some(price => price.model === model))
+    .map(model => ({ model, inputPerMillion: 0, outputPerMillion: 0 }))];
+
+  const titles = new Map(history.map(item => [item.id, currentVersion(item).title]));
+  const recapRows = [...groupBy(selected, record => record.recapId)]
+    .map(([recapId, group]) => ({
+      label: recapId === undefined ? 'Not part of a saved recap' : titles.get(recapId) ?? 'Deleted recap',
+      totals: totalUsage(group, prices),
+    }))
+    .sort((a, b) => b.totals.cost - a.totals.cost);
+  const monthRows = [...groupBy(records, record => monthKey(record.timestamp))]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([key, group]) => ({ label: monthLabel(key), totals: totalUsage(group, prices) }));
+  const modelRows = [...groupBy(selected, record => record.model)].map(([model, group]) => ({ label: model, totals: totalUsage(group, prices) }));
+  const totals = totalUsage(selected, prices);
+
+  const handlePriceChange = (model: string, changes: Partial<ModelPrice>) => {
+    const updated = pricedModels.map(price => (price.model === model ? { ...price, ...changes } : price));
+    setPrices(updated);
+    savePrices(updated);
+  };
+
+  const handleBudgetChange = (value: string) => {
+    setBudget(value);
+    saveBudget(Number(value) || null);
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Clear the whole usage log? Saved recaps are not affected.')) clearUsage();
+  };
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl shadow-lg backdrop-blur-sm border border-white/10">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold">Usage &amp; Costs</h2>
+        {records.length > 0 && (
+          <button
+            onClick={handleClear}
+            className="inline-flex items-center px-3 py-1.5 border border-red-500/50 text-sm font-medium rounded-md text-red-400 hover:bg-red-500/10 transition-colors"
+          >
+            <TrashIcon className="w-4 h-4 mr-2" />
+            Clear Log
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="inline-flex items-center gap-2 text-gray-300">
+            Budget per recap ($)
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No limit"
+              className={`${inputClassName} w-28`}
+              value={budget}
+              onChange={(e) => handleBudgetChange(e.target.value)}
+            />
+          </label>
+          <span className="text-xs text-gray-400">Generating a recap estimated to cost more asks you first.</span>
+        </div>
+
+        {records.length === 0 ? (
+          <p className="text-sm text-gray-400">No Gemini calls recorded yet. Usage shows up here as recaps are transcribed, written and voiced.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <select aria-label="Period" className={inputClassName} value={month} onChange={(e) => setMonth(e.target.value)}>
+                <option value={ALL_TIME}>All time</option>
+                {months.map(key => <option key={key} value={key}>{monthLabel(key)}</option>)}
+              </select>
+              <span className="text-sm text-gray-300">
+                <span className="text-xl font-semibold text-white">{formatCost(totals.cost)}</span>
+                {' '}· {totals.calls} call{totals.calls === 1 ? '' : 's'} · {formatTokens(totals.inputTokens + totals.outputTokens)} tokens · {formatMinutes(totals.audioSeconds)} of audio
+              </span>
+            </div>
+            {month === ALL_TIME && <UsageTable title="By Month" nameHeading="Month" rows={monthRows} />}
+            <UsageTable title="By Recap" nameHeading="Recap" rows={recapRows} />
+            <UsageTable title="By Model" nameHeading="Model" rows={modelRows} />
+          </>
+        )}
+
+        <div>
+          <button onClick={() => setShowPrices(!showPrices)} className="text-sm text-purple-300 hover:text-purple-200">
+            {showPrices ? 'Hide' : 'Edit'} price table
+          </button>
+          {showPrices && (
+            <div className="mt-2 space-y-2">
+              <p className="text-xs text-gray-400">US dollars per million tokens. Check your provider's current pricing; costs above are estimates.</p>
+              {pricedModels.map(price => (
+                <div key={price.model} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="w-64 truncate text-gray-300" title={price.model}>{price.model}</span>
+                  <label className="inline-flex items-center gap-1 text-gray-400">
+                    Input
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className={`${inputClassName} w-24`}
+                      value={price.inputPerMillion}
+                      onChange={(e) => handlePriceChange(price.model, { inputPerMillion: Number(e.target.value) || 0 })}
+                    />
+                  </label>
+                  <label className="inline-flex items-center gap-1 text-gray-400">
+                    Output
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className={`${inputClassName} w-24`}
+                      value={price.outputPerMillion}
+                      onChange={(e) => handlePriceChange(price.model, { outputPerMillion: Number(e.target.value) || 0 })}
+                    />
+                  </label>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ChapterMarker, SpeechSegment } from '../types';
+import { createWavUrl, getPcmDuration } from '../utils/audio';
+import { alignCaptions } from '../utils/subtitles';
+import { buildTimeline, findActive } from '../utils/timeline';
+import { SectionVisual, VideoTimeline, VIDEO_SIZES, drawFrame, loadVisual, syncClips, pauseClips } from '../utils/videoFrame';
+import { formatChapterTimestamp } from '../utils/publishing';
+import { renderVideo, supportedVideoFormats, videoExtension, VideoFormat, VIDEO_FORMATS } from '../services/videoService';
+import { CancelledError } from '../services/errors';
+import { DownloadIcon, FilmIcon, LoaderIcon, TrashIcon, UploadIcon } from './icons';
+
+interface VideoRenderPanelProps {
+  narrationAudio: string; // Base64 PCM of the narration
+  segments: SpeechSegment[];
+  chapters?: ChapterMarker[];
+  disabled?: boolean;
+}
+
+// A user file placed on a section.
+interface SectionMedia {
+  name: string;
+  url: string; // Object URL, revoked when the media is replaced or removed
+  visual: SectionVisual;
+}
+
+const VideoRenderPanel: React.FC<VideoRenderPanelProps> = ({ narrationAudio, segments, chapters, disabled }) => {
+  const formats = useMemo(supportedVideoFormats, []);
+  const [media, setMedia] = useState<{ [section: number]: SectionMedia }>({});
+  const [captionsOn, setCaptionsOn] = useState<boolean>(true);
+  const [sizeIndex, setSizeIndex] = useState<number>(0);
+  const [format, setFormat] = useState<VideoFormat>(formats[0] ?? 'webm');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [isRendering, setIsRendering] = useState<boolean>(false);
+  const [progress, setProgress] = useState<number>(0);
+  const [video, setVideo] = useState<{ url: string; format: VideoFormat } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const duration = useMemo(() => getPcmDuration(narrationAudio), [narrationAudio]);
+  const sections = useMemo(() => buildTimeline(segments, chapters, duration), [segments, chapters, duration]);
+  const captions = useMemo(() => alignCaptions(segments), [segments]);
+  const timeline: VideoTimeline = useMemo(() => ({
+    sections,
+    visuals: sections.map((_, i) => media[i]?.visual ?? null),
+    captions: captionsOn ? captions : null,
+  }), [sections, media, captionsOn, captions]);
+  const size = VIDEO_SIZES[sizeIndex];
+
+  // The preview loop reads these without restarting
+  const timelineRef = useRef(timeline);
+  timelineRef.current = timeline;
+  const renderingRef = useRef(isRendering);
+  renderingRef.current = isRendering;
+  const mediaRef = useRef(media);
+  mediaRef.current = media;
+
+  useEffect(() => {
+    const url = createWavUrl(narrationAudio);
+    setPreviewUrl(url);
+    setVideo(null);
+    return () => URL.revokeObjectURL(url);
+  }, [narrationAudio]);
+
+  useEffect(() => {
+    return () => {
+      if (video) URL.revokeObjectURL(video.url);
+    };
+  }, [video]);
+
+  // Media files live only as long as the panel
+  useEffect(() => {
+    return () => {
+      (Object.values(mediaRef.current) as SectionMedia[]).forEach(item => URL.revokeObjectURL(item.url));
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  // Draws the preview at the audio's position; rendering draws on its own canvas
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const canvas = canvasRef.current;
+      const audio = audioRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (ctx && audio && !renderingRef.current) {
+        syncClips(timelineRef.current, audio.currentTime, !audio.paused);
+        drawFrame(ctx, timelineRef.current, audio.currentTime);
+        setCurrentTime(Math.round(audio.currentTime * 10) / 10); // Enough for the playhead, without re-rendering every frame
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => {
+      cancelAnimationFrame(frame);
+      pauseClips(timelineRef.current);
+    };
+  }, []);
+
+  // Places the files on consecutive sections, starting at the given one
+  const handleFiles = async (startIndex: number, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setError(null);
+    const placed: { [section: number]: SectionMedia } = {};
+    let section = startIndex;
+    for (const file of Array.from(files)) {
+      if (section >= sections.length) break;
+      const url = URL.createObjectURL(file);
+      try {
+        const visual = await loadVisual(url, file.type.startsWith('video/') ? 'video' : 'image');
+        placed[section++] = { name: file.name, url, visual };
+      } catch (e: any) {
+        console.error("Error loading video media:", e);
+        URL.revokeObjectURL(url);
+        setError(`${file.name}: ${e.message}`);
+      }
+    }
+    setMedia(prev => {
+      Object.keys(placed).forEach(key => {
+        if (prev[Number(key)]) URL.revokeObjectURL(prev[Number(key)].url);
+      });
+      return { ...prev, ...placed };
+    });
+    setVideo(null);
+  };
+
+  const handleRemove = (index: number) => {
+    const item = media[index];
+    if (!item) return;
+    if (item.visual instanceof HTMLVideoElement) item.visual.pause();
+    URL.revokeObjectURL(item.url);
+    setMedia(prev => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
+    });
+    setVideo(null);
+  };
+
+  const seek = (time: number) => {
+    if (audioRef.current) audioRef.current.currentTime = time;
+  };
+
+  const handleRender = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    audioRef.current?.pause();
+    setIsRendering(true);
+    setProgress(0);
+    setError(null);
+    setVideo(null);
+
+    try {
+      const blob = await renderVideo(narrationAudio, timeline, {
+        format,
+        width: size.width,
+        height: size.height,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      setVideo({ url: URL.createObjectURL(blob), format });
+    } catch (e: any) {
+      if (!(e instanceof CancelledError)) {
+        console.error("Error rendering video:", e);
+        setError(e.message || 'Could not render the video.');
+      }
+    } finally {
+      abortRef.current = null;
+      setIsRendering(false);
+    }
+  };
+
+  const selectClassName = "bg-gray-800/50 rounded-lg p-2 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500";
+  const activeSection = findActive(sections, currentTime);
+
+  return (
+    <div className="pt-4">
+      <h3 className="text-lg font-semibold mb-2">Video</h3>
+      <div className="space-y-4 bg-gray-800/50 rounded-lg p-4">
+        <p className="text-sm text-gray-400">
+          Add a clip or image to each section{chapters && chapters.length > 0 ? ' (one per chapter)' : ' (one per paragraph)'}. Sections without media show their title. Media is not saved with the recap.
+        </p>
+
+        <canvas
+          ref={canvasRef}
+          width={size.width}
+          height={size.height}
+          className="block mx-auto max-w-full max-h-[60vh] bg-black rounded-lg"
+        />
+        {previewUrl && (
+          <audio ref={audioRef} controls src={previewUrl} className="w-full">
+            Your browser does not support the audio element.
+          </audio>
+        )}
+
+        <div className="relative flex w-full overflow-x-auto rounded-md border border-gray-700">
+          {sections.map((section, i) => (
+            <div
+              key={i}
+              style={{ flexGrow: section.end - section.start, flexBasis: 0 }}
+              className={`min-w-[7rem] p-2 text-xs border-r border-gray-700 last:border-r-0 ${i === activeSection ? 'bg-purple-900/40' : 'bg-gray-900/40'}`}
+            >
+              <button onClick={() => seek(section.start)} className="block w-full text-left hover:text-purple-300" title={section.title}>
+                <span className="text-gray-400">{formatChapterTimestamp(section.start)}</span>
+                <span className="block truncate font-medium">{section.title}</span>
+              </button>
+              {media[i] ? (
+                <div className="flex items-center mt-1 text-gray-300">
+                  <span className="truncate flex-grow" title={media[i].name}>{media[i].name}</span>
+                  <button onClick={() => handleRemove(i)} disabled={isRendering} className="ml-1 text-red-400 hover:text-red-300" aria-label={`Remove media from section ${i + 1}`}>
+                    <TrashIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              ) : (
+                <label className="flex items-center mt-1 cursor-pointer text-purple-400 hover:text-purple-300">
+                  <UploadIcon className="w-3 h-3 mr-1" />
+                  Add media
+                  <input
+                    type="file"
+                    className="sr-only"
+                    accept="image/*,video/*"
+                    multiple
+                    disabled={disabled || isRendering}
+                    onChange={(e) => { handleFiles(i, e.target.files); e.target.value = ''; }}
+                  />
+                </label>
+              )}
+            </div>
+          ))}
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-purple-400 pointer-events-none"
+            style={{ left: `${(currentTime / Math.max(duration, 0.001)) * 100}%` }}
+          />
+        </div>
+        <p className="text-xs text-gray-500">Selecting several files fills the following sections in order.</p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select aria-label="Video size" className={selectClassName} value={sizeIndex} onChange={(e) => setSizeIndex(Number(e.target.value))} disabled={isRendering}>
+            {VIDEO_SIZES.map((option, i) => <option key={option.label} value={i}>{option.label}</option>)}
+          </select>
+          <select aria-label="Video format" className={selectClassName} value={format} onChange={(e) => setFormat(e.target.value as VideoFormat)} disabled={isRendering || formats.length === 0}>
+            {VIDEO_FORMATS.filter(f => formats.includes(f.value)).map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+          <label className="inline-flex items-center text-sm text-gray-300">
+            <input type="checkbox" className="mr-2 accent-purple-500" checked={captionsOn} onChange={(e) => setCaptionsOn(e.target.checked)} disabled={isRendering} />
+            Burn in captions
+          </label>
+          {isRendering ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="inline-flex items-center px-4 py-2 border border-red-500/50 text-sm font-medium rounded-md text-red-400 hover:bg-red-500/10 transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleRender}
+              disabled={disabled || formats.length === 0}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <FilmIcon className="w-4 h-4 mr-2" />
+              Render Video
+            </button>
+          )}
+        </div>
+        {formats.length === 0 && <p className="text-sm text-yellow-300">This browser cannot record video. Try a recent Chrome, Edge or Firefox.</p>}
+
+        {isRendering && (
+          <div>
+            <div className="flex items-center text-sm text-gray-300 mb-1">
+              <LoaderIcon className="animate-spin w-4 h-4 mr-2" />
+              Rendering {Math.round(progress * 100)}% · Rendering runs in real time; keep this tab in front.
+            </div>
+            <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+              <div className="h-full bg-purple-500 rounded-full" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {video && (
+          <div>
+            <video controls src={video.url} className="block mx-auto max-w-full max-h-[60vh] rounded-lg" />
+            <a
+              href={video.url}
+              download={`movie_recap.${videoExtension(video.format)}`}
+              className="inline-flex items-center mt-4 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 transition-colors"
+            >
+              <DownloadIcon className="w-4 h-4 mr-2"/>
+              Download Video (.{videoExtension(video.format)})
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VideoRenderPanel;
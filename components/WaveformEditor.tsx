@@ -0,0 +1,311 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { SpeechSegment } from '../types';
+import { createWavUrl, decodePcm, TTS_SAMPLE_RATE } from '../utils/audio';
+import {
+  AudioEdits, SilenceTrim, TimeRange, NO_EDITS, DEFAULT_SILENCE_TRIM,
+  computePeaks, findSilences, keptRanges, toEditedTime,
+} from '../utils/audioEdit';
+import { renderAudioEdits } from '../utils/editRenderer';
+import { findActive } from '../utils/timeline';
+import { formatChapterTimestamp } from '../utils/publishing';
+import { LoaderIcon, PlayCircleIcon, ScissorsIcon } from './icons';
+
+interface WaveformEditorProps {
+  narrationAudio: string; // Base64 PCM of the narration
+  segments: SpeechSegment[];
+  disabled?: boolean;
+  // Replaces the narration with the edited audio
+  onApply: (audio: { base64Audio: string; segments: SpeechSegment[] }) => Promise<void>;
+}
+
+// Canvas size in pixels; CSS scales it to the panel.
+const WAVEFORM_WIDTH = 1200;
+const WAVEFORM_HEIGHT = 120;
+// Drags shorter than this are clicks, which move the playhead.
+const MIN_SELECTION_SECONDS = 0.05;
+
+const TEMPO_OPTIONS = [0.9, 0.95, 1, 1.05, 1.1, 1.15, 1.2];
+const THRESHOLD_OPTIONS = [-50, -45, -40, -35, -30];
+const MIN_GAP_OPTIONS = [300, 500, 600, 800, 1000, 1500];
+const KEEP_OPTIONS = [100, 200, 300, 400, 500];
+
+// Cuts, pause trimming and tempo over the narration. The preview plays the
+// original audio, skipping what is cut at the browser's pitch-preserving
+// playback rate; nothing is rendered until the edits are applied.
+const WaveformEditor: React.FC<WaveformEditorProps> = ({ narrationAudio, segments, disabled, onApply }) => {
+  const [edits, setEdits] = useState<AudioEdits>(NO_EDITS);
+  const [undoStack, setUndoStack] = useState<AudioEdits[]>([]);
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [isApplying, setIsApplying] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragStartRef = useRef<number | null>(null);
+
+  const samples = useMemo(() => decodePcm(narrationAudio), [narrationAudio]);
+  const duration = samples.length / TTS_SAMPLE_RATE;
+  const peaks = useMemo(() => computePeaks(samples, WAVEFORM_WIDTH), [samples]);
+  // Scanning for pauses is the slow part, so it only reruns when the trim settings change
+  const silences = useMemo(() => (edits.silence ? findSilences(samples, edits.silence) : []), [samples, edits.silence]);
+  const removed = useMemo(() => [...edits.cuts, ...silences], [edits.cuts, silences]);
+  const kept = useMemo(() => keptRanges(duration, removed), [duration, removed]);
+  const editedDuration = toEditedTime(kept, duration) / edits.tempo;
+
+  // The playback loop reads this without restarting
+  const keptRef = useRef(kept);
+  keptRef.current = kept;
+
+  // New narration, from a regeneration or applied edits, starts a fresh edit list
+  useEffect(() => {
+    const url = createWavUrl(narrationAudio);
+    setPreviewUrl(url);
+    setEdits(NO_EDITS);
+    setUndoStack([]);
+    setSelection(null);
+    return () => URL.revokeObjectURL(url);
+  }, [narrationAudio]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.preservesPitch = true;
+    audio.defaultPlaybackRate = edits.tempo;
+    audio.playbackRate = edits.tempo;
+  }, [edits.tempo, previewUrl]);
+
+  // Moves the playhead and jumps over removed audio while playing
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (audio) {
+        const time = audio.currentTime;
+        if (!audio.paused && !keptRef.current.some(range => time >= range.start && time < range.end)) {
+          const next = keptRef.current.find(range => range.start > time);
+          if (next) audio.currentTime = next.start;
+          else audio.pause();
+        }
+        setCurrentTime(Math.round(audio.currentTime * 20) / 20); // Enough for the playhead, without re-rendering every frame
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const activeSegment = findActive(segments, currentTime);
+  const activeParagraph = activeSegment >= 0 ? segments[activeSegment].paragraphIndex : null;
+  const paragraphSegments = segments.filter(segment => segment.paragraphIndex === activeParagraph);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || duration === 0) return;
+    const x = (time: number) => (time / duration) * WAVEFORM_WIDTH;
+    const mid = WAVEFORM_HEIGHT / 2;
+    ctx.clearRect(0, 0, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+
+    if (paragraphSegments.length > 0) {
+      const start = x(paragraphSegments[0].start);
+      ctx.fillStyle = 'rgba(168, 85, 247, 0.15)';
+      ctx.fillRect(start, 0, x(paragraphSegments[paragraphSegments.length - 1].end) - start, WAVEFORM_HEIGHT);
+    }
+
+    const cut = new Uint8Array(WAVEFORM_WIDTH);
+    for (const range of removed) cut.fill(1, Math.floor(x(range.start)), Math.ceil(x(range.end)));
+    peaks.forEach((peak, i) => {
+      const height = Math.max(1, peak * WAVEFORM_HEIGHT);
+      ctx.fillStyle = cut[i] ? 'rgba(107, 114, 128, 0.5)' : '#a855f7';
+      ctx.fillRect(i, mid - height / 2, 1, height);
+    });
+    ctx.fillStyle = 'rgba(239, 68, 68, 0.2)';
+    for (const range of removed) ctx.fillRect(x(range.start), 0, x(range.end) - x(range.start), WAVEFORM_HEIGHT);
+
+    // Paragraph starts
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+    segments.forEach((segment, i) => {
+      if (i > 0 && segment.paragraphIndex !== segments[i - 1].paragraphIndex) ctx.fillRect(Math.round(x(segment.start)), 0, 1, WAVEFORM_HEIGHT);
+    });
+
+    if (selection) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+      ctx.fillRect(x(selection.start), 0, x(selection.end) - x(selection.start), WAVEFORM_HEIGHT);
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(Math.round(x(currentTime)), 0, 2, WAVEFORM_HEIGHT);
+  }, [peaks, removed, segments, selection, currentTime, duration, activeParagraph]);
+
+  const seek = (time: number) => {
+    if (audioRef.current) audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const timeAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((event.clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStartRef.current = timeAt(event);
+    setSelection(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current;
+    if (start === null) return;
+    const time = timeAt(event);
+    setSelection({ start: Math.min(start, time), end: Math.max(start, time) });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current;
+    dragStartRef.current = null;
+    if (start === null) return;
+    const time = timeAt(event);
+    if (Math.abs(time - start) < MIN_SELECTION_SECONDS) {
+      setSelection(null);
+      seek(time);
+    } else {
+      setSelection({ start: Math.min(start, time), end: Math.max(start, time) });
+    }
+  };
+
+  const updateEdits = (next: AudioEdits) => {
+    setUndoStack(prev => [...prev, edits]);
+    setEdits(next);
+  };
+
+  const handleCut = () => {
+    if (!selection) return;
+    updateEdits({ ...edits, cuts: [...edits.cuts, selection] });
+    setSelection(null);
+  };
+
+  const handleUndo = () => {
+    if (undoStack.length === 0) return;
+    setEdits(undoStack[undoStack.length - 1]);
+    setUndoStack(prev => prev.slice(0, -1));
+  };
+
+  const handleSilenceChange = (changes: Partial<SilenceTrim>) => {
+    updateEdits({ ...edits, silence: { ...(edits.silence ?? DEFAULT_SILENCE_TRIM), ...changes } });
+  };
+
+  const handlePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play();
+    else audio.pause();
+  };
+
+  const handleApply = async () => {
+    audioRef.current?.pause();
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onApply(await renderAudioEdits(narrationAudio, segments, edits));
+    } catch (e: any) {
+      console.error("Error applying audio edits:", e);
+      setError(e.message || 'Could not apply the edits.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const hasEdits = edits.cuts.length > 0 || edits.silence !== null || edits.tempo !== 1;
+  const busy = disabled || isApplying;
+  const selectClassName = "bg-gray-800/50 rounded-lg p-2 text-sm border border-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500";
+  const buttonClassName = "inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-purple-300 bg-purple-800/50 hover:bg-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+  return (
+    <div className="pt-4">
+      <h3 className="text-lg font-semibold mb-2">Edit Audio</h3>
+      <div className="space-y-3 bg-gray-800/50 rounded-lg p-4">
+        <p className="text-sm text-gray-400">
+          Drag over the waveform to select, click to move the playhead. Edits are previewed only; apply them to replace the narration, which keeps the unedited take in history.
+        </p>
+        <canvas
+          ref={canvasRef}
+          width={WAVEFORM_WIDTH}
+          height={WAVEFORM_HEIGHT}
+          className="block w-full h-28 bg-gray-900/60 rounded-md cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+        {previewUrl && (
+          <audio ref={audioRef} src={previewUrl} onPlay={() => setIsPlaying(true)} onPause={() => setIsPlaying(false)} className="hidden" />
+        )}
+        <p className="text-sm text-gray-300 min-h-[2.5rem] line-clamp-2">
+          {activeParagraph !== null && <span className="text-purple-300 mr-2">¶ {activeParagraph + 1}</span>}
+          {paragraphSegments.map(segment => segment.text).join(' ')}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={handlePlay} disabled={isApplying} className={buttonClassName}>
+            <PlayCircleIcon className="w-4 h-4 mr-2" />
+            {isPlaying ? 'Pause' : 'Play'}
+          </button>
+          <span className="text-sm text-gray-400 tabular-nums">
+            {formatChapterTimestamp(toEditedTime(kept, currentTime) / edits.tempo)} / {formatChapterTimestamp(editedDuration)}
+          </span>
+          <button onClick={handleCut} disabled={busy || !selection} className={buttonClassName}>
+            <ScissorsIcon className="w-4 h-4 mr-2" />
+            Cut Selection{selection ? ` (${(selection.end - selection.start).toFixed(1)}s)` : ''}
+          </button>
+          <button onClick={handleUndo} disabled={busy || undoStack.length === 0} className={buttonClassName}>Undo</button>
+          <button onClick={() => updateEdits(NO_EDITS)} disabled={busy || !hasEdits} className={buttonClassName}>Reset</button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+          <label className="inline-flex items-center">
+            <input
+              type="checkbox"
+              className="mr-2 accent-purple-500"
+              checked={edits.silence !== null}
+              onChange={(e) => updateEdits({ ...edits, silence: e.target.checked ? DEFAULT_SILENCE_TRIM : null })}
+              disabled={busy}
+            />
+            Shorten pauses
+          </label>
+          <select aria-label="Silence threshold" className={selectClassName} value={(edits.silence ?? DEFAULT_SILENCE_TRIM).thresholdDb} onChange={(e) => handleSilenceChange({ thresholdDb: Number(e.target.value) })} disabled={busy || !edits.silence}>
+            {THRESHOLD_OPTIONS.map(value => <option key={value} value={value}>Quieter than {value} dB</option>)}
+          </select>
+          <select aria-label="Minimum pause" className={selectClassName} value={(edits.silence ?? DEFAULT_SILENCE_TRIM).minGapMs} onChange={(e) => handleSilenceChange({ minGapMs: Number(e.target.value) })} disabled={busy || !edits.silence}>
+            {MIN_GAP_OPTIONS.map(value => <option key={value} value={value}>Longer than {value} ms</option>)}
+          </select>
+          <select aria-label="Pause kept" className={selectClassName} value={(edits.silence ?? DEFAULT_SILENCE_TRIM).keepMs} onChange={(e) => handleSilenceChange({ keepMs: Number(e.target.value) })} disabled={busy || !edits.silence}>
+            {KEEP_OPTIONS.map(value => <option key={value} value={value}>Down to {value} ms</option>)}
+          </select>
+          {edits.silence && <span className="text-xs text-gray-400">{silences.length} pause{silences.length === 1 ? '' : 's'} shortened</span>}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+          <label className="inline-flex items-center gap-2">
+            Tempo
+            <select aria-label="Tempo" className={selectClassName} value={edits.tempo} onChange={(e) => updateEdits({ ...edits, tempo: Number(e.target.value) })} disabled={busy}>
+              {TEMPO_OPTIONS.map(value => <option key={value} value={value}>{value === 1 ? 'Original' : `${value}×`}</option>)}
+            </select>
+          </label>
+          <span className="text-xs text-gray-400">
+            {formatChapterTimestamp(duration)} → {formatChapterTimestamp(editedDuration)}
+          </span>
+          <button
+            onClick={handleApply}
+            disabled={busy || !hasEdits}
+            className="inline-flex items-center ml-auto px-4 py-2 text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+          >
+            {isApplying && <LoaderIcon className="animate-spin w-4 h-4 mr-2" />}
+            Apply Edits
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default WaveformEditor;
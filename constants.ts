@@ -0,0 +1,36 @@
+// Output languages offered for recaps.
+export const LANGUAGES = [
+  { value: 'Burmese', label: 'Burmese (Myanmar)' },
+  { value: 'Thai', label: 'Thai' },
+  { value: 'Vietnamese', label: 'Vietnamese' },
+  { value: 'Indonesian', label: 'Indonesian' },
+  { value: 'Japanese', label: 'Japanese' },
+];
+
+// Prebuilt TTS voices, with the character each one suits.
+export const VOICES = [
+  { value: 'Kore', label: 'Youthful Protagonist (Female)', group: 'Female Voices' },
+  { value: 'Puck', label: 'Standard Narrator (Male)', group: 'Male Voices' },
+  { value: 'Charon', label: 'Wise Mentor (Male)', group: 'Male Voices' },
+  { value: 'Fenrir', label: 'Action Hero (Male)', group: 'Male Voices' },
+  { value: 'Zephyr', label: 'Friendly Sidekick (Male)', group: 'Male Voices' },
+];
+
+export const VOICE_GROUPS = [...new Set(VOICES.map(voice => voice.group))];
+
+// Gives every speaker a voice: their chosen one if set, otherwise the next
+// voice in the list that is not the narrator's, so characters stand apart.
+export function assignSpeakerVoices(speakers: string[], narratorVoice: string, chosen: Record<string, string>): Record<string, string> {
+  const pool = VOICES.map(voice => voice.value).filter(voice => voice !== narratorVoice);
+  const assigned: Record<string, string> = {};
+  speakers.forEach((speaker, i) => {
+    assigned[speaker] = chosen[speaker] ?? pool[i % pool.length];
+  });
+  return assigned;
+}
+
+// Gemini models, by the part of the pipeline they serve.
+export const GEMINI_MODELS = {
+  text: 'gemini-3-flash-preview',
+  speech: 'gemini-2.5-flash-preview-tts',
+};
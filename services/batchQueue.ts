@@ -0,0 +1,239 @@
+import { transcribeMedia, generateRecapScript, generateBeatSheet, generateAudio, BEAT_SHEET_THRESHOLD_CHARS } from "./recapService";
+import { SpeechSegment, PublishingPackage, LexiconEntry, RecapSettings } from "../types";
+import { describeError, throwIfAborted } from "./errors";
+import { startUsageRun, attributeUsage, estimateRecapCost, estimateTranscriptChars, estimateTranscriptionCost } from "./usageService";
+import { readMediaDuration } from "../utils/audio";
+
+export type BatchStage = 'queued' | 'transcribing' | 'scripting' | 'voicing' | 'saving' | 'done' | 'failed' | 'cancelled';
+
+export type BatchSource =
+  | { kind: 'media'; file: File }
+  | { kind: 'transcript'; text: string };
+
+export interface BatchResult {
+  title: string;
+  script: string;
+  segments: SpeechSegment[];
+  publishing?: PublishingPackage;
+  historyId: number;
+  audioId: number;
+}
+
+export interface BatchItem {
+  id: number;
+  name: string;
+  source: BatchSource;
+  language: string;
+  voice: string;
+  stage: BatchStage;
+  audioProgress?: { completed: number; total: number };
+  error?: string;
+  result?: BatchResult;
+}
+
+export interface BatchState {
+  items: BatchItem[];
+  running: boolean;
+  paused: boolean;
+}
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  paragraphGapMs: number;
+  lexicon: LexiconEntry[]; // Global pronunciations applied to every item
+  onChange: (state: BatchState) => void;
+  // Persists a finished recap and returns where it was stored
+  onResult: (item: BatchItem, recap: { title: string; script: string; base64Audio: string; segments: SpeechSegment[]; publishing?: PublishingPackage; transcript: string; settings: RecapSettings; lexicon: LexiconEntry[] }) => Promise<{ historyId: number; audioId: number }>;
+}
+
+export interface BatchQueue {
+  add(items: Omit<BatchItem, 'id' | 'stage'>[]): void;
+  update(id: number, changes: Partial<Pick<BatchItem, 'language' | 'voice'>>): void;
+  remove(id: number): void;
+  clearFinished(): void;
+  retryFailed(): void;
+  setConcurrency(concurrency: number): void;
+  setParagraphGap(paragraphGapMs: number): void;
+  setLexicon(lexicon: LexiconEntry[]): void;
+  start(): void;
+  pause(): void;
+  cancel(): void;
+}
+
+// Roughly what an item will cost, or null when the length of its media can't
+// be read. Batch recaps have no target length, and long transcripts go
+// through a beat sheet.
+export async function estimateBatchItemCost(source: BatchSource): Promise<number | null> {
+  if (source.kind === 'transcript') {
+    return estimateRecapCost(source.text.length, undefined, source.text.length > BEAT_SHEET_THRESHOLD_CHARS);
+  }
+  const duration = await readMediaDuration(source.file);
+  if (duration === null) return null;
+  const transcriptChars = estimateTranscriptChars(duration);
+  return estimateTranscriptionCost(duration) + estimateRecapCost(transcriptChars, undefined, transcriptChars > BEAT_SHEET_THRESHOLD_CHARS);
+}
+
+const FINISHED_STAGES: BatchStage[] = ['done', 'failed', 'cancelled'];
+
+// Runs transcription, scripting and voicing for many items with limited
+// concurrency. Pausing lets running items finish but starts no new ones;
+// cancelling also aborts the requests of running items.
+export function createBatchQueue(options: BatchQueueOptions): BatchQueue {
+  let { concurrency, paragraphGapMs, lexicon } = options;
+  let items: BatchItem[] = [];
+  let running = false;
+  let paused = false;
+  let activeWorkers = 0;
+  let nextId = 1;
+  const controllers = new Map<number, AbortController>(); // One per running item
+
+  const emit = () => options.onChange({ items, running, paused });
+
+  const patch = (id: number, changes: Partial<BatchItem>) => {
+    items = items.map(item => (item.id === id ? { ...item, ...changes } : item));
+    emit();
+  };
+
+  const processItem = async (item: BatchItem, signal: AbortSignal) => {
+    const usageRun = startUsageRun(signal);
+    let transcript: string;
+    if (item.source.kind === 'media') {
+      transcript = await transcribeMedia(item.source.file, { signal });
+    } else {
+      transcript = item.source.text;
+    }
+    throwIfAborted(signal);
+
+    patch(item.id, { stage: 'scripting' });
+    // Nobody reviews a batch beat sheet, so long transcripts go straight through it
+    const fromBeatSheet = transcript.length > BEAT_SHEET_THRESHOLD_CHARS;
+    const source = fromBeatSheet ? await generateBeatSheet(transcript, { signal }) : transcript;
+    const { script, title, publishing } = await generateRecapScript(source, item.language, { fromBeatSheet, signal });
+
+    patch(item.id, { stage: 'voicing' });
+    const voicedLexicon = lexicon; // The lexicon may change while this item is voiced
+    const audio = await generateAudio(script, item.voice, {
+      paragraphGapMs,
+      lexicon: voicedLexicon,
+      concurrency: 2,
+      signal,
+      onProgress: ({ completed, total }) => patch(item.id, { audioProgress: { completed, total } }),
+    });
+    throwIfAborted(signal);
+
+    patch(item.id, { stage: 'saving' });
+    const settings: RecapSettings = { dialogue: false, paragraphGapMs, ...(fromBeatSheet && { beatSheet: source }) };
+    const stored = await options.onResult(item, { title, script, publishing, transcript, settings, lexicon: voicedLexicon, ...audio });
+    attributeUsage([usageRun], stored.historyId);
+    patch(item.id, {
+      stage: 'done',
+      result: { title, script, segments: audio.segments, publishing, ...stored },
+    });
+  };
+
+  const worker = async () => {
+    activeWorkers++;
+    try {
+      while (running && !paused) {
+        const item = items.find(candidate => candidate.stage === 'queued');
+        if (!item) break;
+        // Claim the item synchronously so no other worker picks it up
+        patch(item.id, { stage: item.source.kind === 'media' ? 'transcribing' : 'scripting', error: undefined });
+        const controller = new AbortController();
+        controllers.set(item.id, controller);
+        try {
+          await processItem(item, controller.signal);
+        } catch (error) {
+          const message = describeError(error, 'Processing failed.');
+          if (message === null) {
+            patch(item.id, { stage: 'cancelled' });
+          } else {
+            console.error(`Batch item "${item.name}" failed:`, error);
+            patch(item.id, { stage: 'failed', error: message });
+          }
+        } finally {
+          controllers.delete(item.id);
+        }
+      }
+    } finally {
+      activeWorkers--;
+      if (activeWorkers === 0) {
+        running = false;
+        emit();
+      }
+    }
+  };
+
+  const spawnWorkers = () => {
+    const queued = items.filter(item => item.stage === 'queued').length;
+    const toStart = Math.min(concurrency - activeWorkers, queued);
+    for (let i = 0; i < toStart; i++) {
+      worker();
+    }
+  };
+
+  return {
+    add(newItems) {
+      items = [...items, ...newItems.map(item => ({ ...item, id: nextId++, stage: 'queued' as const }))];
+      emit();
+      if (running && !paused) spawnWorkers();
+    },
+    update(id, changes) {
+      const item = items.find(candidate => candidate.id === id);
+      if (item?.stage === 'queued') patch(id, changes);
+    },
+    remove(id) {
+      const item = items.find(candidate => candidate.id === id);
+      if (!item || !(item.stage === 'queued' || FINISHED_STAGES.includes(item.stage))) return;
+      items = items.filter(candidate => candidate.id !== id);
+      emit();
+    },
+    clearFinished() {
+      items = items.filter(item => !FINISHED_STAGES.includes(item.stage));
+      emit();
+    },
+    retryFailed() {
+      items = items.map(item =>
+        item.stage === 'failed' || item.stage === 'cancelled'
+          ? { ...item, stage: 'queued' as const, error: undefined, audioProgress: undefined }
+          : item
+      );
+      emit();
+      if (running && !paused) spawnWorkers();
+    },
+    setConcurrency(value) {
+      concurrency = Math.max(1, value);
+      if (running && !paused) spawnWorkers();
+    },
+    setParagraphGap(value) {
+      paragraphGapMs = value;
+    },
+    setLexicon(value) {
+      lexicon = value;
+    },
+    start() {
+      running = true;
+      paused = false;
+      emit();
+      spawnWorkers();
+      if (activeWorkers === 0) {
+        running = false;
+        emit();
+      }
+    },
+    pause() {
+      if (!running) return;
+      paused = true;
+      emit();
+    },
+    cancel() {
+      items = items.map(item => {
+        if (item.stage === 'queued') return { ...item, stage: 'cancelled' as const };
+        if (!FINISHED_STAGES.includes(item.stage)) controllers.get(item.id)?.abort();
+        return item;
+      });
+      paused = false;
+      emit();
+    },
+  };
+}
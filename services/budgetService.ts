@@ -0,0 +1,18 @@
+import { getProvider } from "./provider";
+import { loadBudget } from "./usageService";
+
+// Asks before work estimated to cost more than the per-recap budget, with one
+// estimate per recap the work makes or changes. Returns whether to go ahead:
+// always when no budget is set, and with the mock provider, which is free.
+export function confirmWithinBudget(estimates: number[], action: string): boolean {
+  const budget = loadBudget();
+  if (budget === null || getProvider().name !== 'gemini') return true;
+  const over = estimates.filter(estimate => estimate > budget);
+  if (over.length === 0) return true;
+
+  const most = Math.max(...over);
+  const summary = estimates.length === 1
+    ? `This is estimated to cost about $${most.toFixed(2)}, over your budget of $${budget.toFixed(2)} per recap.`
+    : `${over.length} of these ${estimates.length} recaps are estimated to cost more than your budget of $${budget.toFixed(2)} per recap, the most about $${most.toFixed(2)}.`;
+  return window.confirm(`${summary} ${action} anyway?`);
+}
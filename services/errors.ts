@@ -0,0 +1,90 @@
+// Errors a provider call can end in, sorted by what the user can do about
+// them. Providers translate their own failures into these classes; recapService
+// uses `retryable` and `retryAfterMs` to decide whether and when to try again.
+
+export class RecapApiError extends Error {
+  retryable = false;
+  retryAfterMs?: number; // How long the API asked us to wait, when it said
+}
+
+// Rate limit or quota exhausted. Usually clears after the wait the API gives.
+export class QuotaError extends RecapApiError {
+  retryable = true;
+
+  constructor(retryAfterMs?: number) {
+    const wait = retryAfterMs ? `Wait about ${Math.ceil(retryAfterMs / 1000)} seconds` : 'Wait a minute';
+    super(`The API rate limit or quota was reached. ${wait} and try again, or check your plan's limits in Google AI Studio.`);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The model refused the request or its answer was blocked by safety filters.
+export class SafetyError extends RecapApiError {
+  constructor(reason?: string) {
+    super(`The request was blocked by the model's safety filters${reason ? ` (${reason})` : ''}. Remove or soften the flagged content in the transcript or script, or pick a milder style, then try again.`);
+  }
+}
+
+// Missing, invalid or unauthorized API key. Retrying cannot help.
+export class InvalidKeyError extends RecapApiError {
+  constructor() {
+    super("The API key is missing or was rejected. Set a valid API_KEY in .env.local and restart the app.");
+  }
+}
+
+// The API could not be reached, or it failed on its side.
+export class NetworkError extends RecapApiError {
+  retryable = true;
+
+  constructor() {
+    super("Could not reach the API, or it is temporarily unavailable. Check your internet connection and try again.");
+  }
+}
+
+// The model's answer did not fit the expected format, even after a repair
+// request. Another attempt usually comes back well-formed.
+export class InvalidResponseError extends RecapApiError {
+  retryable = true;
+
+  constructor(problems: string[]) {
+    super(`The model's answer was not in the expected format (${problems.join(' ')}). Try again; if it keeps happening, shorten the transcript or use "Summarize in parts first".`);
+  }
+}
+
+// The user cancelled the operation. Not shown as an error.
+export class CancelledError extends RecapApiError {
+  constructor() {
+    super("Cancelled.");
+  }
+}
+
+// What to tell the user about a failed operation. Typed errors already say
+// what to do; others show their own message, or the fallback without one.
+// Cancelling is not a failure, so it has no message.
+export function describeError(error: unknown, fallback: string): string | null {
+  if (error instanceof CancelledError) return null;
+  return (error instanceof Error && error.message) || fallback;
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new CancelledError();
+}
+
+// Waits, but stops early with a CancelledError when the signal aborts.
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,15 +1,93 @@
 
-import { GoogleGenAI, Modality, GenerateContentResponse, Type } from "@google/genai";
+import { GoogleGenAI, Modality, GenerateContentResponse, GenerateContentParameters, Type, ApiError, FinishReason, MediaModality } from "@google/genai";
+import { RecapProvider, RecapScriptOptions, RecapScriptResult, RecapStyle, TranslationSegment } from "./provider";
+import { TimedCue } from "../types";
+import { GEMINI_MODELS } from "../constants";
+import { NARRATOR } from "../utils/script";
+import { presetStyle, DEFAULT_PRESET } from "./presetService";
+import { getPcmDuration } from "../utils/audio";
+import { isRecord } from "../utils/guards";
+import { parseRecapResponse, parseTranscriptCues, parseTranslations, toRecapResult, checkLanguage, checkLength } from "../utils/recapValidation";
+import { RecapApiError, QuotaError, SafetyError, InvalidKeyError, NetworkError, CancelledError, InvalidResponseError } from "./errors";
+import { recordUsage, AUDIO_TOKENS_PER_SECOND, UsageOperation } from "./usageService";
 
-const API_KEY = process.env.API_KEY;
+let client: GoogleGenAI | null = null;
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+// Creates the client on first use so the app can load without a key, for
+// example when running against the mock provider.
+function getClient(): GoogleGenAI {
+  if (!client) {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new InvalidKeyError();
+    }
+    client = new GoogleGenAI({ apiKey });
+  }
+  return client;
+}
+
+// Gemini puts the wait in the error body as RetryInfo, e.g. "retryDelay": "37s".
+function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/retry[-_ ]?(?:delay|after)"?\s*[:=]\s*"?(\d+(?:\.\d+)?)/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+}
+
+// Sorts an SDK or network failure into one of the typed errors, or falls back
+// to a plain error with the given message.
+function toRecapError(error: unknown, fallbackMessage: string): Error {
+  if (error instanceof RecapApiError) return error;
+  if (isRecord(error) && error.name === 'AbortError') return new CancelledError();
+  if (error instanceof ApiError) {
+    const message = error.message ?? '';
+    if (error.status === 429 || message.includes('RESOURCE_EXHAUSTED')) return new QuotaError(parseRetryDelay(message));
+    if (error.status === 401 || error.status === 403 || /API_KEY_INVALID|API key not valid/i.test(message)) return new InvalidKeyError();
+    if (error.status >= 500) return new NetworkError();
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) return new NetworkError();
+  return new Error(fallbackMessage);
+}
+
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+// An empty answer is usually a blocked one; say so instead of "no text".
+function checkBlocked(response: GenerateContentResponse) {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  const reason = response.promptFeedback?.blockReason
+    ?? (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : undefined);
+  if (reason) {
+    throw new SafetyError(String(reason).toLowerCase().replace(/_/g, ' '));
+  }
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+// Sends a request and records its usage. Usage is recorded as soon as the
+// response arrives, since it is billed even when the answer is then rejected.
+// Audio length defaults to what the prompt's audio tokens work out to.
+async function generate(
+  operation: UsageOperation,
+  request: GenerateContentParameters,
+  audioSeconds?: (response: GenerateContentResponse) => number
+): Promise<GenerateContentResponse> {
+  const started = performance.now();
+  const response = await getClient().models.generateContent(request);
+  const usage = response.usageMetadata;
+  const promptAudioTokens = usage?.promptTokensDetails?.find(detail => detail.modality === MediaModality.AUDIO)?.tokenCount ?? 0;
+  recordUsage({
+    model: request.model,
+    operation,
+    inputTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+    audioSeconds: audioSeconds ? audioSeconds(response) : promptAudioTokens / AUDIO_TOKENS_PER_SECOND,
+    latencyMs: Math.round(performance.now() - started),
+  }, request.config?.abortSignal);
+  return response;
+}
 
-async function fileToGenerativePart(file: File) {
+async function fileToGenerativePart(file: Blob) {
   const base64EncodedDataPromise = new Promise<string>((resolve) => {
     const reader = new FileReader();
     reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
@@ -20,20 +98,22 @@ async function fileToGenerativePart(file: File) {
   };
 }
 
-export async function transcribeMedia(file: File): Promise<string> {
+async function transcribeMedia(file: File, signal?: AbortSignal): Promise<string> {
   try {
     const mediaPart = await fileToGenerativePart(file);
 
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+    const response = await generate('transcription', {
+      model: GEMINI_MODELS.text,
       contents: {
         parts: [
           mediaPart,
           { text: "Provide a detailed, verbatim transcript of the audio in this file. Do not add any extra commentary, just the spoken words." }
         ]
-      }
+      },
+      config: { abortSignal: signal },
     });
 
+    checkBlocked(response);
     const text = response.text;
     if (!text) {
       throw new Error("Transcription failed: No text in response.");
@@ -41,57 +121,300 @@ export async function transcribeMedia(file: File): Promise<string> {
     return text.trim();
   } catch (error) {
     console.error("Error transcribing media:", error);
-    throw new Error("Could not transcribe the file. The format may not be supported or the file may be corrupt.");
+    throw toRecapError(error, "Could not transcribe the file. The format may not be supported or the file may be corrupt.");
   }
 }
 
-export async function generateRecapScript(transcript: string, language: string): Promise<{ script: string; title: string }> {
+async function transcribeAudioChunk(wav: Blob, durationSeconds: number, signal?: AbortSignal): Promise<TimedCue[]> {
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: transcript,
+    const audioPart = await fileToGenerativePart(wav);
+
+    const response = await generate('transcription', {
+      model: GEMINI_MODELS.text,
+      contents: {
+        parts: [
+          audioPart,
+          { text: `Provide a detailed, verbatim transcript of this ${Math.round(durationSeconds)}-second audio clip, split into short segments of one or two sentences. Give each segment's start and end time in seconds from the start of the clip. Do not add any extra commentary, just the spoken words.` }
+        ]
+      },
       config: {
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              start: { type: Type.NUMBER, description: "Start time in seconds." },
+              end: { type: Type.NUMBER, description: "End time in seconds." },
+              text: { type: Type.STRING, description: "The words spoken in this segment." },
+            },
+            required: ['start', 'end', 'text'],
+          },
+        },
+      },
+    }, () => durationSeconds);
+
+    checkBlocked(response);
+    const text = response.text;
+    if (!text) {
+      throw new Error("Transcription failed: No text in response.");
+    }
+    const { cues, errors } = parseTranscriptCues(text);
+    if (!cues) throw new InvalidResponseError(errors.slice(0, 3));
+    return cues;
+  } catch (error) {
+    console.error("Error transcribing audio chunk:", error);
+    throw toRecapError(error, "Could not transcribe part of the audio.");
+  }
+}
+
+// The preset's instructions set the style; the output format is fixed here.
+// The recap comes back in sections, which become the video's chapters. A
+// plain section is prose; a dialogue section is a list of narration and
+// character lines that is written out as a tagged script.
+function recapConfig(language: string, dialogue: boolean, fromBeatSheet: boolean, instructions: string) {
+  const input = fromBeatSheet
+    ? "the provided beat sheet, a part-by-part summary of the movie's plot,"
+    : "the provided movie transcript";
+  const stringList = (description: string) => ({ type: Type.ARRAY, description, items: { type: Type.STRING } });
+
+  const sectionContent = dialogue
+    ? {
+      lines: {
+        type: Type.ARRAY,
+        description: `The section in the ${language} language, in reading order.`,
+        items: {
           type: Type.OBJECT,
           properties: {
-            script: {
+            speaker: {
               type: Type.STRING,
-              description: `An engaging movie recap script in the ${language} language.`,
+              description: `"${NARRATOR}" for narration, otherwise the name of the character speaking.`,
             },
-            title: {
+            text: {
               type: Type.STRING,
-              description: `A catchy YouTube title for the recap in the ${language} language.`,
+              description: `One paragraph of narration or one quoted character line, in ${language}.`,
+            },
+          },
+          required: ['speaker', 'text'],
+        },
+      },
+    }
+    : {
+      text: {
+        type: Type.STRING,
+        description: `The section of the recap script in the ${language} language. Separate paragraphs with blank lines.`,
+      },
+    };
+  const sectionRules = dialogue
+    ? `Each section's 'lines' perform the recap as an audio drama. Most lines are narration with the speaker "${NARRATOR}". At the key moments, let the characters speak: give each quoted character line its own entry with the character's name as the speaker. Use at most four distinct characters and keep their names consistent.`
+    : `Each section's 'text' is prose; separate its paragraphs with blank lines.`;
+
+  return {
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        sections: {
+          type: Type.ARRAY,
+          description: "The recap split into chapters, in order.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              heading: { type: Type.STRING, description: `A short chapter title in ${language}.` },
+              ...sectionContent,
             },
+            required: ['heading', ...Object.keys(sectionContent)],
           },
-          required: ['script', 'title'],
         },
-        systemInstruction: `You are an expert movie recap writer and YouTube content strategist. Your task is to process the provided movie transcript and generate two things in a single JSON object:
-    1. 'script': An exciting and engaging movie recap script in the ${language} language. Use a storytelling tone. This is for an audio recap, so do not mention 'video'.
-    2. 'title': A catchy, clickbait-style YouTube title for the recap, also in ${language}.
+        title: {
+          type: Type.STRING,
+          description: `A YouTube title for the recap in the ${language} language.`,
+        },
+        titleVariants: stringList(`Three to five alternative titles in ${language} for A/B testing.`),
+        description: { type: Type.STRING, description: `A YouTube description in ${language}, two or three short paragraphs, without chapters or hashtags.` },
+        hashtags: stringList("Three to five hashtags without the # sign."),
+        tags: stringList("Ten to fifteen YouTube search tags, mixing the movie title, actors, genre and recap keywords."),
+        thumbnailText: stringList(`Three options for thumbnail overlay text in ${language}, each at most five words.`),
+      },
+      required: ['sections', 'title', 'titleVariants', 'description', 'hashtags', 'tags', 'thumbnailText'],
+    },
+    systemInstruction: `${instructions}
+
+    Your task is to process ${input} and generate a complete publishing package in a single JSON object:
+    1. 'sections': The recap described above, in ${language}, split into four to eight chapters that follow the story. ${sectionRules}
+    2. 'title': The title described above, in ${language}.
+    3. 'titleVariants', 'description', 'hashtags', 'tags' and 'thumbnailText': Metadata for the YouTube upload, in ${language} where it is read by viewers.
+
+    Your response MUST be a valid JSON object with the keys "sections", "title", "titleVariants", "description", "hashtags", "tags" and "thumbnailText".`,
+  };
+}
+
+interface RecapAttempt {
+  result: RecapScriptResult | null;
+  errors: string[];   // The JSON is unusable
+  warnings: string[]; // The JSON is fine, but the script is off-language or off-length
+}
+
+function evaluateRecap(text: string, language: string, dialogue: boolean, style: RecapStyle): RecapAttempt {
+  const { response, errors } = parseRecapResponse(text, dialogue);
+  if (!response) return { result: null, errors, warnings: [] };
+  const result = toRecapResult(response, dialogue);
+  const warnings = [checkLanguage(result.script, language), checkLength(result.script, language, style.targetWords)]
+    .filter((problem): problem is string => problem !== null);
+  return { result, errors, warnings };
+}
+
+// Checks the answer against the schema, the requested language and the
+// target length. When anything is off, the model is asked once to fix its
+// answer, with the list of problems.
+async function generateRecapScript(transcript: string, language: string, options: RecapScriptOptions = {}): Promise<RecapScriptResult> {
+  const dialogue = options.dialogue ?? false;
+  const style = options.style ?? presetStyle(DEFAULT_PRESET, language);
+  try {
+    const { responseSchema, systemInstruction } = recapConfig(language, dialogue, options.fromBeatSheet ?? false, style.instructions);
+    const request = async (contents: string | { role: string; parts: { text: string }[] }[]) => {
+      const response = await generate('script', {
+        model: GEMINI_MODELS.text,
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema,
+          systemInstruction,
+          temperature: style.temperature,
+          abortSignal: options.signal,
+        },
+      });
+      checkBlocked(response);
+      return response.text ?? '';
+    };
+
+    const text = await request(transcript);
+    let attempt = evaluateRecap(text, language, dialogue, style);
+    const problems = [...attempt.errors, ...attempt.warnings];
+    if (problems.length > 0) {
+      console.warn("Asking the model to repair its recap:", problems);
+      const repairedText = await request([
+        { role: 'user', parts: [{ text: transcript }] },
+        { role: 'model', parts: [{ text }] },
+        { role: 'user', parts: [{ text: `Your response has these problems:\n${problems.map(problem => `- ${problem}`).join('\n')}\nReply with the complete corrected JSON object, following the same instructions and schema.` }] },
+      ]);
+      const repaired = evaluateRecap(repairedText, language, dialogue, style);
+      // A valid first answer is only replaced by a repair that is no worse
+      if (repaired.result && (!attempt.result || repaired.warnings.length <= attempt.warnings.length)) {
+        attempt = repaired;
+      }
+    }
+
+    if (!attempt.result) {
+      throw new InvalidResponseError(attempt.errors);
+    }
+    return attempt.warnings.length > 0 ? { ...attempt.result, warnings: attempt.warnings } : attempt.result;
+  } catch (error) {
+    console.error("Error generating recap script:", error);
+    throw toRecapError(error, "Could not generate recap script from the provided transcript.");
+  }
+}
+
+async function summarizeSegment(segment: string, part: number, totalParts: number, signal?: AbortSignal): Promise<string> {
+  try {
+    const response = await generate('summary', {
+      model: GEMINI_MODELS.text,
+      contents: segment,
+      config: {
+        systemInstruction: `You are a script supervisor preparing a beat sheet. The text provided is part ${part} of ${totalParts} of a movie transcript. List the plot beats of this part in the order they happen, one per line, each starting with "- ". Keep every character name exactly as it appears in the transcript, say who does what to whom, and include reveals, twists and turning points. Write in the language of the transcript. Reply with the list only.`,
+        temperature: 0.3,
+        abortSignal: signal,
+      },
+    });
+
+    checkBlocked(response);
+    const text = response.text?.trim();
+    if (!text) {
+      throw new Error("Failed to summarize: No text in response.");
+    }
+    return text;
+  } catch (error) {
+    console.error(`Error summarizing part ${part} of ${totalParts}:`, error);
+    throw toRecapError(error, `Could not summarize part ${part} of ${totalParts} of the transcript.`);
+  }
+}
+
+async function generateTitle(script: string, language: string, signal?: AbortSignal): Promise<string> {
+  try {
+    const response = await generate('title', {
+      model: GEMINI_MODELS.text,
+      contents: script,
+      config: {
+        systemInstruction: `You are an expert YouTube content strategist. Write one catchy, clickbait-style YouTube title in ${language} for the movie recap script provided. Reply with the title only, without quotes.`,
+        temperature: 0.9,
+        abortSignal: signal,
+      },
+    });
+
+    checkBlocked(response);
+    const text = response.text?.trim();
+    if (!text) {
+      throw new Error("Failed to generate title: No text in response.");
+    }
+    return text.replace(/^["'“]+|["'”]+$/g, '');
+  } catch (error) {
+    console.error("Error generating title:", error);
+    throw toRecapError(error, "Could not generate a title for this script.");
+  }
+}
 
-    Your response MUST be a valid JSON object with the keys "script" and "title".`,
-        temperature: 0.7,
+// Segments go in and come back numbered, so a skipped or merged line shows up
+// as a count mismatch instead of shifting every later line out of sync.
+async function translateSegments(segments: TranslationSegment[], language: string, signal?: AbortSignal): Promise<string[]> {
+  try {
+    const response = await generate('translation', {
+      model: GEMINI_MODELS.text,
+      contents: JSON.stringify(segments.map((segment, i) => ({
+        index: i + 1,
+        seconds: Math.round(segment.seconds * 10) / 10,
+        maxWords: segment.maxWords,
+        text: segment.text,
+      }))),
+      config: {
+        systemInstruction: `You are a dubbing translator. Translate each numbered line of a trailer or clip transcript into ${language} for a voice-over dub. Translate faithfully: do not summarize, merge, split or skip lines, and keep names as they are. Each translation is spoken in place of the original line, so it must be readable aloud in the line's "seconds": stay within "maxWords", choosing shorter wording rather than dropping meaning. Reply with exactly one translation per line, using the same index.`,
+        temperature: 0.3,
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              index: { type: Type.INTEGER, description: "The line's index from the input." },
+              text: { type: Type.STRING, description: `The line in ${language}.` },
+            },
+            required: ['index', 'text'],
+          },
+        },
       },
     });
 
+    checkBlocked(response);
     const text = response.text;
     if (!text) {
-      throw new Error("Failed to generate script: No text in response.");
+      throw new Error("Translation failed: No text in response.");
     }
-    const result = JSON.parse(text);
-    return result;
+    const { translations, errors } = parseTranslations(text, segments.length);
+    if (!translations) throw new InvalidResponseError(errors.slice(0, 3));
+    return translations;
   } catch (error) {
-    console.error("Error generating recap script:", error);
-    throw new Error("Could not generate recap script from the provided transcript.");
+    console.error("Error translating segments:", error);
+    throw toRecapError(error, "Could not translate these lines.");
   }
 }
 
-export async function generateAudio(script: string, voiceName: string = 'Puck'): Promise<string> {
+const spokenSeconds = (response: GenerateContentResponse) => getPcmDuration(response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data ?? '');
+
+async function synthesizeSpeech(text: string, voiceName: string, signal?: AbortSignal): Promise<string> {
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: script }] }],
+    const response = await generate('speech', {
+      model: GEMINI_MODELS.speech,
+      contents: [{ parts: [{ text }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
@@ -99,16 +422,29 @@ export async function generateAudio(script: string, voiceName: string = 'Puck'):
             prebuiltVoiceConfig: { voiceName: voiceName },
           },
         },
+        abortSignal: signal,
       },
-    });
+    }, spokenSeconds);
 
+    checkBlocked(response);
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!base64Audio) {
       throw new Error("Failed to generate audio: No audio data in response.");
     }
     return base64Audio;
   } catch (error) {
-    console.error("Error generating audio:", error);
-    throw new Error("Could not generate audio from the provided script.");
+    console.error("Error synthesizing speech:", error);
+    throw toRecapError(error, "Could not generate audio for this text.");
   }
 }
+
+export const geminiProvider: RecapProvider = {
+  name: 'gemini',
+  transcribeMedia,
+  transcribeAudioChunk,
+  generateRecapScript,
+  summarizeSegment,
+  generateTitle,
+  translateSegments,
+  synthesizeSpeech,
+};
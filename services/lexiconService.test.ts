@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { applyLexicon, exportLexiconJson, importLexiconEntries, mergeLexicons, parseLexiconJson } from './lexiconService';
+
+describe('applyLexicon', () => {
+  it('replaces whole words only in spaced scripts, ignoring case', () => {
+    expect(applyLexicon('NGUYEN met Nguyenova.', [{ term: 'Nguyen', respelling: 'Win' }])).toBe('Win met Nguyenova.');
+  });
+
+  it('replaces terms inside words in Thai', () => {
+    expect(applyLexicon('สวัสดีกรุงเทพครับ', [{ term: 'กรุงเทพ', respelling: 'บางกอก' }])).toBe('สวัสดีบางกอกครับ');
+  });
+
+  it('prefers the longest term and never rewrites a respelling', () => {
+    const entries = [
+      { term: 'Jo', respelling: 'Joe' },
+      { term: 'Jo Ann', respelling: 'Jo Anne' },
+    ];
+    expect(applyLexicon('Jo Ann and Jo.', entries)).toBe('Jo Anne and Joe.');
+  });
+
+  it('skips blank entries and escapes terms', () => {
+    expect(applyLexicon('Dr. Who? Dr Who?', [{ term: 'Dr.', respelling: 'Doctor' }, { term: ' ', respelling: 'x' }])).toBe('Doctor Who? Dr Who?');
+  });
+});
+
+describe('mergeLexicons', () => {
+  it('lets a recap entry win over a global one for the same term', () => {
+    expect(mergeLexicons(
+      [{ term: 'Nguyen', respelling: 'Nwin' }, { term: 'Kore', respelling: '' }],
+      [{ term: ' nguyen ', respelling: 'Win' }]
+    )).toEqual([{ term: ' nguyen ', respelling: 'Win' }]);
+  });
+});
+
+describe('parseLexiconJson', () => {
+  it('reads exported files and bare arrays, dropping malformed entries', () => {
+    const entries = [{ term: 'Nguyen', respelling: 'Win' }];
+    expect(parseLexiconJson(exportLexiconJson(entries))).toEqual(entries);
+    expect(parseLexiconJson('[{"term":"Nguyen","respelling":"Win"},{"term":3}]')).toEqual(entries);
+  });
+
+  it('rejects invalid JSON and files without entries', () => {
+    expect(() => parseLexiconJson('{')).toThrow('This file is not valid JSON.');
+    expect(() => parseLexiconJson('{"entries":[{"term":"Nguyen"}]}')).toThrow(/^No entries were found/);
+  });
+});
+
+describe('importLexiconEntries', () => {
+  it('replaces existing entries for the same term', () => {
+    expect(importLexiconEntries(
+      [{ term: 'Nguyen', respelling: 'Nwin' }, { term: 'Kore', respelling: 'Ko-ray' }],
+      [{ term: 'NGUYEN', respelling: 'Win' }]
+    )).toEqual([{ term: 'Kore', respelling: 'Ko-ray' }, { term: 'NGUYEN', respelling: 'Win' }]);
+  });
+});
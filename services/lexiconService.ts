@@ -0,0 +1,88 @@
+import { LexiconEntry } from "../types";
+import { isRecord, isString } from "../utils/guards";
+
+const LEXICON_KEY = "movieRecapLexicon"; // The global lexicon; per-recap entries live on the history item
+const LEXICON_FILE_VERSION = 1;
+
+// Terms written in scripts that separate words with spaces only match whole
+// words. Thai and Burmese have no spaces between words, so their terms match
+// anywhere in the text.
+const SPACED_SCRIPT_TERM = /^[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\p{N}\s'’.-]+$/u;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termKey = (term: string) => term.trim().toLowerCase();
+
+// Combines the global and per-recap lexicons; a recap entry wins over a
+// global entry for the same term.
+export function mergeLexicons(global: LexiconEntry[], project: LexiconEntry[]): LexiconEntry[] {
+  const merged = new Map<string, LexiconEntry>();
+  for (const entry of [...global, ...project]) {
+    if (entry.term.trim() && entry.respelling.trim()) merged.set(termKey(entry.term), entry);
+  }
+  return [...merged.values()];
+}
+
+// Replaces every listed term with its respelling in one pass, longest terms
+// first, so a respelling is never itself rewritten. Matching ignores case.
+export function applyLexicon(text: string, entries: LexiconEntry[]): string {
+  const usable = entries.filter(entry => entry.term.trim() && entry.respelling.trim());
+  if (usable.length === 0) return text;
+
+  const respellings = new Map(usable.map(entry => [termKey(entry.term), entry.respelling.trim()]));
+  const patterns = usable
+    .map(entry => entry.term.trim())
+    .sort((a, b) => b.length - a.length)
+    .map(term => SPACED_SCRIPT_TERM.test(term)
+      ? `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`
+      : escapeRegExp(term));
+  const matcher = new RegExp(patterns.join('|'), 'giu');
+  return text.replace(matcher, match => respellings.get(match.toLowerCase()) ?? match);
+}
+
+export function loadGlobalLexicon(): LexiconEntry[] {
+  const saved = localStorage.getItem(LEXICON_KEY);
+  if (!saved) return [];
+  try {
+    return normalizeEntries(JSON.parse(saved));
+  } catch (error) {
+    console.error("Ignoring unreadable saved lexicon", error);
+    return [];
+  }
+}
+
+export function saveGlobalLexicon(entries: LexiconEntry[]) {
+  localStorage.setItem(LEXICON_KEY, JSON.stringify(entries));
+}
+
+function normalizeEntries(values: unknown): LexiconEntry[] {
+  if (!Array.isArray(values)) return [];
+  return values.flatMap((value: unknown) =>
+    isRecord(value) && isString(value.term) && isString(value.respelling) ? [{ term: value.term, respelling: value.respelling }] : []
+  );
+}
+
+export function exportLexiconJson(entries: LexiconEntry[]): string {
+  return JSON.stringify({ version: LEXICON_FILE_VERSION, entries }, null, 2);
+}
+
+// Reads an exported lexicon file, or a bare array of entries.
+export function parseLexiconJson(json: string): LexiconEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  const entries = normalizeEntries(isRecord(data) ? data.entries : data);
+  if (entries.length === 0) {
+    throw new Error("No entries were found in this file. Each entry needs a term and a respelling.");
+  }
+  return entries;
+}
+
+// Adds imported entries, replacing existing entries for the same term.
+export function importLexiconEntries(existing: LexiconEntry[], imported: LexiconEntry[]): LexiconEntry[] {
+  const importedTerms = new Set(imported.map(entry => termKey(entry.term)));
+  return [...existing.filter(entry => !importedTerms.has(termKey(entry.term))), ...imported];
+}
@@ -0,0 +1,141 @@
+import { RecapProvider, RecapScriptOptions, RecapScriptResult, TranslationSegment } from "./provider";
+import { TimedCue } from "../types";
+import { encodePcm, TTS_SAMPLE_RATE } from "../utils/audio";
+import { splitParagraphs, splitSentences, NARRATOR } from "../utils/script";
+import { parseRecapResponse, toRecapResult } from "../utils/recapValidation";
+import { abortableSleep, InvalidResponseError } from "./errors";
+
+// A deterministic offline stand-in for Gemini. Text responses are canned and
+// derived from the input; speech is a tone whose length follows the text.
+
+// Simulated network latency, so progress UI can be seen working.
+const MOCK_LATENCY_MS = 300;
+// Speaking rate used to size the synthetic audio.
+const SECONDS_PER_CHARACTER = 0.06;
+const MIN_SPEECH_SECONDS = 0.5;
+
+const VOICE_FREQUENCIES: Record<string, number> = {
+  Kore: 330,
+  Puck: 220,
+  Charon: 165,
+  Fenrir: 196,
+  Zephyr: 262,
+};
+
+
+async function transcribeMedia(file: File, signal?: AbortSignal): Promise<string> {
+  await abortableSleep(MOCK_LATENCY_MS, signal);
+  return [
+    `This is a mock transcript for "${file.name}".`,
+    'A stranger arrives in a small town. Nobody trusts her at first.',
+    'She uncovers a secret the mayor has kept for twenty years.',
+    'In the final scene, the town gathers at the old bridge and the truth comes out.',
+  ].join('\n\n');
+}
+
+// One cue every few seconds, numbered by where it falls in the chunk.
+const MOCK_CUE_SECONDS = 4;
+
+async function transcribeAudioChunk(wav: Blob, durationSeconds: number, signal?: AbortSignal): Promise<TimedCue[]> {
+  await abortableSleep(MOCK_LATENCY_MS, signal);
+  const count = Math.max(1, Math.floor(durationSeconds / MOCK_CUE_SECONDS));
+  return Array.from({ length: count }, (_, i) => ({
+    start: i * MOCK_CUE_SECONDS,
+    end: Math.min(durationSeconds, (i + 1) * MOCK_CUE_SECONDS - 0.5),
+    text: `Mock line ${i + 1} of a ${Math.round(durationSeconds)}-second chunk (${wav.size} bytes).`,
+  }));
+}
+
+// Two fixed characters trade lines between the narrated beats.
+const MOCK_CHARACTERS = ['Mara', 'The Mayor'];
+
+// The reply Gemini would send for the recap schema, as JSON text: opening,
+// story and ending sections, with character lines in dialogue mode.
+function cannedRecapJson(language: string, beats: string[], dialogue: boolean): string {
+  const sections = [
+    { heading: 'Opening', paragraphs: [`(${language} mock narration) Our story begins quietly, in a place where everyone knows everyone and nothing ever seems to change. But nothing stays quiet for long, and one arrival is about to change everything.`] },
+    { heading: 'The Story', paragraphs: beats.map((beat, i) => `Beat ${i + 1}: ${beat}`) },
+    { heading: 'The Ending', paragraphs: ['And that is how it all ends. This recap was generated offline by the mock provider.'] },
+  ];
+  let lineNumber = 0;
+  return JSON.stringify({
+    sections: sections.map(({ heading, paragraphs }) => {
+      if (!dialogue) return { heading, text: paragraphs.join('\n\n') };
+      return {
+        heading,
+        lines: paragraphs.flatMap(text => {
+          const i = lineNumber++;
+          return [
+            { speaker: NARRATOR, text },
+            ...(i % 2 === 1 ? [{ speaker: MOCK_CHARACTERS[(i >> 1) % MOCK_CHARACTERS.length], text: `"Mock line ${i} from a character."` }] : []),
+          ];
+        }),
+      };
+    }),
+    title: `[${language}] The Twist Nobody Saw Coming (Mock Recap)`,
+    titleVariants: [`[${language}] Mock Title Variant A`, `[${language}] Mock Title Variant B`, `[${language}] Mock Title Variant C`],
+    description: `[${language}] A mock description of the recap.\n\nGenerated offline by the mock provider.`,
+    hashtags: ['MovieRecap', 'MockProvider', 'Offline'],
+    tags: ['movie recap', 'mock', 'offline test', language.toLowerCase()],
+    thumbnailText: ['NOBODY SAW IT COMING', 'THE TRUTH COMES OUT', 'WAIT FOR IT'],
+  });
+}
+
+// The canned reply goes through the same parser as Gemini's, so the checks
+// run offline too.
+async function generateRecapScript(transcript: string, language: string, options: RecapScriptOptions = {}): Promise<RecapScriptResult> {
+  await abortableSleep(MOCK_LATENCY_MS, options.signal);
+  const dialogue = options.dialogue ?? false;
+  const beats = splitParagraphs(transcript)
+    .flatMap(splitSentences)
+    .slice(0, 6);
+  const { response, errors } = parseRecapResponse(cannedRecapJson(language, beats.length > 0 ? beats : ['Something happens.'], dialogue), dialogue);
+  if (!response) throw new InvalidResponseError(errors);
+  return toRecapResult(response, dialogue);
+}
+
+async function summarizeSegment(segment: string, part: number, totalParts: number, signal?: AbortSignal): Promise<string> {
+  await abortableSleep(MOCK_LATENCY_MS, signal);
+  const beats = splitParagraphs(segment).flatMap(splitSentences).slice(0, 3);
+  return [`- Mock summary of ${segment.length} characters.`, ...beats.map(beat => `- ${beat}`)].join('\n');
+}
+
+async function generateTitle(script: string, language: string, signal?: AbortSignal): Promise<string> {
+  await abortableSleep(MOCK_LATENCY_MS, signal);
+  return `[${language}] You Won't Believe This Ending (${script.length} characters)`;
+}
+
+// Keeps the first words that fit the budget, marked with the language.
+async function translateSegments(segments: TranslationSegment[], language: string, signal?: AbortSignal): Promise<string[]> {
+  await abortableSleep(MOCK_LATENCY_MS, signal);
+  return segments.map(segment => `(${language}) ${segment.text.split(/\s+/).slice(0, Math.max(1, segment.maxWords - 1)).join(' ')}`);
+}
+
+// A sine tone at the voice's pitch, pulsed per word so it has a speech-like envelope.
+async function synthesizeSpeech(text: string, voiceName: string, signal?: AbortSignal): Promise<string> {
+  await abortableSleep(MOCK_LATENCY_MS, signal);
+  const seconds = Math.max(MIN_SPEECH_SECONDS, text.length * SECONDS_PER_CHARACTER);
+  const length = Math.round(seconds * TTS_SAMPLE_RATE);
+  const frequency = VOICE_FREQUENCIES[voiceName] ?? 220;
+  const words = Math.max(1, text.split(/\s+/).filter(Boolean).length);
+  const wordLength = length / words;
+
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const wordPosition = (i % wordLength) / wordLength;
+    const envelope = wordPosition < 0.8 ? Math.sin((Math.PI * wordPosition) / 0.8) : 0; // Short gap between words
+    samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / TTS_SAMPLE_RATE) * envelope * 0.3 * 0x7fff);
+  }
+  return encodePcm(samples);
+}
+
+export const mockProvider: RecapProvider = {
+  name: 'mock',
+  transcribeMedia,
+  transcribeAudioChunk,
+  generateRecapScript,
+  summarizeSegment,
+  generateTitle,
+  translateSegments,
+  synthesizeSpeech,
+};
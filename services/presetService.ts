@@ -0,0 +1,167 @@
+import { RecapPreset, TargetLength } from "../types";
+import { RecapStyle } from "./provider";
+import { isNumber, isRecord, isString } from "../utils/guards";
+
+const PRESETS_KEY = "movieRecapPresets";          // Custom presets only; built-ins ship with the app
+const SELECTED_PRESET_KEY = "movieRecapSelectedPreset";
+const PRESET_FILE_VERSION = 1;
+
+// Typical narration pace, used to turn a length in minutes into words.
+export const WORDS_PER_MINUTE = 150;
+
+export const TEMPLATE_VARIABLES = ['{language}', '{length}', '{tone}'];
+
+const WRITER_ROLE = "You are an expert movie recap writer and YouTube content strategist.";
+
+export const BUILT_IN_PRESETS: RecapPreset[] = [
+  {
+    id: 'classic',
+    name: 'Classic Recap',
+    tone: 'storytelling',
+    promptTemplate: `${WRITER_ROLE} Write an exciting and engaging movie recap script in the {language} language, {length}. Use a {tone} tone. This is for an audio recap, so do not mention 'video'. The title is a catchy, clickbait-style YouTube title, also in {language}.`,
+    targetLength: null,
+    temperature: 0.7,
+    builtIn: true,
+  },
+  {
+    id: 'teaser',
+    name: 'Spoiler-Free Teaser',
+    tone: 'suspenseful, intriguing',
+    promptTemplate: `${WRITER_ROLE} Write a spoiler-free teaser for the movie in the {language} language, {length}. Use a {tone} tone. Set up the characters, the world and the central conflict, then stop before the second half: never reveal twists, deaths or the ending, and close with a question that makes the listener want to watch. Do not mention 'video'. The title teases the premise without spoilers, in {language}.`,
+    targetLength: { value: 2, unit: 'minutes' },
+    temperature: 0.8,
+    builtIn: true,
+  },
+  {
+    id: 'ending-explained',
+    name: 'Ending Explained',
+    tone: 'analytical but gripping',
+    promptTemplate: `${WRITER_ROLE} Write a full recap of the movie in the {language} language that ends with a clear explanation of the ending, {length}. Use a {tone} tone. Cover every major twist, explain what the final scenes mean and how the clues earlier in the story set them up. Do not mention 'video'. The title promises the ending explained, in {language}.`,
+    targetLength: { value: 10, unit: 'minutes' },
+    temperature: 0.6,
+    builtIn: true,
+  },
+  {
+    id: 'roast',
+    name: 'Comedic Roast',
+    tone: 'sarcastic, playful',
+    promptTemplate: `${WRITER_ROLE} Write a comedic roast recap of the movie in the {language} language, {length}. Use a {tone} tone: poke fun at plot holes, questionable decisions and clichés, while still telling the story in order so the listener can follow it. Keep the jokes good-natured, with no insults about real people. Do not mention 'video'. The title is funny and clickable, in {language}.`,
+    targetLength: { value: 5, unit: 'minutes' },
+    temperature: 0.9,
+    builtIn: true,
+  },
+  {
+    id: 'kids',
+    name: 'Kids-Friendly',
+    tone: 'warm, simple and cheerful',
+    promptTemplate: `You are a children's storyteller. Retell the movie for children aged 6 to 10 in the {language} language, {length}. Use a {tone} tone, short sentences and simple words. Leave out violence, frightening details and romance beyond friendship, and end on a kind lesson from the story. Do not mention 'video'. The title is friendly and fun, in {language}.`,
+    targetLength: { value: 3, unit: 'minutes' },
+    temperature: 0.7,
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_PRESET = BUILT_IN_PRESETS[0];
+
+// The target length in words, for checking the written script.
+export function targetWordCount(length: TargetLength | null): number | undefined {
+  if (!length) return undefined;
+  return length.unit === 'words' ? length.value : Math.round(length.value * WORDS_PER_MINUTE);
+}
+
+// Describes the target length in the words the template's {length} stands for.
+export function describeLength(length: TargetLength | null): string {
+  if (!length) return 'at whatever length the story needs';
+  if (length.unit === 'words') return `about ${length.value} words long`;
+  const minutes = `${length.value} minute${length.value === 1 ? '' : 's'}`;
+  return `about ${minutes} long when read aloud (roughly ${Math.round(length.value * WORDS_PER_MINUTE)} words)`;
+}
+
+// Replaces {name} placeholders; unknown ones are left as written.
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) => variables[name] ?? placeholder);
+}
+
+// The writing instructions a preset gives the model for the given language.
+export function presetStyle(preset: RecapPreset, language: string): RecapStyle {
+  return {
+    instructions: renderPromptTemplate(preset.promptTemplate, {
+      language,
+      length: describeLength(preset.targetLength),
+      tone: preset.tone,
+    }),
+    temperature: preset.temperature,
+    targetWords: targetWordCount(preset.targetLength),
+  };
+}
+
+export function newPresetId(): string {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Fills in missing fields of a preset read from storage or a file, or
+// returns null when it is not a preset at all.
+function normalizePreset(value: unknown): RecapPreset | null {
+  if (!isRecord(value) || !isString(value.name) || !isString(value.promptTemplate)) return null;
+  const length = value.targetLength;
+  return {
+    id: isString(value.id) ? value.id : newPresetId(),
+    name: value.name,
+    tone: isString(value.tone) ? value.tone : DEFAULT_PRESET.tone,
+    promptTemplate: value.promptTemplate,
+    targetLength: isRecord(length) && isNumber(length.value) && (length.unit === 'minutes' || length.unit === 'words')
+      ? { value: length.value, unit: length.unit }
+      : null,
+    temperature: isNumber(value.temperature) ? Math.min(2, Math.max(0, value.temperature)) : DEFAULT_PRESET.temperature,
+  };
+}
+
+// Built-in presets followed by the user's own.
+export function loadPresets(): RecapPreset[] {
+  const saved = localStorage.getItem(PRESETS_KEY);
+  if (!saved) return BUILT_IN_PRESETS;
+  try {
+    const custom = (JSON.parse(saved) as unknown[]).map(normalizePreset).filter((preset): preset is RecapPreset => preset !== null);
+    return [...BUILT_IN_PRESETS, ...custom];
+  } catch (error) {
+    console.error("Ignoring unreadable saved presets", error);
+    return BUILT_IN_PRESETS;
+  }
+}
+
+export function savePresets(presets: RecapPreset[]) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+}
+
+export function loadSelectedPresetId(): string {
+  return localStorage.getItem(SELECTED_PRESET_KEY) ?? DEFAULT_PRESET.id;
+}
+
+export function saveSelectedPresetId(id: string) {
+  localStorage.setItem(SELECTED_PRESET_KEY, id);
+}
+
+// Serializes presets for sharing between browsers or channels.
+export function exportPresetsJson(presets: RecapPreset[]): string {
+  return JSON.stringify({
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ builtIn, ...preset }) => preset),
+  }, null, 2);
+}
+
+// Reads presets from an exported file, or a bare array or single preset.
+// Imported presets get new ids so they never replace existing ones.
+export function parsePresetsJson(json: string): RecapPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  const entries: unknown[] = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.presets) ? data.presets : [data];
+  const presets = entries.map(normalizePreset).filter((preset): preset is RecapPreset => preset !== null);
+  if (presets.length === 0) {
+    throw new Error("No presets were found in this file. Each preset needs a name and a promptTemplate.");
+  }
+  return presets.map(preset => ({ ...preset, id: newPresetId() }));
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { validateProjectBundle, PROJECT_FORMAT, PROJECT_SCHEMA_VERSION } from './projectService';
+
+const publishing = {
+  titleVariants: ['A', 'B'],
+  description: 'What happens.',
+  hashtags: ['recap'],
+  tags: ['movie recap'],
+  thumbnailText: ['WAIT FOR IT'],
+  chapters: [{ title: 'Opening', paragraphIndex: 0 }, { title: 'Ending', paragraphIndex: 2 }],
+  chapterParagraphs: 3,
+};
+
+const version = {
+  version: 1,
+  title: 'The Heist',
+  script: 'One.\n\nTwo.\n\nThree.',
+  segments: [{ start: 0, end: 1.5, text: 'One.', paragraphIndex: 0 }],
+  speakerVoices: { NARRATOR: 'Kore' },
+  voice: 'Kore',
+  voicedLexicon: [{ term: 'Nguyen', respelling: 'Win' }],
+  publishing,
+  audioId: 7,
+  timestamp: '2026-01-01T00:00:00.000Z',
+};
+
+const bundle = (overrides: { version?: object; project?: object } = {}) => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_SCHEMA_VERSION,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  project: {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    versions: [{ ...version, ...overrides.version }],
+    preset: { id: 'p1', name: 'Classic', tone: 'dramatic', promptTemplate: 'Recap in {language}.', targetLength: { value: 8, unit: 'minutes' }, temperature: 0.8 },
+    settings: { dialogue: false, paragraphGapMs: 400 },
+    ...overrides.project,
+  },
+  audio: { 7: 'AAAA' },
+});
+
+describe('validateProjectBundle', () => {
+  it('accepts a complete bundle', () => {
+    expect(validateProjectBundle(bundle())).toEqual([]);
+  });
+
+  it('accepts a version without the optional fields', () => {
+    const { segments, speakerVoices, voice, voicedLexicon, publishing: _, ...bare } = version;
+    expect(validateProjectBundle({ ...bundle(), project: { timestamp: bare.timestamp, versions: [bare] } })).toEqual([]);
+  });
+
+  it('rejects an empty publishing package', () => {
+    expect(validateProjectBundle(bundle({ version: { publishing: {} } }))).toEqual(['project.versions[0].publishing is malformed.']);
+  });
+
+  it('rejects chapters without a whole paragraph index', () => {
+    const chapters = [{ title: 'Opening', paragraphIndex: 0.5 }];
+    expect(validateProjectBundle(bundle({ version: { publishing: { ...publishing, chapters } } }))).toHaveLength(1);
+    expect(validateProjectBundle(bundle({ version: { publishing: { ...publishing, chapters: [{ title: 'Opening', paragraphIndex: '0' }] } } }))).toHaveLength(1);
+  });
+
+  it('rejects publishing lists that are not strings', () => {
+    expect(validateProjectBundle(bundle({ version: { publishing: { ...publishing, tags: [1, 2] } } }))).toHaveLength(1);
+  });
+
+  it('rejects malformed voices, lexicon and segments', () => {
+    expect(validateProjectBundle(bundle({ version: { speakerVoices: { NARRATOR: 3 } } }))).toEqual(['project.versions[0].speakerVoices must map speakers to voice names.']);
+    expect(validateProjectBundle(bundle({ version: { voice: 5 } }))).toEqual(['project.versions[0].voice must be a string.']);
+    expect(validateProjectBundle(bundle({ version: { voicedLexicon: [{ term: 'x' }] } }))).toEqual(['project.versions[0].voicedLexicon is malformed.']);
+    expect(validateProjectBundle(bundle({ version: { segments: [{ start: 0, end: 1, text: 'One.' }] } }))).toEqual(['project.versions[0].segments is malformed.']);
+  });
+
+  it('rejects a preset with bad numbers or length', () => {
+    const preset = bundle().project.preset;
+    expect(validateProjectBundle(bundle({ project: { preset: { ...preset, temperature: 'hot' } } }))).toEqual(['project.preset is malformed.']);
+    expect(validateProjectBundle(bundle({ project: { preset: { ...preset, targetLength: { value: 8, unit: 'hours' } } } }))).toEqual(['project.preset is malformed.']);
+    expect(validateProjectBundle(bundle({ project: { preset: { ...preset, targetLength: null } } }))).toEqual([]);
+  });
+
+  it('reports versions whose audio is missing', () => {
+    expect(validateProjectBundle({ ...bundle(), audio: {} })).toEqual(['The audio of project.versions[0] is missing.']);
+  });
+
+  it('rejects data that is not a bundle', () => {
+    expect(validateProjectBundle(null)).toEqual(['"project" is missing.']);
+    expect(validateProjectBundle(bundle({ project: { versions: [] } }))).toEqual(['project.versions must be a non-empty array.']);
+  });
+});
@@ -0,0 +1,211 @@
+import JSZip from "jszip";
+import { HistoryItem } from "../types";
+import { createWavBlob, readWavPcm } from "../utils/audio";
+import { safeFileName } from "../utils/recapZip";
+import { JsonRecord, isBoolean, isNumber, isRecord, isString } from "../utils/guards";
+import { currentVersion, importHistoryItem, loadHistoryAudio, newHistoryId } from "./storageService";
+import { loadGlobalLexicon, mergeLexicons } from "./lexiconService";
+
+// A recap with every input, setting and output needed to reproduce it, as
+// exchanged between copies of the app. JSON bundles carry the audio inline as
+// base64 16-bit mono PCM at 24 kHz; ZIP bundles hold the same JSON as
+// project.json, with each audio as audio/<audioId>.wav instead.
+export interface ProjectBundle {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Omit<HistoryItem, 'id'>;
+  audio: Record<string, string>; // Base64 PCM by audio id
+}
+
+export type ProjectBundleKind = 'zip' | 'json';
+
+export const PROJECT_FORMAT = 'movie-recap-project';
+// Bump when the bundle changes shape, and add a migration from the old version.
+export const PROJECT_SCHEMA_VERSION = 1;
+
+const PROJECT_FILE = 'project.json';
+const audioPath = (audioId: string | number) => `audio/${audioId}.wav`;
+
+// Upgrades a bundle from the version it is keyed by to the next one.
+// Version 0 is a history entry as the app kept it in localStorage before
+// IndexedDB: one version, no format marker, audio inline as audioBase64.
+const MIGRATIONS: Record<number, (data: JsonRecord) => JsonRecord> = {
+  0: ({ id, audioBase64, ...record }) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    exportedAt: record.timestamp,
+    project: { timestamp: record.timestamp, versions: [{ ...record, version: 1, audioId: id }] },
+    audio: { [String(id)]: audioBase64 },
+  }),
+};
+
+function schemaVersion(data: JsonRecord): number {
+  if (data.format === PROJECT_FORMAT && isNumber(data.version) && Number.isInteger(data.version)) return data.version;
+  if (isString(data.audioBase64) && isString(data.script)) return 0;
+  throw new Error("This file is not a recap project.");
+}
+
+function migrate(data: unknown): JsonRecord {
+  if (!isRecord(data)) throw new Error("This file is not a recap project.");
+  let bundle = data;
+  let version = schemaVersion(bundle);
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`This project was exported by a newer version of the app (schema ${version}). Update the app and try again.`);
+  }
+  while (version < PROJECT_SCHEMA_VERSION) {
+    bundle = MIGRATIONS[version](bundle);
+    version = schemaVersion(bundle);
+  }
+  return bundle;
+}
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isListOf = (check: (value: unknown) => boolean) => (value: unknown) => Array.isArray(value) && value.every(check);
+const isIndex = (value: unknown) => isNumber(value) && Number.isInteger(value) && value >= 0;
+const isStringList = isListOf(isString);
+const isTimedText = (value: unknown) => isRecord(value) && isNumber(value.start) && isNumber(value.end) && isString(value.text);
+const isSpeechSegment = (value: unknown) => isTimedText(value) && isRecord(value) && isIndex(value.paragraphIndex);
+const isLexiconEntry = (value: unknown) => isRecord(value) && isString(value.term) && isString(value.respelling);
+const isStringRecord = (value: unknown) => isRecord(value) && Object.values(value).every(isString);
+const isChapterMarker = (value: unknown) => isRecord(value) && isString(value.title) && isIndex(value.paragraphIndex);
+const isPublishingPackage = (value: unknown) => isRecord(value)
+  && isStringList(value.titleVariants) && isString(value.description) && isStringList(value.hashtags)
+  && isStringList(value.tags) && isStringList(value.thumbnailText) && isListOf(isChapterMarker)(value.chapters)
+  && isOptional(value.chapterParagraphs, isIndex);
+const isTargetLength = (value: unknown) => value === null
+  || (isRecord(value) && isNumber(value.value) && value.value > 0 && (value.unit === 'minutes' || value.unit === 'words'));
+const isPreset = (value: unknown) => isRecord(value)
+  && isString(value.id) && isString(value.name) && isString(value.tone) && isString(value.promptTemplate)
+  && isTargetLength(value.targetLength) && isNumber(value.temperature) && isOptional(value.builtIn, isBoolean);
+const isSettings = (value: unknown) => isRecord(value)
+  && isBoolean(value.dialogue) && isNumber(value.paragraphGapMs) && isOptional(value.beatSheet, isString);
+const isSource = (value: unknown) => isRecord(value)
+  && isOptional(value.fileName, isString) && isOptional(value.youtubeUrl, isString) && isOptional(value.cues, isListOf(isTimedText));
+
+// Checks a bundle of the current version. Returns the problems found.
+export function validateProjectBundle(data: unknown): string[] {
+  if (!isRecord(data) || !isRecord(data.project)) return ['"project" is missing.'];
+  const { project } = data;
+  const audio = isRecord(data.audio) ? data.audio : {};
+  const errors: string[] = [];
+  if (!isRecord(data.audio)) errors.push('"audio" is missing.');
+  if (!isString(project.timestamp)) errors.push('project.timestamp must be a string.');
+
+  if (!Array.isArray(project.versions) || project.versions.length === 0) {
+    errors.push('project.versions must be a non-empty array.');
+  } else {
+    project.versions.forEach((version: unknown, i: number) => {
+      const name = `project.versions[${i}]`;
+      if (!isRecord(version)) {
+        errors.push(`${name} must be an object.`);
+        return;
+      }
+      if (!isNumber(version.version) || !isNumber(version.audioId)) errors.push(`${name} needs numeric "version" and "audioId".`);
+      if (!isString(version.title) || !isString(version.script) || !isString(version.timestamp)) errors.push(`${name} needs "title", "script" and "timestamp" strings.`);
+      if (!isOptional(version.segments, isListOf(isSpeechSegment))) errors.push(`${name}.segments is malformed.`);
+      if (!isOptional(version.durationSeconds, isNumber)) errors.push(`${name}.durationSeconds must be a number.`);
+      if (!isOptional(version.voice, isString)) errors.push(`${name}.voice must be a string.`);
+      if (!isOptional(version.speakerVoices, isStringRecord)) errors.push(`${name}.speakerVoices must map speakers to voice names.`);
+      if (!isOptional(version.dialogue, isBoolean)) errors.push(`${name}.dialogue must be true or false.`);
+      if (!isOptional(version.voicedLexicon, isListOf(isLexiconEntry))) errors.push(`${name}.voicedLexicon is malformed.`);
+      if (!isOptional(version.publishing, isPublishingPackage)) errors.push(`${name}.publishing is malformed.`);
+      if (isNumber(version.audioId) && !isString(audio[version.audioId])) errors.push(`The audio of ${name} is missing.`);
+    });
+  }
+
+  if (!isOptional(project.language, isString) || !isOptional(project.transcript, isString)) errors.push('project.language and project.transcript must be strings.');
+  if (!isOptional(project.tags, isStringList)) errors.push('project.tags must be a list of strings.');
+  if (!isOptional(project.lexicon, isListOf(isLexiconEntry))) errors.push('project.lexicon is malformed.');
+  if (!isOptional(project.preset, isPreset)) errors.push('project.preset is malformed.');
+  if (!isOptional(project.settings, isSettings)) errors.push('project.settings is malformed.');
+  if (!isOptional(project.source, isSource)) errors.push('project.source is malformed.');
+  return errors;
+}
+
+// Bundles a history item with the audio of all its versions. Each version
+// carries the merged lexicon its audio was voiced with, since the global
+// lexicon does not travel with the project; versions saved before that was
+// recorded get the lexicon as it is now.
+export async function exportProject(item: HistoryItem, kind: ProjectBundleKind): Promise<{ blob: Blob; fileName: string }> {
+  const { id, ...rest } = item;
+  const currentLexicon = mergeLexicons(loadGlobalLexicon(), item.lexicon ?? []);
+  const project = { ...rest, versions: item.versions.map(version => ({ ...version, voicedLexicon: version.voicedLexicon ?? currentLexicon })) };
+  const audio: Record<string, string> = {};
+  for (const audioId of new Set(item.versions.map(version => version.audioId))) {
+    audio[audioId] = await loadHistoryAudio(audioId);
+  }
+  const bundle: ProjectBundle = { format: PROJECT_FORMAT, version: PROJECT_SCHEMA_VERSION, exportedAt: new Date().toISOString(), project, audio };
+  const baseName = safeFileName(currentVersion(item).title);
+
+  if (kind === 'json') {
+    return { blob: new Blob([JSON.stringify(bundle)], { type: 'application/json' }), fileName: `${baseName}.recap.json` };
+  }
+  const zip = new JSZip();
+  zip.file(PROJECT_FILE, JSON.stringify({ ...bundle, audio: {} }, null, 2));
+  for (const [audioId, base64Audio] of Object.entries(audio)) {
+    zip.file(audioPath(audioId), createWavBlob(base64Audio));
+  }
+  return { blob: await zip.generateAsync({ type: 'blob' }), fileName: `${baseName}.recap.zip` };
+}
+
+// Reads a ZIP bundle's JSON and puts its WAV files back in as inline audio.
+async function readZipBundle(file: File): Promise<unknown> {
+  const zip = await JSZip.loadAsync(file);
+  const projectFile = zip.file(PROJECT_FILE);
+  if (!projectFile) {
+    throw new Error(`This ZIP file has no ${PROJECT_FILE}; it is not a recap project.`);
+  }
+  const data: unknown = JSON.parse(await projectFile.async('string'));
+  if (!isRecord(data) || data.format !== PROJECT_FORMAT || !isRecord(data.project) || !Array.isArray(data.project.versions)) {
+    return data;
+  }
+  const audio: JsonRecord = isRecord(data.audio) ? { ...data.audio } : {};
+  const audioIds = data.project.versions.map((version: unknown) => (isRecord(version) ? version.audioId : undefined));
+  for (const audioId of new Set(audioIds.filter(isNumber))) {
+    const wav = zip.file(audioPath(audioId));
+    if (!wav) continue; // Reported by validation
+    try {
+      audio[audioId] = readWavPcm(await wav.async('arraybuffer'));
+    } catch (error) {
+      throw new Error(`${audioPath(audioId)} could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { ...data, audio };
+}
+
+// Imports a project bundle as a new history item. Ids are issued afresh so
+// the project never collides with the importer's own recaps.
+export async function importProject(file: File): Promise<HistoryItem> {
+  let data: unknown;
+  try {
+    data = /\.zip$/i.test(file.name) || file.type.includes('zip') ? await readZipBundle(file) : JSON.parse(await file.text());
+  } catch (error) {
+    console.error("Error reading project bundle:", error);
+    throw new Error(error instanceof SyntaxError ? "This file is not valid JSON; it is not a recap project." : (error instanceof Error && error.message) || "Could not read this file.");
+  }
+
+  const migrated = migrate(data);
+  const errors = validateProjectBundle(migrated);
+  if (errors.length > 0) {
+    throw new Error(`This project bundle is damaged: ${errors.slice(0, 3).join(' ')}`);
+  }
+  const bundle = migrated as unknown as ProjectBundle; // Checked by the validation above
+
+  const audioIds = new Map<number, number>();
+  for (const version of bundle.project.versions) {
+    if (!audioIds.has(version.audioId)) audioIds.set(version.audioId, newHistoryId());
+  }
+  // The exporter's global entries become recap entries here, so re-voicing
+  // sounds as it did for them; the recap's own entries still win
+  const { versions } = bundle.project;
+  const lexicon = mergeLexicons(versions[versions.length - 1].voicedLexicon ?? [], bundle.project.lexicon ?? []);
+  const item: HistoryItem = {
+    ...bundle.project,
+    id: newHistoryId(),
+    versions: versions.map(version => ({ ...version, audioId: audioIds.get(version.audioId)! })),
+    ...(lexicon.length > 0 ? { lexicon } : {}),
+  };
+  await importHistoryItem(item, [...audioIds].map(([oldId, audioId]) => ({ audioId, base64Audio: bundle.audio[oldId] })));
+  return item;
+}
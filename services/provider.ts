@@ -0,0 +1,96 @@
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { TimedCue, PublishingPackage } from "../types";
+
+export type ProviderName = 'gemini' | 'mock';
+
+// Writing instructions from a style preset, with its variables filled in.
+export interface RecapStyle {
+  instructions: string;
+  temperature: number;
+  targetWords?: number; // The script is checked against this when set
+}
+
+export interface RecapScriptOptions {
+  // Write character lines as speaker-tagged paragraphs (see utils/script.ts)
+  dialogue?: boolean;
+  // The input is a beat sheet built from a long transcript, not the transcript itself
+  fromBeatSheet?: boolean;
+  // Tone, length and focus of the recap; the default preset when omitted
+  style?: RecapStyle;
+  signal?: AbortSignal;
+}
+
+// One timed line of a source transcript to translate for a dub.
+export interface TranslationSegment {
+  text: string;
+  seconds: number;  // How long the original line is spoken for
+  maxWords: number; // Most words that can be read aloud in that time
+}
+
+export interface RecapScriptResult {
+  script: string;
+  title: string;
+  publishing?: PublishingPackage;
+  // Problems the script still has after the repair request, such as the
+  // wrong language or length; shown to the user rather than failing the run
+  warnings?: string[];
+}
+
+// The model calls the recap pipeline is built on. Chunking, stitching and
+// retries live in recapService and work the same for every provider.
+// Providers report failures as the typed errors in errors.ts and stop when
+// the optional signal aborts.
+export interface RecapProvider {
+  name: ProviderName;
+  transcribeMedia(file: File, signal?: AbortSignal): Promise<string>;
+  // Transcribes one chunk of a long recording (a 16 kHz mono WAV), with cue
+  // times in seconds from the start of the chunk
+  transcribeAudioChunk(wav: Blob, durationSeconds: number, signal?: AbortSignal): Promise<TimedCue[]>;
+  generateRecapScript(transcript: string, language: string, options?: RecapScriptOptions): Promise<RecapScriptResult>;
+  // Condenses one part of a long transcript into a list of plot beats
+  summarizeSegment(segment: string, part: number, totalParts: number, signal?: AbortSignal): Promise<string>;
+  generateTitle(script: string, language: string, signal?: AbortSignal): Promise<string>;
+  // Translates each segment on its own, sized to fit its duration; returns
+  // one translation per segment, in order
+  translateSegments(segments: TranslationSegment[], language: string, signal?: AbortSignal): Promise<string[]>;
+  // Synthesizes one TTS-sized chunk and returns 24 kHz 16-bit mono PCM as base64
+  synthesizeSpeech(text: string, voiceName: string, signal?: AbortSignal): Promise<string>;
+}
+
+const providers: Record<ProviderName, RecapProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+function isProviderName(value: string | null | undefined): value is ProviderName {
+  return value === 'gemini' || value === 'mock';
+}
+
+// The `?provider=` query parameter wins over the RECAP_PROVIDER environment
+// variable. Without either, the mock is used when no API key is configured.
+function resolveProviderName(): ProviderName {
+  const fromQuery = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('provider')
+    : null;
+  if (isProviderName(fromQuery)) return fromQuery;
+
+  const fromEnv = process.env.RECAP_PROVIDER;
+  if (isProviderName(fromEnv)) return fromEnv;
+
+  return process.env.API_KEY ? 'gemini' : 'mock';
+}
+
+let activeProvider: RecapProvider | null = null;
+
+export function getProvider(): RecapProvider {
+  if (!activeProvider) {
+    activeProvider = providers[resolveProviderName()];
+  }
+  return activeProvider;
+}
+
+// Replaces the active provider, e.g. with a stub in tests.
+export function setProvider(provider: RecapProvider | null) {
+  activeProvider = provider;
+}
@@ -0,0 +1,435 @@
+import { chunkScript, windowTranscript } from "../utils/script";
+import { stitchPcm, splicePcm, decodeMediaToMono, encodeFloatWav, decodePcm, encodePcm, TTS_SAMPLE_RATE } from "../utils/audio";
+import { fitDubClips, DubFit, DEFAULT_MAX_SPEEDUP } from "../utils/dub";
+import { planMediaChunks, placeChunkCues } from "../utils/transcription";
+import { cuesToTranscript } from "../utils/subtitles";
+import { LexiconEntry, SpeechSegment, TimedCue } from "../types";
+import { getProvider, RecapScriptOptions, RecapScriptResult } from "./provider";
+import { applyLexicon } from "./lexiconService";
+import { WORDS_PER_MINUTE } from "./presetService";
+import { linkUsageRun } from "./usageService";
+import { RecapApiError, CancelledError, throwIfAborted, abortableSleep } from "./errors";
+
+export type ChunkStatus = 'pending' | 'active' | 'retrying' | 'done' | 'failed';
+
+export interface ChunkProgress {
+  chunks: ChunkStatus[];
+  completed: number;
+  total: number;
+}
+
+export type AudioProgress = ChunkProgress;
+
+export interface GenerateAudioOptions {
+  paragraphGapMs?: number; // Silence inserted between paragraphs
+  concurrency?: number;    // Maximum TTS requests in flight
+  maxRetries?: number;     // Extra attempts per chunk before giving up
+  maxChunkChars?: number;
+  speakerVoices?: Record<string, string>; // Voice per tagged speaker; narration and unmapped speakers use the main voice
+  lexicon?: LexiconEntry[]; // Respellings applied to the text sent to TTS; segments keep the script's spelling
+  dialogue?: boolean;       // Read speaker tags; off, a paragraph like "[Music] ..." is spoken as written
+  signal?: AbortSignal;
+  onProgress?: (progress: AudioProgress) => void;
+}
+
+export interface GeneratedAudio {
+  base64Audio: string;    // Stitched 16-bit PCM
+  segments: SpeechSegment[]; // Text of each synthesized chunk and where it sits in the audio
+}
+
+export interface TranscribeOptions {
+  chunkSeconds?: number;   // Length of each chunk of a large file
+  overlapSeconds?: number; // Audio shared by neighbouring chunks
+  onCues?: (cues: TimedCue[], chunksDone: number) => void; // Everything transcribed so far, after each chunk
+  timed?: boolean;         // Transcribe in timed chunks even when the file could go inline
+  previous?: PartialTranscript; // Chunks an interrupted run already transcribed, to continue after
+  signal?: AbortSignal;
+  onProgress?: (progress: ChunkProgress) => void;
+}
+
+// How far a chunked transcription got. Chunks are planned the same way for the
+// same file and chunk length, so a later run can pick up where it stopped.
+export interface PartialTranscript {
+  cues: TimedCue[];
+  chunksDone: number;
+}
+
+// One line of a translation dub: the source line's timing and words, and
+// what the dub says in their place.
+export interface DubLine {
+  start: number;
+  end: number;
+  source: string;
+  translation: string; // Left silent when empty
+}
+
+export interface TranslateOptions {
+  batchSize?: number; // Lines translated per request; neighbours give each other context
+  concurrency?: number;
+  maxRetries?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ChunkProgress) => void;
+}
+
+// Synthesized audio of one dub line, kept so unchanged lines are not voiced again.
+export interface DubClip {
+  spoken: string; // Text as sent to TTS, after the lexicon
+  voice: string;
+  base64Audio: string;
+}
+
+export interface DubOptions extends Omit<GenerateAudioOptions, 'paragraphGapMs' | 'speakerVoices' | 'dialogue'> {
+  maxSpeedup?: number;  // Fastest tempo a line may be sped up to before it overruns
+  previous?: DubTrack;  // Clips from an earlier run to reuse
+}
+
+export interface DubTrack {
+  base64Audio: string;        // The dub as one PCM track on the source's timeline
+  clips: (DubClip | null)[];  // Per line; null for silent lines
+  fits: (DubFit | null)[];
+}
+
+export interface BeatSheetOptions {
+  segmentChars?: number; // Largest transcript window summarized in one request
+  concurrency?: number;
+  maxRetries?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ChunkProgress) => void;
+}
+
+// Transcripts longer than this are better summarized part by part before the
+// recap is written; one request tends to come back truncated or generic.
+export const BEAT_SHEET_THRESHOLD_CHARS = 40000;
+export const DEFAULT_SEGMENT_CHARS = 15000;
+
+// Gemini rejects requests over 20 MB, and base64 inlining grows a file by a
+// third. Files whose encoding fits, with room left for the prompt, are sent
+// inline in one request; larger ones are decoded in the browser and
+// transcribed in chunks.
+const INLINE_REQUEST_MAX_BYTES = 20 * 1024 * 1024;
+const PROMPT_ALLOWANCE_BYTES = 512 * 1024;
+export const INLINE_MEDIA_MAX_BYTES = Math.floor((INLINE_REQUEST_MAX_BYTES - PROMPT_ALLOWANCE_BYTES) / 4) * 3;
+// Speech-recognition quality at a fraction of the size; five minutes of
+// 16-bit mono is under 10 MB.
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+export const DUB_BATCH_SIZE = 40;
+
+const RETRY_BASE_MS = 1000;
+
+// Typed errors say whether retrying can help; anything else, such as a
+// malformed response, is worth another attempt.
+const isRetryable = (error: unknown) => !(error instanceof RecapApiError) || error.retryable;
+
+// Calls the task until it succeeds, backing off exponentially between
+// attempts, or for as long as the API asked when that is longer. Errors the
+// user has to fix, like an invalid key, are thrown at once.
+async function withRetry<T>(
+  task: () => Promise<T>,
+  { maxRetries = 2, signal, describe, onRetry }: {
+    maxRetries?: number;
+    signal?: AbortSignal;
+    describe: string; // Names the call in logs
+    onRetry?: () => void;
+  }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted) throw new CancelledError();
+      console.error(`Error processing ${describe} (attempt ${attempt + 1}):`, error);
+      if (attempt >= maxRetries || !isRetryable(error)) throw error;
+      onRetry?.();
+      const retryAfterMs = error instanceof RecapApiError ? error.retryAfterMs ?? 0 : 0;
+      await abortableSleep(Math.max(RETRY_BASE_MS * 2 ** attempt, retryAfterMs), signal);
+    }
+  }
+}
+
+// Runs one task per chunk with limited concurrency, retrying each failed
+// chunk with backoff. Once any chunk gives up, the others are stopped and the
+// chunk's typed error, or its `failureMessage`, is thrown.
+async function runChunks<T>(
+  total: number,
+  task: (index: number, signal: AbortSignal) => Promise<T>,
+  { concurrency = 3, maxRetries = 2, signal, onProgress, describe, failureMessage }: {
+    concurrency?: number;
+    maxRetries?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: ChunkProgress) => void;
+    describe: (index: number) => string; // Names the chunk in logs
+    failureMessage: (index: number) => string;
+  }
+): Promise<T[]> {
+  const statuses: ChunkStatus[] = new Array(total).fill('pending');
+  const results: T[] = new Array(total);
+  let completed = 0;
+  const report = (index: number, status: ChunkStatus) => {
+    statuses[index] = status;
+    if (status === 'done') completed++;
+    onProgress?.({ chunks: [...statuses], completed, total });
+  };
+  onProgress?.({ chunks: [...statuses], completed, total });
+
+  // Aborted by the caller, or by the first chunk that fails
+  const stop = new AbortController();
+  linkUsageRun(stop.signal, signal);
+  const onAbort = () => stop.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) stop.abort();
+
+  let nextIndex = 0;
+  const worker = async () => {
+    while (!stop.signal.aborted && nextIndex < total) {
+      const index = nextIndex++;
+      report(index, 'active');
+      try {
+        results[index] = await withRetry(() => task(index, stop.signal), {
+          maxRetries,
+          signal: stop.signal,
+          describe: describe(index),
+          onRetry: () => report(index, 'retrying'),
+        });
+        report(index, 'done');
+      } catch (error) {
+        if (stop.signal.aborted) throw signal?.aborted ? new CancelledError() : error;
+        stop.abort();
+        report(index, 'failed');
+        throw error instanceof RecapApiError ? error : new Error(failureMessage(index));
+      }
+    }
+    throwIfAborted(signal);
+  };
+
+  try {
+    const workerCount = Math.max(1, Math.min(concurrency, total));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Transcribes a media file, in timed chunks when it is too large to send inline.
+export async function transcribeMedia(file: File, options: TranscribeOptions = {}): Promise<string> {
+  if (file.size <= INLINE_MEDIA_MAX_BYTES && !options.timed && !options.previous) {
+    const provider = getProvider();
+    return withRetry(() => provider.transcribeMedia(file, options.signal), { signal: options.signal, describe: 'media file' });
+  }
+  return cuesToTranscript(await transcribeInChunks(file, options));
+}
+
+// Decodes the audio track to 16 kHz mono, then transcribes overlapping chunks
+// one after another, reporting the merged cues as each chunk finishes.
+async function transcribeInChunks(file: File, options: TranscribeOptions): Promise<TimedCue[]> {
+  const { chunkSeconds = 240, overlapSeconds = 5, onCues, previous, signal, onProgress } = options;
+  const provider = getProvider();
+
+  let samples: Float32Array;
+  try {
+    samples = await decodeMediaToMono(await file.arrayBuffer(), TRANSCRIPTION_SAMPLE_RATE);
+  } catch (error) {
+    console.error("Error decoding media:", error);
+    throw new Error("Could not read the audio track of this file. Try converting it to MP3 or M4A first.");
+  }
+
+  const chunks = planMediaChunks(samples.length / TRANSCRIPTION_SAMPLE_RATE, chunkSeconds, overlapSeconds);
+  if (chunks.length === 0) {
+    throw new Error("Could not transcribe the file: it has no audio.");
+  }
+
+  const done = Math.min(previous?.chunksDone ?? 0, chunks.length);
+  const cues: TimedCue[] = [...(previous?.cues ?? [])];
+  await runChunks(chunks.length - done, async (offset, chunkSignal) => {
+    const index = done + offset;
+    const chunk = chunks[index];
+    const wav = encodeFloatWav([samples.subarray(
+      Math.round(chunk.start * TRANSCRIPTION_SAMPLE_RATE),
+      Math.round(chunk.end * TRANSCRIPTION_SAMPLE_RATE)
+    )], TRANSCRIPTION_SAMPLE_RATE);
+    const chunkCues = await provider.transcribeAudioChunk(wav, chunk.end - chunk.start, chunkSignal);
+    cues.push(...placeChunkCues(chunk, chunkCues, cues[cues.length - 1]));
+    onCues?.([...cues], index + 1);
+  }, {
+    concurrency: 1, // In order, so the transcript grows from the start
+    signal,
+    // Progress covers the whole file, counting the chunks done before
+    onProgress: onProgress && (progress => onProgress({
+      chunks: [...new Array<ChunkStatus>(done).fill('done'), ...progress.chunks],
+      completed: done + progress.completed,
+      total: chunks.length,
+    })),
+    describe: offset => `transcription chunk ${done + offset + 1}/${chunks.length}`,
+    failureMessage: offset => `Could not transcribe part ${done + offset + 1} of ${chunks.length} of the file.`,
+  });
+  return cues;
+}
+
+export function generateRecapScript(transcript: string, language: string, options: RecapScriptOptions = {}): Promise<RecapScriptResult> {
+  const provider = getProvider();
+  return withRetry(() => provider.generateRecapScript(transcript, language, options), { signal: options.signal, describe: 'recap script' });
+}
+
+export function generateTitle(script: string, language: string, signal?: AbortSignal): Promise<string> {
+  const provider = getProvider();
+  return withRetry(() => provider.generateTitle(script, language, signal), { signal, describe: 'title' });
+}
+
+// Splits a long transcript into windows and summarizes each into plot beats.
+// The result is plain text with one heading per part, meant to be reviewed and
+// edited before the recap is written from it.
+export async function generateBeatSheet(transcript: string, options: BeatSheetOptions = {}): Promise<string> {
+  const { segmentChars = DEFAULT_SEGMENT_CHARS, ...runOptions } = options;
+  const provider = getProvider();
+  const windows = windowTranscript(transcript, segmentChars);
+  if (windows.length === 0) {
+    throw new Error("Could not build a beat sheet: the transcript is empty.");
+  }
+
+  const beats = await runChunks(windows.length, (index, signal) => provider.summarizeSegment(windows[index], index + 1, windows.length, signal), {
+    ...runOptions,
+    describe: index => `transcript part ${index + 1}/${windows.length}`,
+    failureMessage: index => `Could not summarize part ${index + 1} of ${windows.length} of the transcript.`,
+  });
+  return beats.map((text, i) => `Part ${i + 1} of ${windows.length}\n${text.trim()}`).join('\n\n');
+}
+
+// Synthesizes the script chunk by chunk and returns the stitched PCM with chunk
+// timings. In dialogue scripts, speaker-tagged paragraphs are read by their mapped voice.
+export async function generateAudio(script: string, voiceName: string = 'Puck', options: GenerateAudioOptions = {}): Promise<GeneratedAudio> {
+  const { paragraphGapMs = 500, maxChunkChars, speakerVoices = {}, lexicon = [], dialogue = false, ...runOptions } = options;
+  const provider = getProvider();
+  const chunks = chunkScript(script, dialogue, maxChunkChars);
+  if (chunks.length === 0) {
+    throw new Error("Could not generate audio: the script is empty.");
+  }
+
+  const results = await runChunks(chunks.length, (index, signal) => {
+    const { text, speaker } = chunks[index];
+    return provider.synthesizeSpeech(applyLexicon(text, lexicon), (speaker && speakerVoices[speaker]) || voiceName, signal);
+  }, {
+    ...runOptions,
+    describe: index => `audio chunk ${index + 1}/${chunks.length}`,
+    failureMessage: index => `Could not generate audio for part ${index + 1} of ${chunks.length}.`,
+  });
+
+  const { base64Audio, spans } = stitchPcm(chunks.map((chunk, i) => ({
+    base64Audio: results[i],
+    gapAfterMs: chunk.endsParagraph ? paragraphGapMs : 0,
+  })));
+  return {
+    base64Audio,
+    segments: chunks.map((chunk, i) => ({ text: chunk.text, paragraphIndex: chunk.paragraphIndex, ...spans[i] })),
+  };
+}
+
+// Translates a timed transcript line by line for a dub. Each line is given a
+// word budget from its duration so the dub can be spoken in the same time.
+export async function translateCues(cues: TimedCue[], language: string, options: TranslateOptions = {}): Promise<DubLine[]> {
+  const { batchSize = DUB_BATCH_SIZE, ...runOptions } = options;
+  const provider = getProvider();
+  const batches: TimedCue[][] = [];
+  for (let i = 0; i < cues.length; i += batchSize) batches.push(cues.slice(i, i + batchSize));
+  if (batches.length === 0) {
+    throw new Error("Could not translate: the transcript has no timed lines.");
+  }
+
+  const translations = await runChunks(batches.length, (index, signal) => provider.translateSegments(batches[index].map(cue => ({
+    text: cue.text,
+    seconds: cue.end - cue.start,
+    maxWords: Math.max(1, Math.floor(((cue.end - cue.start) * WORDS_PER_MINUTE) / 60)),
+  })), language, signal), {
+    ...runOptions,
+    describe: index => `translation batch ${index + 1}/${batches.length}`,
+    failureMessage: index => `Could not translate part ${index + 1} of ${batches.length} of the transcript.`,
+  });
+  return translations.flat().map((translation, i) => ({ start: cues[i].start, end: cues[i].end, source: cues[i].text, translation }));
+}
+
+// Voices the translated lines and fits each into its source line's time (see
+// fitDubClips). Lines whose text and voice match a clip in `previous` are not
+// synthesized again, so editing a few lines re-voices only those.
+export async function generateDub(lines: DubLine[], voiceName: string, options: DubOptions = {}): Promise<DubTrack> {
+  const { maxSpeedup = DEFAULT_MAX_SPEEDUP, previous, lexicon = [], ...audioOptions } = options;
+  const spoken = lines.map(line => line.translation.replace(/\s+/g, ' ').trim());
+  if (spoken.every(text => !text)) {
+    throw new Error("Could not dub: no line has a translation.");
+  }
+
+  const clips: (DubClip | null)[] = spoken.map((text, i) => {
+    const reusable = previous?.clips[i];
+    return text && reusable?.voice === voiceName && reusable.spoken === applyLexicon(text, lexicon) ? reusable : null;
+  });
+  const missing = spoken.flatMap((text, i) => (text && !clips[i] ? [i] : []));
+
+  if (missing.length > 0) {
+    // One paragraph per line, so each line's audio can be cut back out by paragraph
+    const audio = await generateAudio(missing.map(i => spoken[i]).join('\n\n'), voiceName, { ...audioOptions, lexicon, paragraphGapMs: 0 });
+    const samples = decodePcm(audio.base64Audio);
+    missing.forEach((lineIndex, paragraphIndex) => {
+      const parts = audio.segments.filter(segment => segment.paragraphIndex === paragraphIndex);
+      if (parts.length === 0) return;
+      clips[lineIndex] = {
+        spoken: applyLexicon(spoken[lineIndex], lexicon),
+        voice: voiceName,
+        base64Audio: encodePcm(samples.subarray(
+          Math.round(parts[0].start * TTS_SAMPLE_RATE),
+          Math.round(parts[parts.length - 1].end * TTS_SAMPLE_RATE)
+        )),
+      };
+    });
+  }
+
+  const { samples, fits } = fitDubClips(lines, clips.map(clip => clip && decodePcm(clip.base64Audio)), maxSpeedup);
+  return { base64Audio: encodePcm(samples), clips, fits };
+}
+
+// Reads a single piece of text, e.g. to check how a lexicon entry sounds.
+export function previewSpeech(text: string, voiceName: string): Promise<string> {
+  return getProvider().synthesizeSpeech(text, voiceName);
+}
+
+// Re-synthesizes only the given paragraphs and splices them into existing
+// audio. `paragraphs` is the edited script split into paragraphs; it must have
+// the same paragraph count as the script the audio was made from.
+export async function revoiceParagraphs(
+  audio: GeneratedAudio,
+  paragraphs: string[],
+  changedIndexes: number[],
+  voiceName: string,
+  options: GenerateAudioOptions = {}
+): Promise<GeneratedAudio> {
+  let { base64Audio, segments } = audio;
+
+  // Work from the end so earlier paragraph positions stay valid
+  for (const paragraphIndex of [...changedIndexes].sort((a, b) => b - a)) {
+    const old = segments.filter(segment => segment.paragraphIndex === paragraphIndex);
+    if (old.length === 0) {
+      throw new Error(`Could not find the audio for paragraph ${paragraphIndex + 1}.`);
+    }
+    const start = old[0].start;
+    const end = old[old.length - 1].end;
+
+    const replacement = await generateAudio(paragraphs[paragraphIndex], voiceName, { ...options, paragraphGapMs: 0 });
+    const replacementDuration = replacement.segments[replacement.segments.length - 1].end;
+    const shift = replacementDuration - (end - start);
+
+    base64Audio = splicePcm(base64Audio, start, end, replacement.base64Audio);
+    segments = [
+      ...segments.filter(segment => segment.paragraphIndex < paragraphIndex),
+      ...replacement.segments.map(segment => ({
+        ...segment,
+        paragraphIndex,
+        start: segment.start + start,
+        end: segment.end + start,
+      })),
+      ...segments
+        .filter(segment => segment.paragraphIndex > paragraphIndex)
+        .map(segment => ({ ...segment, start: segment.start + shift, end: segment.end + shift })),
+    ];
+  }
+
+  return { base64Audio, segments };
+}
@@ -0,0 +1,87 @@
+import { PublishingPackage, RecapPreset, RecapSource } from "../types";
+
+const JOB_KEY = "movieRecapJob";
+const DRAFT_KEY = "movieRecapTranscriptDraft";
+
+// The last stage a job completed. Each stage's output is saved with the job,
+// so an interrupted job can continue from there after a reload.
+export type JobStage = 'transcribing' | 'transcribed' | 'scripted' | 'voiced';
+
+export const JOB_STAGE_LABELS: Record<JobStage, string> = {
+  transcribing: 'Partly transcribed',
+  transcribed: 'Transcript ready',
+  scripted: 'Script written',
+  voiced: 'Voiced and saved',
+};
+
+// The choices a job was started with, so resuming doesn't depend on the form.
+export interface JobSettings {
+  language: string;
+  voice: string;
+  dialogue: boolean;
+  preset: RecapPreset;
+}
+
+export interface PipelineJob {
+  stage: JobStage;
+  updatedAt: string;
+  settings: JobSettings;
+  transcript: string;
+  source?: RecapSource; // Where the transcript came from, with its line timings
+  // Set while 'transcribing'. The file itself can't be saved, so it must be
+  // picked again to continue.
+  media?: { fileName: string; size: number; chunksDone: number };
+  beatSheet?: string; // Set when the script is written from a reviewed beat sheet
+  // Set from 'scripted' on
+  script?: string;
+  title?: string;
+  publishing?: PublishingPackage;
+  speakerVoices?: Record<string, string>;
+  warnings?: string[]; // Language or length problems the script was written with
+  // Set once 'voiced': the history item the recap was saved as
+  historyId?: number;
+}
+
+export function loadJob(): PipelineJob | null {
+  const saved = localStorage.getItem(JOB_KEY);
+  if (!saved) return null;
+  try {
+    const job = JSON.parse(saved);
+    return job && job.stage in JOB_STAGE_LABELS && job.settings && typeof job.transcript === 'string' ? job : null;
+  } catch (error) {
+    console.error("Ignoring unreadable saved job", error);
+    return null;
+  }
+}
+
+// Records a stage's output. A checkpoint that does not fit in storage is
+// logged and skipped; the job itself keeps running.
+export function saveJob(job: Omit<PipelineJob, 'updatedAt'>): PipelineJob {
+  const saved = { ...job, updatedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(JOB_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.error("Failed to checkpoint job", error);
+  }
+  return saved;
+}
+
+export function clearJob() {
+  localStorage.removeItem(JOB_KEY);
+}
+
+export function loadTranscriptDraft(): string {
+  return localStorage.getItem(DRAFT_KEY) ?? '';
+}
+
+export function saveTranscriptDraft(transcript: string) {
+  try {
+    if (transcript) {
+      localStorage.setItem(DRAFT_KEY, transcript);
+    } else {
+      localStorage.removeItem(DRAFT_KEY);
+    }
+  } catch (error) {
+    console.error("Failed to autosave transcript draft", error);
+  }
+}
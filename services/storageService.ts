@@ -0,0 +1,301 @@
+import { HistoryItem, RecapVersion } from "../types";
+import { decodePcm, encodePcm } from "../utils/audio";
+import type { UsageRecord } from "./usageService";
+import { isNumber, isRecord, isString } from "../utils/guards";
+
+const DB_NAME = "movieRecap";
+const DB_VERSION = 2;
+const HISTORY_STORE = "history"; // HistoryItem metadata, keyed by id
+const AUDIO_STORE = "audio";     // Raw 16-bit PCM Blobs, keyed by audio id
+const USAGE_STORE = "usage";     // One UsageRecord per model call, under an increasing key
+
+const LEGACY_HISTORY_KEY = "movieRecapHistory";
+
+// Single-version record written before history kept versions. Its audio is
+// keyed by the item id.
+interface LegacyHistoryRecord extends Omit<RecapVersion, 'version' | 'audioId'> {
+  id: number;
+}
+
+// Shape of the items the app used to keep in localStorage.
+interface LegacyLocalStorageItem extends LegacyHistoryRecord {
+  audioBase64: string;
+}
+
+export interface StorageEstimate {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes available to this origin
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE);
+        }
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          const usage = db.createObjectStore(USAGE_STORE, { autoIncrement: true });
+          usage.createIndex("timestamp", "timestamp");
+          usage.createIndex("runId", "runId"); // Records without a run are left out of the index
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function pcmBlob(base64Audio: string): Blob {
+  return new Blob([decodePcm(base64Audio)], { type: "audio/L16;rate=24000" });
+}
+
+const isLegacyItem = (value: unknown): value is LegacyLocalStorageItem => isRecord(value)
+  && isNumber(value.id) && isString(value.audioBase64) && isString(value.title) && isString(value.script) && isString(value.timestamp);
+
+function normalizeHistoryItem(record: HistoryItem | LegacyHistoryRecord): HistoryItem {
+  if ('versions' in record) return record;
+  const { id, timestamp, ...rest } = record;
+  return { id, timestamp, versions: [{ ...rest, version: 1, audioId: id, timestamp }] };
+}
+
+let lastIssuedId = 0;
+
+// Issues a unique, time-ordered id for history items and audio blobs, even
+// when several are created within the same millisecond.
+export function newHistoryId(): number {
+  lastIssuedId = Math.max(Date.now(), lastIssuedId + 1);
+  return lastIssuedId;
+}
+
+export function currentVersion(item: HistoryItem): RecapVersion {
+  return item.versions[item.versions.length - 1];
+}
+
+// Whether a version's speaker tags are voices. Older versions did not record
+// it; those with character voices were dialogue.
+export function isDialogueVersion(item: HistoryItem, version: RecapVersion): boolean {
+  return version.dialogue ?? item.settings?.dialogue ?? Object.keys(version.speakerVoices ?? {}).length > 0;
+}
+
+function describeStorageError(error: unknown): string {
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return "Browser storage is full. Delete some history items and try again.";
+  }
+  return "Could not save to browser storage.";
+}
+
+// Lists history metadata, newest first. Audio is not loaded.
+export async function listHistory(): Promise<HistoryItem[]> {
+  const db = await openDatabase();
+  const records = await promisifyRequest<(HistoryItem | LegacyHistoryRecord)[]>(
+    db.transaction(HISTORY_STORE, "readonly").objectStore(HISTORY_STORE).getAll()
+  );
+  return records.map(normalizeHistoryItem).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+// Stores the item's metadata, and new audio if given, in one transaction.
+// Versions that reuse existing audio (a new title, say) pass no audio.
+export async function saveHistoryItem(item: HistoryItem, audio?: { audioId: number; base64Audio: string }): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([HISTORY_STORE, AUDIO_STORE], "readwrite");
+    transaction.objectStore(HISTORY_STORE).put(item);
+    if (audio) {
+      transaction.objectStore(AUDIO_STORE).put(pcmBlob(audio.base64Audio), audio.audioId);
+    }
+    await promisifyTransaction(transaction);
+  } catch (error) {
+    console.error("Error saving history item:", error);
+    throw new Error(describeStorageError(error));
+  }
+}
+
+// Stores an item together with the audio of all its versions, e.g. one
+// imported from a project bundle.
+export async function importHistoryItem(item: HistoryItem, audio: { audioId: number; base64Audio: string }[]): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([HISTORY_STORE, AUDIO_STORE], "readwrite");
+    transaction.objectStore(HISTORY_STORE).put(item);
+    for (const { audioId, base64Audio } of audio) {
+      transaction.objectStore(AUDIO_STORE).put(pcmBlob(base64Audio), audioId);
+    }
+    await promisifyTransaction(transaction);
+  } catch (error) {
+    console.error("Error importing history item:", error);
+    throw new Error(describeStorageError(error));
+  }
+}
+
+// Loads a version's audio as base64 PCM.
+export async function loadHistoryAudio(audioId: number): Promise<string> {
+  const db = await openDatabase();
+  const blob = await promisifyRequest<Blob | undefined>(
+    db.transaction(AUDIO_STORE, "readonly").objectStore(AUDIO_STORE).get(audioId)
+  );
+  if (!blob) {
+    throw new Error("The audio for this history item is missing.");
+  }
+  return encodePcm(new Int16Array(await blob.arrayBuffer()));
+}
+
+// Deletes the items and all their audio in one transaction.
+export async function deleteHistoryItems(items: HistoryItem[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([HISTORY_STORE, AUDIO_STORE], "readwrite");
+  for (const item of items) {
+    transaction.objectStore(HISTORY_STORE).delete(item.id);
+    for (const audioId of new Set(item.versions.map(version => version.audioId))) {
+      transaction.objectStore(AUDIO_STORE).delete(audioId);
+    }
+  }
+  await promisifyTransaction(transaction);
+}
+
+export async function clearHistory(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([HISTORY_STORE, AUDIO_STORE], "readwrite");
+  transaction.objectStore(HISTORY_STORE).clear();
+  transaction.objectStore(AUDIO_STORE).clear();
+  await promisifyTransaction(transaction);
+}
+
+// Moves history saved by earlier versions from localStorage into IndexedDB.
+// Items that can't be read are logged and skipped; the localStorage copy is
+// removed once the rest have been written, so one bad item can't block
+// every later launch.
+export async function migrateLocalStorageHistory(): Promise<number> {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return 0;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(saved);
+  } catch (error) {
+    console.error("Discarding unreadable localStorage history", error);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return 0;
+  }
+  if (!Array.isArray(data)) {
+    console.error("Discarding localStorage history that is not a list");
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return 0;
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction([HISTORY_STORE, AUDIO_STORE], "readwrite");
+  let migrated = 0;
+  data.forEach((item: unknown, i: number) => {
+    if (!isLegacyItem(item)) {
+      console.error(`Skipping localStorage history item ${i}: it lacks an id, audio, title, script or timestamp`);
+      return;
+    }
+    const { audioBase64, ...record } = item;
+    let audio: Blob;
+    try {
+      audio = pcmBlob(audioBase64);
+    } catch (error) {
+      console.error(`Skipping localStorage history item ${i}: its audio is not valid base64`, error);
+      return;
+    }
+    transaction.objectStore(HISTORY_STORE).put(normalizeHistoryItem(record));
+    transaction.objectStore(AUDIO_STORE).put(audio, record.id);
+    migrated++;
+  });
+  await promisifyTransaction(transaction);
+
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return migrated;
+}
+
+// Lists every usage record, oldest first.
+export async function listUsageRecords(): Promise<UsageRecord[]> {
+  const db = await openDatabase();
+  return promisifyRequest<UsageRecord[]>(
+    db.transaction(USAGE_STORE, "readonly").objectStore(USAGE_STORE).index("timestamp").getAll()
+  );
+}
+
+// Appends usage records without touching the ones already stored.
+export async function addUsageRecords(records: UsageRecord[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(USAGE_STORE, "readwrite");
+  const store = transaction.objectStore(USAGE_STORE);
+  for (const record of records) store.add(record);
+  await promisifyTransaction(transaction);
+}
+
+// Sets the recap on the records of the given runs.
+export async function attributeUsageRecords(runIds: number[], recapId: number): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(USAGE_STORE, "readwrite");
+  const index = transaction.objectStore(USAGE_STORE).index("runId");
+  for (const runId of runIds) {
+    index.openCursor(IDBKeyRange.only(runId)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, recapId });
+      cursor.continue();
+    };
+  }
+  await promisifyTransaction(transaction);
+}
+
+// Deletes the usage records made before the cutoff, or all of them without one.
+export async function deleteUsageRecords(before?: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(USAGE_STORE, "readwrite");
+  const store = transaction.objectStore(USAGE_STORE);
+  if (before === undefined) {
+    store.clear();
+  } else {
+    const index = store.index("timestamp");
+    index.openCursor(IDBKeyRange.upperBound(before, true)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+  }
+  await promisifyTransaction(transaction);
+}
+
+// Reports storage usage for this origin, or null where the API is unavailable.
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+// Asks the browser not to evict our data under storage pressure.
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persisted().then(persisted => persisted || navigator.storage.persist());
+}
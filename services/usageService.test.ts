@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { GEMINI_MODELS } from '../constants';
+import { estimateRecapCost, estimateSpeechCost, estimateTextCost, estimateTranscriptChars, estimateTranscriptionCost, totalUsage, ModelPrice } from './usageService';
+
+// $1 per million input tokens and $10 per million output tokens for both models,
+// so each cost below reads as input tokens + 10 × output tokens, in millionths.
+const prices: ModelPrice[] = [
+  { model: GEMINI_MODELS.text, inputPerMillion: 1, outputPerMillion: 10 },
+  { model: GEMINI_MODELS.speech, inputPerMillion: 1, outputPerMillion: 10 },
+];
+const dollars = (inputTokens: number, outputTokens: number) => (inputTokens + 10 * outputTokens) / 1_000_000;
+
+describe('estimateSpeechCost', () => {
+  it('charges the words as input and the spoken seconds as audio output tokens', () => {
+    // 600 characters are 100 words: 200 input tokens, 40 seconds at 150 words a minute, 1280 audio tokens
+    expect(estimateSpeechCost('x'.repeat(600), prices)).toBeCloseTo(dollars(200, 1280), 10);
+  });
+
+  it('costs nothing for a model without a price', () => {
+    expect(estimateSpeechCost('x'.repeat(600), [])).toBe(0);
+  });
+});
+
+describe('estimateTextCost', () => {
+  it('counts four characters a token on top of the instructions', () => {
+    expect(estimateTextCost(4000, 400, prices)).toBeCloseTo(dollars(1000 + 1500, 100), 10);
+  });
+});
+
+describe('estimateTranscriptionCost', () => {
+  it('charges the audio as input tokens per second and the expected transcript as output', () => {
+    expect(estimateTranscriptChars(60)).toBe(900);
+    expect(estimateTranscriptionCost(60, prices)).toBeCloseTo(dollars(60 * 32 + 1500, 225), 10);
+  });
+});
+
+describe('estimateRecapCost', () => {
+  it('writes the script from the transcript and voices it', () => {
+    // 4000 characters are 1000 tokens; 300 words are 600 script tokens and two minutes of speech
+    const script = dollars(1000 + 1500, 600);
+    const speech = dollars(600, 120 * 32);
+    expect(estimateRecapCost(4000, 300, false, prices)).toBeCloseTo(script + speech, 10);
+  });
+
+  it('reads the transcript once more for a beat sheet, then writes from a tenth of it', () => {
+    const beatSheet = dollars(1000 + 1500, 100);
+    const script = dollars(100 + 1500, 600);
+    const speech = dollars(600, 120 * 32);
+    expect(estimateRecapCost(4000, 300, true, prices)).toBeCloseTo(beatSheet + script + speech, 10);
+  });
+
+  it('assumes a ten-minute recap when the preset has no length', () => {
+    expect(estimateRecapCost(4000, undefined, false, prices)).toBeCloseTo(estimateRecapCost(4000, 1500, false, prices), 10);
+  });
+});
+
+describe('totalUsage', () => {
+  it('prices recorded calls with the same rates as the estimates', () => {
+    const record = { timestamp: '', model: GEMINI_MODELS.text, operation: 'transcription' as const, inputTokens: 3420, outputTokens: 225, audioSeconds: 60, latencyMs: 2000 };
+    const totals = totalUsage([record, record], prices);
+    expect(totals.calls).toBe(2);
+    expect(totals.cost).toBeCloseTo(2 * estimateTranscriptionCost(60, prices), 10);
+  });
+});
@@ -0,0 +1,270 @@
+import { GEMINI_MODELS } from "../constants";
+import { WORDS_PER_MINUTE } from "./presetService";
+import { listUsageRecords, addUsageRecords, attributeUsageRecords, deleteUsageRecords } from "./storageService";
+
+// The log is kept in IndexedDB; earlier versions kept it here and rewrote it on every call.
+const LEGACY_USAGE_KEY = "movieRecapUsage";
+const PRICES_KEY = "movieRecapPrices"; // Only prices the user changed; the rest come from DEFAULT_PRICES
+const BUDGET_KEY = "movieRecapBudget";
+
+// Older records are dropped so the log stays small; a year is enough to
+// compare months.
+const RETENTION_MONTHS = 13;
+
+// Gemini bills audio at about this rate, whether it is sent or spoken.
+export const AUDIO_TOKENS_PER_SECOND = 32;
+// Rough sizes for estimates made before any call is sent.
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_WORD = 2; // Thai and Burmese take more tokens per word than English
+const CHARS_PER_WORD = 6;  // Including the space after it
+const SPOKEN_CHARS_PER_SECOND = 15; // About 150 words a minute
+const INSTRUCTION_TOKENS = 1500;
+// Presets without a length leave it to the model; assume a long recap so the
+// budget check errs on the high side.
+const UNSET_LENGTH_WORDS = 10 * WORDS_PER_MINUTE;
+
+export type UsageOperation = 'transcription' | 'script' | 'summary' | 'title' | 'translation' | 'speech';
+
+// One model call, as reported in the response's usage metadata.
+export interface UsageRecord {
+  timestamp: string;
+  model: string;
+  operation: UsageOperation;
+  inputTokens: number;
+  outputTokens: number; // Including thinking tokens, which are billed as output
+  audioSeconds: number; // Audio sent with the request or spoken in the response
+  latencyMs: number;
+  runId?: number;       // The user action the call was part of
+  recapId?: number;     // The history item that action went into, once saved
+}
+
+// US dollars per million tokens.
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+  latencyMs: number;
+  cost: number; // Estimated from the price table, in US dollars
+}
+
+// List prices when these models were added. Each model has one input and one
+// output rate per token, whatever the tokens carry: audio sent for
+// transcription is counted at AUDIO_TOKENS_PER_SECOND and charged the input
+// rate, and speech is counted the same way per spoken second and charged the
+// speech model's output rate. Gemini lists audio input above text input, so
+// raise the text model's input price when most of its calls transcribe.
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: GEMINI_MODELS.text, inputPerMillion: 0.5, outputPerMillion: 3 },
+  { model: GEMINI_MODELS.speech, inputPerMillion: 0.5, outputPerMillion: 10 },
+];
+
+const listeners = new Set<() => void>();
+let saveError: string | null = null;
+
+// Calls back whenever usage is recorded or attributed, or fails to be saved.
+// Returns an unsubscribe function.
+export function subscribeUsage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Why the last usage could not be saved, until some is saved again. Calls
+// made in between are missing from the log and its totals.
+export function usageSaveError(): string | null {
+  return saveError;
+}
+
+// Accounting must never fail the call it accounts for, so failures only warn
+function saveUsage(save: Promise<void>) {
+  save
+    .then(() => {
+      saveError = null;
+      notify();
+    })
+    .catch(error => {
+      console.error("Could not save usage log", error);
+      saveError = error instanceof DOMException && error.name === "QuotaExceededError"
+        ? "Browser storage is full, so API usage is no longer being recorded. Delete some history items to free space."
+        : "API usage could not be recorded, so the usage log is missing some calls.";
+      notify();
+    });
+}
+
+function loadLegacyUsage(): UsageRecord[] {
+  const saved = localStorage.getItem(LEGACY_USAGE_KEY);
+  if (!saved) return [];
+  try {
+    const records = JSON.parse(saved);
+    return Array.isArray(records) ? records.filter(record => typeof record?.timestamp === 'string' && typeof record?.model === 'string') : [];
+  } catch (error) {
+    console.error("Ignoring unreadable usage log", error);
+    return [];
+  }
+}
+
+let prepared: Promise<void> | null = null;
+
+// Once a session: moves a localStorage log into IndexedDB, removing it only
+// once written, and drops records past retention.
+function prepareUsage(): Promise<void> {
+  if (!prepared) {
+    prepared = (async () => {
+      const legacy = loadLegacyUsage();
+      if (legacy.length > 0) await addUsageRecords(legacy);
+      localStorage.removeItem(LEGACY_USAGE_KEY);
+
+      const cutoff = new Date();
+      cutoff.setMonth(cutoff.getMonth() - RETENTION_MONTHS);
+      await deleteUsageRecords(cutoff.toISOString());
+    })().catch(error => {
+      prepared = null; // Try again on the next load
+      console.error("Could not tidy the usage log", error);
+    });
+  }
+  return prepared;
+}
+
+// The whole log, oldest first.
+export async function loadUsage(): Promise<UsageRecord[]> {
+  await prepareUsage();
+  return listUsageRecords();
+}
+
+export function clearUsage() {
+  saveUsage(deleteUsageRecords());
+}
+
+let lastRunId = 0;
+const runs = new WeakMap<AbortSignal, number>();
+
+// Starts a run for a user action. Calls made with its signal, or a signal
+// linked to it, are recorded under the returned id.
+export function startUsageRun(signal: AbortSignal): number {
+  lastRunId = Math.max(Date.now(), lastRunId + 1);
+  runs.set(signal, lastRunId);
+  return lastRunId;
+}
+
+// Puts calls made with a derived signal, such as one chunk's, in the parent's run.
+export function linkUsageRun(child: AbortSignal, parent?: AbortSignal) {
+  const runId = parent && runs.get(parent);
+  if (runId) runs.set(child, runId);
+}
+
+export function recordUsage(record: Omit<UsageRecord, 'timestamp' | 'runId' | 'recapId'>, signal?: AbortSignal) {
+  const runId = signal && runs.get(signal);
+  saveUsage(addUsageRecords([{ timestamp: new Date().toISOString(), ...record, ...(runId ? { runId } : {}) }]));
+}
+
+// Charges the runs' calls to a saved recap.
+export function attributeUsage(runIds: number[], recapId: number) {
+  if (runIds.length === 0) return;
+  saveUsage(attributeUsageRecords(runIds, recapId));
+}
+
+export function loadPrices(): ModelPrice[] {
+  let saved: ModelPrice[] = [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PRICES_KEY) ?? '[]');
+    if (Array.isArray(parsed)) {
+      saved = parsed.filter(price => typeof price?.model === 'string' && Number.isFinite(price.inputPerMillion) && Number.isFinite(price.outputPerMillion));
+    }
+  } catch (error) {
+    console.error("Ignoring unreadable price table", error);
+  }
+  const defaultModels = new Set(DEFAULT_PRICES.map(price => price.model));
+  return [
+    ...DEFAULT_PRICES.map(price => saved.find(other => other.model === price.model) ?? price),
+    ...saved.filter(price => !defaultModels.has(price.model)),
+  ];
+}
+
+export function savePrices(prices: ModelPrice[]) {
+  const changed = prices.filter(price => {
+    const builtIn = DEFAULT_PRICES.find(other => other.model === price.model);
+    return !builtIn || builtIn.inputPerMillion !== price.inputPerMillion || builtIn.outputPerMillion !== price.outputPerMillion;
+  });
+  localStorage.setItem(PRICES_KEY, JSON.stringify(changed));
+}
+
+// The most a single recap should cost, in US dollars, or null for no limit.
+export function loadBudget(): number | null {
+  const budget = Number(localStorage.getItem(BUDGET_KEY));
+  return budget > 0 ? budget : null;
+}
+
+export function saveBudget(budget: number | null) {
+  if (budget && budget > 0) {
+    localStorage.setItem(BUDGET_KEY, String(budget));
+  } else {
+    localStorage.removeItem(BUDGET_KEY);
+  }
+}
+
+// Models without a price cost nothing in the estimates.
+function callCost(model: string, inputTokens: number, outputTokens: number, prices: ModelPrice[]): number {
+  const price = prices.find(other => other.model === model);
+  return price ? (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000 : 0;
+}
+
+export function totalUsage(records: UsageRecord[], prices: ModelPrice[]): UsageTotals {
+  return records.reduce((totals, record) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    audioSeconds: totals.audioSeconds + record.audioSeconds,
+    latencyMs: totals.latencyMs + record.latencyMs,
+    cost: totals.cost + callCost(record.model, record.inputTokens, record.outputTokens, prices),
+  }), { calls: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0, latencyMs: 0, cost: 0 });
+}
+
+// What voicing a script of this many words costs.
+function speechCost(words: number, prices: ModelPrice[]): number {
+  const narrationSeconds = (words / WORDS_PER_MINUTE) * 60;
+  return callCost(GEMINI_MODELS.speech, words * TOKENS_PER_WORD, narrationSeconds * AUDIO_TOKENS_PER_SECOND, prices);
+}
+
+// Roughly what writing and voicing a recap of a transcript will cost, from
+// its length alone. A beat sheet reads the transcript once more and writes a
+// summary about a tenth of its size, which the script is then written from.
+export function estimateRecapCost(transcriptChars: number, targetWords: number | undefined, withBeatSheet: boolean, prices: ModelPrice[] = loadPrices()): number {
+  const words = targetWords ?? UNSET_LENGTH_WORDS;
+  const transcriptTokens = Math.ceil(transcriptChars / CHARS_PER_TOKEN);
+  const scriptTokens = words * TOKENS_PER_WORD;
+  const summaryTokens = Math.ceil(transcriptTokens / 10);
+
+  const beatSheet = withBeatSheet ? callCost(GEMINI_MODELS.text, transcriptTokens + INSTRUCTION_TOKENS, summaryTokens, prices) : 0;
+  const script = callCost(GEMINI_MODELS.text, (withBeatSheet ? summaryTokens : transcriptTokens) + INSTRUCTION_TOKENS, scriptTokens, prices);
+  return beatSheet + script + speechCost(words, prices);
+}
+
+// Roughly what voicing a text will cost.
+export function estimateSpeechCost(text: string, prices: ModelPrice[] = loadPrices()): number {
+  return speechCost(Math.ceil(text.length / CHARS_PER_WORD), prices);
+}
+
+// Roughly what one text request will cost, from the length of what it reads and writes.
+export function estimateTextCost(inputChars: number, outputChars: number, prices: ModelPrice[] = loadPrices()): number {
+  return callCost(GEMINI_MODELS.text, Math.ceil(inputChars / CHARS_PER_TOKEN) + INSTRUCTION_TOKENS, Math.ceil(outputChars / CHARS_PER_TOKEN), prices);
+}
+
+// The transcript media of this length is assumed to give: speech from start
+// to end, so estimates made from it err high.
+export function estimateTranscriptChars(mediaSeconds: number): number {
+  return Math.ceil(mediaSeconds * SPOKEN_CHARS_PER_SECOND);
+}
+
+// Roughly what transcribing media of this length will cost.
+export function estimateTranscriptionCost(mediaSeconds: number, prices: ModelPrice[] = loadPrices()): number {
+  const transcriptTokens = Math.ceil(estimateTranscriptChars(mediaSeconds) / CHARS_PER_TOKEN);
+  return callCost(GEMINI_MODELS.text, mediaSeconds * AUDIO_TOKENS_PER_SECOND + INSTRUCTION_TOKENS, transcriptTokens, prices);
+}
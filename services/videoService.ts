@@ -0,0 +1,128 @@
+import { createWavBlob } from "../utils/audio";
+import { VideoTimeline, drawFrame, pauseClips, syncClips } from "../utils/videoFrame";
+import { CancelledError, throwIfAborted } from "./errors";
+
+export type VideoFormat = 'webm' | 'mp4';
+
+export const VIDEO_FORMATS: { value: VideoFormat; label: string; extension: string; mimeTypes: string[] }[] = [
+  {
+    value: 'webm',
+    label: 'WebM (VP9/Opus)',
+    extension: 'webm',
+    mimeTypes: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+  },
+  {
+    value: 'mp4',
+    label: 'MP4 (H.264/AAC)',
+    extension: 'mp4',
+    mimeTypes: ['video/mp4;codecs=avc1.42E01E,mp4a.40.2', 'video/mp4;codecs=avc1,mp4a', 'video/mp4'],
+  },
+];
+
+const FRAME_RATE = 30;
+// Bits per pixel per frame; about 5 Mbps at 720p and 11 Mbps at 1080p.
+const BITS_PER_PIXEL = 0.18;
+
+export interface RenderOptions {
+  format: VideoFormat;
+  width: number;
+  height: number;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+function supportedMimeType(format: VideoFormat): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const mimeTypes = VIDEO_FORMATS.find(f => f.value === format)?.mimeTypes ?? [];
+  return mimeTypes.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+// Formats this browser can record.
+export function supportedVideoFormats(): VideoFormat[] {
+  return VIDEO_FORMATS.filter(f => supportedMimeType(f.value) !== null).map(f => f.value);
+}
+
+export function videoExtension(format: VideoFormat): string {
+  return VIDEO_FORMATS.find(f => f.value === format)?.extension ?? 'webm';
+}
+
+// Records the timeline over the narration in real time: frames are drawn on a
+// canvas while the audio plays into the same MediaRecorder stream. Rendering
+// takes as long as the recap, and browsers slow down hidden tabs, so the tab
+// has to stay in front.
+export async function renderVideo(base64Audio: string, timeline: VideoTimeline, options: RenderOptions): Promise<Blob> {
+  const { format, width, height, signal, onProgress } = options;
+  const mimeType = supportedMimeType(format);
+  if (!mimeType) {
+    throw new Error(`This browser cannot record ${format.toUpperCase()} video. Try another format or a Chromium-based browser.`);
+  }
+  throwIfAborted(signal);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  const audioContext = new AudioContext();
+  let source: AudioBufferSourceNode | null = null;
+  let recorder: MediaRecorder | null = null;
+  let frame = 0;
+
+  try {
+    const buffer = await audioContext.decodeAudioData(await createWavBlob(base64Audio).arrayBuffer());
+    throwIfAborted(signal);
+    const destination = audioContext.createMediaStreamDestination();
+    source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+
+    const stream = new MediaStream([...canvas.captureStream(FRAME_RATE).getVideoTracks(), ...destination.stream.getAudioTracks()]);
+    recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: Math.round(width * height * FRAME_RATE * BITS_PER_PIXEL) });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder!.onstop = () => resolve();
+      recorder!.onerror = () => reject(new Error('The browser stopped recording the video.'));
+    });
+
+    drawFrame(ctx, timeline, 0);
+    await audioContext.resume();
+    recorder.start(1000);
+    const startedAt = audioContext.currentTime;
+    source.start(startedAt);
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => reject(new CancelledError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const tick = () => {
+        if (signal?.aborted) return;
+        const time = Math.min(audioContext.currentTime - startedAt, buffer.duration);
+        syncClips(timeline, time, true);
+        drawFrame(ctx, timeline, time);
+        onProgress?.(time / buffer.duration);
+        if (time >= buffer.duration) {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+          return;
+        }
+        frame = requestAnimationFrame(tick);
+      };
+      tick();
+    });
+
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    cancelAnimationFrame(frame);
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    try {
+      source?.stop();
+    } catch {
+      // Never started
+    }
+    pauseClips(timeline);
+    audioContext.close();
+  }
+}
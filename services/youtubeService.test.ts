@@ -0,0 +1,159 @@
+import { readFileSync } from 'fs';
+import { describe, it, expect } from 'vitest';
+import { TimedCue } from '../types';
+import {
+  parseTrackList, parseCaptions, parseWatchPageTracks, chooseCaptionTrack, listCaptionTracks, fetchCaptions,
+  CaptionTrack, Fetcher,
+} from './youtubeService';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/youtube/${name}`, import.meta.url), 'utf8');
+
+const track = (overrides: Partial<CaptionTrack>): CaptionTrack => ({
+  languageCode: 'en',
+  name: '',
+  label: 'English',
+  isDefault: false,
+  isAutoGenerated: false,
+  ...overrides,
+});
+
+// Cue times are sums of decimal seconds, so they are compared to the millisecond.
+const rounded = (cues: TimedCue[]) => cues.map(cue => ({ ...cue, start: Math.round(cue.start * 1000) / 1000, end: Math.round(cue.end * 1000) / 1000 }));
+
+// Answers each request with the fixture of the first pattern its URL matches.
+const fakeFetcher = (routes: [RegExp, string | Error][], requested: string[] = []): Fetcher => async (url) => {
+  requested.push(url);
+  const route = routes.find(([pattern]) => pattern.test(url));
+  if (!route) throw new Error(`No fixture for ${url}`);
+  if (route[1] instanceof Error) throw route[1];
+  return route[1];
+};
+
+describe('parseTrackList', () => {
+  it('reads every track with a language code', () => {
+    expect(parseTrackList(fixture('track-list.xml'))).toEqual([
+      { languageCode: 'en', name: '', label: 'English', isDefault: true, isAutoGenerated: false },
+      { languageCode: 'en', name: 'SDH', label: 'English', isDefault: false, isAutoGenerated: false },
+      { languageCode: 'fr', name: '', label: 'French', isDefault: false, isAutoGenerated: false },
+      { languageCode: 'th', name: '', label: 'Thai', isDefault: false, isAutoGenerated: true },
+    ]);
+  });
+
+  it('returns nothing for an empty list', () => {
+    expect(parseTrackList('<?xml version="1.0" encoding="utf-8" ?><transcript_list docid="1"></transcript_list>')).toEqual([]);
+  });
+});
+
+describe('parseWatchPageTracks', () => {
+  it('reads the caption tracks from the player response', () => {
+    const tracks = parseWatchPageTracks(fixture('watch-page.html'));
+    expect(tracks.map(({ url, ...rest }) => rest)).toEqual([
+      { languageCode: 'en', name: '', label: 'English', isDefault: false, isAutoGenerated: false },
+      { languageCode: 'en', name: '', label: 'English', isDefault: false, isAutoGenerated: true },
+      { languageCode: 'de', name: '', label: 'German [CC]', isDefault: false, isAutoGenerated: false },
+    ]);
+    expect(tracks[0].url).toContain('&signature=3A1F0C.9B2E44&');
+  });
+
+  it('returns nothing for a page without captions', () => {
+    expect(parseWatchPageTracks('<html><script>var ytInitialPlayerResponse = {"videoDetails":{}};</script></html>')).toEqual([]);
+  });
+
+  it('ignores arrays elsewhere on the page when the marker has no list', () => {
+    const html = fixture('watch-page.html').replace('"captionTracks":[', '"captionTracks":null,"other":[');
+    expect(parseWatchPageTracks(html)).toEqual([]);
+    expect(parseWatchPageTracks('<script>{"captionTracks":</script>')).toEqual([]);
+  });
+
+  it('returns nothing for a truncated track list', () => {
+    expect(parseWatchPageTracks('{"captionTracks": [{"baseUrl":"https://x","languageCode":"en"}')).toEqual([]);
+  });
+});
+
+describe('parseCaptions', () => {
+  it('reads srv1 XML, decoding both levels of escaping and dropping markup', () => {
+    expect(rounded(parseCaptions(fixture('captions.srv1.xml')))).toEqual([
+      { start: 0.5, end: 2.6, text: 'Where were you last night?' },
+      { start: 2.8, end: 4.7, text: 'I told you, I was at work.' },
+      { start: 5, end: 8.25, text: "Don't lie to me & don't look away." },
+      { start: 10.4, end: 12.4, text: '[Music]' },
+    ]);
+  });
+
+  it('reads json3, joining segments and skipping events without text', () => {
+    expect(rounded(parseCaptions(fixture('captions.json3.json')))).toEqual([
+      { start: 0.12, end: 2.4, text: 'where were you' },
+      { start: 2.4, end: 5.28, text: 'I told you I was at work' },
+      { start: 5.28, end: 6.78, text: '[Music]' },
+    ]);
+  });
+});
+
+describe('chooseCaptionTrack', () => {
+  const tracks = parseTrackList(fixture('track-list.xml'));
+
+  it('prefers a manual track in the requested language', () => {
+    expect(chooseCaptionTrack([track({ languageCode: 'th', isAutoGenerated: true }), track({ languageCode: 'th' })], 'th'))
+      .toEqual(track({ languageCode: 'th' }));
+  });
+
+  it('takes an auto-generated track when it is the only one in the language', () => {
+    expect(chooseCaptionTrack(tracks, 'th')?.languageCode).toBe('th');
+  });
+
+  it('falls back to the default track', () => {
+    expect(chooseCaptionTrack(tracks, 'de')).toBe(tracks[0]);
+  });
+
+  it('picks a manual track over an auto-generated one when there is no default', () => {
+    const auto = track({ isAutoGenerated: true });
+    const manual = track({ languageCode: 'fr' });
+    expect(chooseCaptionTrack([auto, manual])).toBe(manual);
+  });
+
+  it('returns null without tracks', () => {
+    expect(chooseCaptionTrack([])).toBeNull();
+  });
+});
+
+describe('listCaptionTracks', () => {
+  it('uses the timedtext list when it has tracks', async () => {
+    const requested: string[] = [];
+    const tracks = await listCaptionTracks('dQw4w9WgXcQ', fakeFetcher([[/type=list/, fixture('track-list.xml')]], requested));
+    expect(tracks).toHaveLength(4);
+    expect(requested).toHaveLength(1);
+  });
+
+  it('falls back to the watch page when the list is empty or fails', async () => {
+    const empty = fakeFetcher([[/type=list/, '<transcript_list docid="1"></transcript_list>'], [/\/watch\?/, fixture('watch-page.html')]]);
+    expect(await listCaptionTracks('dQw4w9WgXcQ', empty)).toHaveLength(3);
+
+    const failing = fakeFetcher([[/type=list/, new Error('Request failed with status 404')], [/\/watch\?/, fixture('watch-page.html')]]);
+    expect(await listCaptionTracks('dQw4w9WgXcQ', failing)).toHaveLength(3);
+  });
+
+  it('asks for a proxy when none is configured', async () => {
+    await expect(listCaptionTracks('dQw4w9WgXcQ', null)).rejects.toThrow('CAPTIONS_PROXY_URL');
+  });
+});
+
+describe('fetchCaptions', () => {
+  it('requests json3 from the signed URL of a watch page track', async () => {
+    const requested: string[] = [];
+    const [english] = parseWatchPageTracks(fixture('watch-page.html'));
+    const cues = await fetchCaptions('dQw4w9WgXcQ', english, fakeFetcher([[/signature=3A1F0C/, fixture('captions.json3.json')]], requested));
+    expect(cues).toHaveLength(3);
+    expect(new URL(requested[0]).searchParams.get('fmt')).toBe('json3');
+  });
+
+  it('builds the timedtext request for a listed track', async () => {
+    const requested: string[] = [];
+    await fetchCaptions('dQw4w9WgXcQ', track({ name: 'SDH' }), fakeFetcher([[/timedtext/, fixture('captions.srv1.xml')]], requested));
+    const params = new URL(requested[0]).searchParams;
+    expect([params.get('v'), params.get('lang'), params.get('name'), params.get('kind')]).toEqual(['dQw4w9WgXcQ', 'en', 'SDH', null]);
+  });
+
+  it('rejects an empty track', async () => {
+    await expect(fetchCaptions('dQw4w9WgXcQ', track({}), fakeFetcher([[/timedtext/, '{"events":[]}']]))).rejects.toThrow('empty');
+  });
+});
@@ -0,0 +1,253 @@
+import { TimedCue } from "../types";
+import { isRecord, isString } from "../utils/guards";
+
+// Fetches a URL and resolves with the response body. Injected so the service
+// can run against recorded fixtures instead of the network.
+export type Fetcher = (url: string) => Promise<string>;
+
+export interface CaptionTrack {
+  languageCode: string;
+  name: string;          // Track name, empty for the default track of a language
+  label: string;         // Human readable language name
+  isDefault: boolean;
+  isAutoGenerated: boolean;
+  url?: string;          // Signed caption URL from the watch page, fetched as is
+}
+
+const TIMEDTEXT_URL = "https://www.youtube.com/api/timedtext";
+const WATCH_URL = "https://www.youtube.com/watch";
+
+const NO_PROXY_MESSAGE = "Importing YouTube captions needs a proxy. Set CAPTIONS_PROXY_URL in .env.local; see the README.";
+
+// YouTube sends no CORS headers, so the browser can only reach it through a
+// proxy. The target URL is encoded and appended to the proxy URL, as in
+// "https://proxy.example/?url=". Returns null when no proxy is configured.
+export function createProxyFetcher(proxyUrl: string | undefined): Fetcher | null {
+  if (!proxyUrl) return null;
+  return async (url) => {
+    const response = await fetch(`${proxyUrl}${encodeURIComponent(url)}`);
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+    return response.text();
+  };
+}
+
+export const defaultFetcher = createProxyFetcher(process.env.CAPTIONS_PROXY_URL);
+
+// Extracts the 11 character video ID from a URL or returns the input if it is already an ID.
+export function parseVideoId(input: string): string | null {
+  const value = input.trim();
+  if (/^[\w-]{11}$/.test(value)) {
+    return value;
+  }
+  try {
+    const url = new URL(value.includes('://') ? value : `https://${value}`);
+    const host = url.hostname.replace(/^(www\.|m\.|music\.)/, '');
+    let candidate: string | null = null;
+    if (host === 'youtu.be') {
+      candidate = url.pathname.split('/')[1];
+    } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+      candidate = url.searchParams.get('v')
+        ?? url.pathname.match(/^\/(?:embed|shorts|live|v)\/([\w-]{11})/)?.[1]
+        ?? null;
+    }
+    return candidate && /^[\w-]{11}$/.test(candidate) ? candidate : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeEntities(match[2]);
+  }
+  return attributes;
+}
+
+// Cleans a caption line: drops inline markup, collapses whitespace.
+function cleanCaptionText(text: string): string {
+  return decodeEntities(text.replace(/<[^>]+>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Parses the `type=list` timedtext response into caption tracks.
+export function parseTrackList(xml: string): CaptionTrack[] {
+  const tracks: CaptionTrack[] = [];
+  for (const match of xml.matchAll(/<track\b([^>]*)\/?>/g)) {
+    const attributes = parseAttributes(match[1]);
+    if (!attributes.lang_code) continue;
+    tracks.push({
+      languageCode: attributes.lang_code,
+      name: attributes.name ?? '',
+      label: attributes.lang_translated || attributes.lang_original || attributes.lang_code,
+      isDefault: attributes.lang_default === 'true',
+      isAutoGenerated: attributes.kind === 'asr',
+    });
+  }
+  return tracks;
+}
+
+// Returns the JSON array starting at `from`, found by matching brackets
+// outside of strings.
+function sliceJsonArray(text: string, from: number): string | null {
+  let depth = 0;
+  let inString = false;
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      return text.slice(from, i + 1);
+    }
+  }
+  return null;
+}
+
+// Parses the caption tracks out of the player response embedded in a watch
+// page. Used when the `type=list` endpoint comes back empty, as it now often does.
+export function parseWatchPageTracks(html: string): CaptionTrack[] {
+  const marker = '"captionTracks":';
+  const key = html.indexOf(marker);
+  if (key === -1) return [];
+  // The list must follow the marker itself, not some later array on the page
+  const start = key + marker.length + (html.slice(key + marker.length).match(/^\s*/)?.[0].length ?? 0);
+  if (html[start] !== '[') return [];
+  const json = sliceJsonArray(html, start);
+  if (!json) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch (error) {
+    console.error("Ignoring unreadable caption tracks on the watch page", error);
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+  return entries.flatMap((entry: unknown) => {
+    if (!isRecord(entry) || !isString(entry.baseUrl) || !isString(entry.languageCode)) return [];
+    const name = isRecord(entry.name) ? entry.name : {};
+    const runs = Array.isArray(name.runs) ? name.runs : null;
+    const label = isString(name.simpleText) ? name.simpleText
+      : runs ? runs.map(run => (isRecord(run) && isString(run.text) ? run.text : '')).join('') : '';
+    return [{
+      languageCode: entry.languageCode,
+      name: '',
+      label: label.replace(/\s*\(auto-generated\)$/i, '') || entry.languageCode,
+      isDefault: false,
+      isAutoGenerated: entry.kind === 'asr',
+      url: entry.baseUrl,
+    }];
+  });
+}
+
+// Parses a caption body in either the srv1 XML format or the json3 format.
+export function parseCaptions(body: string): TimedCue[] {
+  const trimmed = body.trim();
+  const cues: TimedCue[] = [];
+
+  if (trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed) as {
+      events?: { tStartMs?: number; dDurationMs?: number; segs?: { utf8?: string }[] }[];
+    };
+    for (const event of data.events ?? []) {
+      if (!event.segs) continue;
+      const text = cleanCaptionText(event.segs.map(seg => seg.utf8 ?? '').join(''));
+      if (!text) continue;
+      const start = (event.tStartMs ?? 0) / 1000;
+      cues.push({ start, end: start + (event.dDurationMs ?? 0) / 1000, text });
+    }
+    return cues;
+  }
+
+  for (const match of trimmed.matchAll(/<text\b([^>]*)>([\s\S]*?)<\/text>/g)) {
+    const attributes = parseAttributes(match[1]);
+    // srv1 bodies are escaped twice: once as XML, once as HTML inside it.
+    const text = cleanCaptionText(decodeEntities(match[2]));
+    if (!text) continue;
+    const start = parseFloat(attributes.start ?? '0');
+    cues.push({ start, end: start + parseFloat(attributes.dur ?? '0'), text });
+  }
+  return cues;
+}
+
+// Picks the track to import: the requested language, else the default, else
+// a manually authored track over an auto-generated one.
+export function chooseCaptionTrack(tracks: CaptionTrack[], languageCode?: string): CaptionTrack | null {
+  if (tracks.length === 0) return null;
+  if (languageCode) {
+    const matches = tracks.filter(t => t.languageCode === languageCode);
+    if (matches.length > 0) {
+      return matches.find(t => !t.isAutoGenerated) ?? matches[0];
+    }
+  }
+  return tracks.find(t => t.isDefault)
+    ?? tracks.find(t => !t.isAutoGenerated)
+    ?? tracks[0];
+}
+
+// Lists the video's caption tracks from the timedtext list, falling back to
+// the watch page when the list is empty or fails.
+export async function listCaptionTracks(videoId: string, fetcher: Fetcher | null = defaultFetcher): Promise<CaptionTrack[]> {
+  if (!fetcher) throw new Error(NO_PROXY_MESSAGE);
+  let tracks: CaptionTrack[] = [];
+  try {
+    tracks = parseTrackList(await fetcher(`${TIMEDTEXT_URL}?type=list&v=${encodeURIComponent(videoId)}`));
+  } catch (error) {
+    console.error("Caption list request failed, trying the watch page:", error);
+  }
+  if (tracks.length > 0) return tracks;
+
+  try {
+    return parseWatchPageTracks(await fetcher(`${WATCH_URL}?v=${encodeURIComponent(videoId)}`));
+  } catch (error) {
+    console.error("Error listing caption tracks:", error);
+    throw new Error("Could not load the caption list for this video.");
+  }
+}
+
+export async function fetchCaptions(videoId: string, track: CaptionTrack, fetcher: Fetcher | null = defaultFetcher): Promise<TimedCue[]> {
+  if (!fetcher) throw new Error(NO_PROXY_MESSAGE);
+  let url: string;
+  if (track.url) {
+    const signed = new URL(track.url);
+    signed.searchParams.set('fmt', 'json3');
+    url = signed.toString();
+  } else {
+    const params = new URLSearchParams({ v: videoId, lang: track.languageCode, fmt: 'json3' });
+    if (track.name) params.set('name', track.name);
+    if (track.isAutoGenerated) params.set('kind', 'asr');
+    url = `${TIMEDTEXT_URL}?${params.toString()}`;
+  }
+
+  let cues: TimedCue[];
+  try {
+    const body = await fetcher(url);
+    cues = parseCaptions(body);
+  } catch (error) {
+    console.error("Error fetching captions:", error);
+    throw new Error("Could not download captions for this video.");
+  }
+  if (cues.length === 0) {
+    throw new Error("The selected caption track is empty.");
+  }
+  return cues;
+}
@@ -0,0 +1,97 @@
+// A line of timed text from captions or a subtitle file. Times are in seconds.
+export interface TimedCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// A synthesized chunk of the script and where it sits in the stitched audio.
+export interface SpeechSegment extends TimedCue {
+  paragraphIndex: number;
+}
+
+// Where a chapter of the recap begins in the script.
+export interface ChapterMarker {
+  title: string;
+  paragraphIndex: number;
+}
+
+// Everything needed to publish a recap on YouTube besides the audio.
+export interface PublishingPackage {
+  titleVariants: string[]; // Alternatives to the main title for A/B tests
+  description: string;
+  hashtags: string[];      // Without the leading #
+  tags: string[];
+  thumbnailText: string[]; // Short overlay lines to choose from
+  chapters: ChapterMarker[];
+  chapterParagraphs?: number; // Paragraphs in the script the chapters were placed in; absent on packages from before it was recorded
+}
+
+// One saved state of a recap. Editing and regenerating adds a new version.
+export interface RecapVersion {
+  version: number;
+  title: string;
+  script: string;
+  segments?: SpeechSegment[]; // Chunk timings; absent on items saved before they were recorded
+  durationSeconds?: number;
+  speakerVoices?: Record<string, string>; // Voice per tagged speaker in a dialogue script
+  voice?: string;             // Narrator voice; absent on older versions
+  dialogue?: boolean;         // Speaker tags were read as voices; absent on older versions
+  voicedLexicon?: LexiconEntry[]; // Global and recap pronunciations merged, as the audio was voiced with them
+  publishing?: PublishingPackage;
+  audioId: number;            // Key of the audio Blob in storage, shared by versions with the same audio
+  timestamp: string;
+}
+
+// Target length of a recap script; minutes are converted at a narration pace.
+export interface TargetLength {
+  value: number;
+  unit: 'minutes' | 'words';
+}
+
+// A named recap style. The template is the writer's brief; {language},
+// {length} and {tone} are filled in when a recap is generated.
+export interface RecapPreset {
+  id: string;
+  name: string;
+  tone: string;
+  promptTemplate: string;
+  targetLength: TargetLength | null; // null leaves the length to the model
+  temperature: number;
+  builtIn?: boolean;                 // Shipped with the app and read-only
+}
+
+// How the TTS should say a term: the term is replaced by its respelling in
+// the text sent for synthesis only.
+export interface LexiconEntry {
+  term: string;
+  respelling: string;
+}
+
+// Script and voicing choices a recap was made with, beyond preset and language.
+export interface RecapSettings {
+  dialogue: boolean;
+  paragraphGapMs: number;
+  beatSheet?: string; // The reviewed beat sheet the script was written from
+}
+
+// Where the transcript came from.
+export interface RecapSource {
+  fileName?: string;   // Media or subtitle file
+  youtubeUrl?: string;
+  cues?: TimedCue[];   // Line timings, when the transcript has them
+}
+
+// A saved recap. Audio is stored separately and loaded on demand.
+export interface HistoryItem {
+  id: number;
+  timestamp: string;
+  versions: RecapVersion[]; // Oldest first; the last entry is the current version
+  preset?: RecapPreset;     // The style the recap was written in; absent on older items
+  lexicon?: LexiconEntry[]; // Pronunciations for this recap only, on top of the global lexicon
+  language?: string;        // Absent on older items, as are the two below
+  transcript?: string;      // The source the recap was written from, for search
+  tags?: string[];
+  settings?: RecapSettings; // Absent on items saved before settings were recorded
+  source?: RecapSource;
+}
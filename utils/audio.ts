@@ -10,6 +10,16 @@ function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+// Encodes a Uint8Array into a base64 string.
+function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const step = 0x8000;
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return btoa(binary);
+}
+
 // Encodes raw PCM data (Int16Array) into a WAV file format (Blob).
 function encodeWAV(samples: Int16Array, sampleRate: number, numChannels: number): Blob {
   const buffer = new ArrayBuffer(44 + samples.length * 2);
@@ -48,16 +58,77 @@ function writeString(view: DataView, offset: number, string: string) {
   }
 }
 
-// Creates a WAV Blob from base64 encoded raw PCM audio data.
-function createWavBlob(base64Audio: string): Blob {
+// Gemini TTS model for `generateContent` has a sample rate of 24000
+export const TTS_SAMPLE_RATE = 24000;
+
+// Decodes base64 encoded raw 16-bit PCM into samples.
+export function decodePcm(base64Audio: string): Int16Array {
   const rawData = decode(base64Audio);
-  const pcmData = new Int16Array(rawData.buffer);
+  return new Int16Array(rawData.buffer, rawData.byteOffset, Math.floor(rawData.byteLength / 2));
+}
+
+// Encodes 16-bit PCM samples back into base64.
+export function encodePcm(samples: Int16Array): string {
+  return encode(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength));
+}
+
+// One synthesized piece of audio and the silence to insert after it.
+export interface PcmSegment {
+  base64Audio: string;
+  gapAfterMs?: number;
+}
+
+export interface StitchedPcm {
+  base64Audio: string;
+  spans: { start: number; end: number }[]; // Where each segment landed, in seconds
+}
+
+// Returns the duration in seconds of base64 encoded 16-bit mono PCM.
+export function getPcmDuration(base64Audio: string, sampleRate: number = TTS_SAMPLE_RATE): number {
+  return decodePcm(base64Audio).length / sampleRate;
+}
+
+// Concatenates base64 PCM segments in order, inserting silence gaps between
+// them, and returns the stitched audio as base64 PCM.
+export function stitchPcm(segments: PcmSegment[], sampleRate: number = TTS_SAMPLE_RATE): StitchedPcm {
+  const parts = segments.map(segment => decodePcm(segment.base64Audio));
+  const gaps = segments.map((segment, i) =>
+    i < segments.length - 1 ? Math.round(((segment.gapAfterMs ?? 0) / 1000) * sampleRate) : 0
+  );
 
-  // Gemini TTS model for `generateContent` has a sample rate of 24000
-  const sampleRate = 24000; 
+  const totalLength = parts.reduce((sum, part, i) => sum + part.length + gaps[i], 0);
+  const output = new Int16Array(totalLength);
+  const spans: StitchedPcm['spans'] = [];
+  let offset = 0;
+  parts.forEach((part, i) => {
+    output.set(part, offset);
+    spans.push({ start: offset / sampleRate, end: (offset + part.length) / sampleRate });
+    offset += part.length + gaps[i]; // Gap samples are already zero
+  });
+
+  return { base64Audio: encodePcm(output), spans };
+}
+
+// Replaces the audio between two times (in seconds) with other PCM audio.
+export function splicePcm(base64Audio: string, startSeconds: number, endSeconds: number, replacementBase64: string, sampleRate: number = TTS_SAMPLE_RATE): string {
+  const samples = decodePcm(base64Audio);
+  const replacement = decodePcm(replacementBase64);
+  const start = Math.min(samples.length, Math.max(0, Math.round(startSeconds * sampleRate)));
+  const end = Math.min(samples.length, Math.max(start, Math.round(endSeconds * sampleRate)));
+
+  const output = new Int16Array(samples.length - (end - start) + replacement.length);
+  output.set(samples.subarray(0, start), 0);
+  output.set(replacement, start);
+  output.set(samples.subarray(end), start + replacement.length);
+  return encodePcm(output);
+}
+
+// Creates a WAV Blob from base64 encoded raw PCM audio data.
+export function createWavBlob(base64Audio: string): Blob {
+  const pcmData = decodePcm(base64Audio);
   const numChannels = 1;
 
-  const wavBlob = encodeWAV(pcmData, sampleRate, numChannels);
+  const wavBlob = encodeWAV(pcmData, TTS_SAMPLE_RATE, numChannels);
   return wavBlob;
 }
 
@@ -68,3 +139,185 @@ export function createWavUrl(base64Audio: string): string {
   const url = URL.createObjectURL(wavBlob);
   return url;
 }
+
+// Reads the PCM back out of a WAV written by createWavBlob. Other layouts
+// would need resampling, so they are rejected rather than guessed at.
+export function readWavPcm(buffer: ArrayBuffer): string {
+  const view = new DataView(buffer);
+  const text = (offset: number) => String.fromCharCode(...new Uint8Array(buffer, offset, 4));
+  if (buffer.byteLength < 12 || text(0) !== 'RIFF' || text(8) !== 'WAVE') {
+    throw new Error('Not a WAV file.');
+  }
+
+  let formatOk = false;
+  for (let offset = 12; offset + 8 <= buffer.byteLength;) {
+    const id = text(offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      formatOk = view.getUint16(offset + 8, true) === 1
+        && view.getUint16(offset + 10, true) === 1
+        && view.getUint32(offset + 12, true) === TTS_SAMPLE_RATE
+        && view.getUint16(offset + 22, true) === 16;
+    } else if (id === 'data') {
+      if (!formatOk) throw new Error(`Expected 16-bit mono PCM at ${TTS_SAMPLE_RATE} Hz.`);
+      const length = Math.min(size, buffer.byteLength - offset - 8);
+      return encode(new Uint8Array(buffer, offset + 8, length - (length % 2)));
+    }
+    offset += 8 + size + (size % 2); // Chunks are padded to an even size
+  }
+  throw new Error('The WAV file has no audio data.');
+}
+
+export interface MusicBedOptions {
+  musicVolume?: number;     // Music gain with no speech, 0 to 1
+  duckDepth?: number;       // How far music drops under speech, 0 (none) to 1 (silent)
+  fadeInSeconds?: number;
+  fadeOutSeconds?: number;
+  tailSeconds?: number;     // Music kept after the narration ends
+  outputSampleRate?: number;
+}
+
+// Rate at which the ducking gain curve is sampled.
+const ENVELOPE_RATE = 100;
+// Narration RMS above this (on a 0..1 scale) counts as speech.
+const SPEECH_THRESHOLD = 0.02;
+const DUCK_ATTACK_SECONDS = 0.08;
+const DUCK_RELEASE_SECONDS = 0.4;
+
+// Converts a float sample to 16-bit PCM.
+export function floatToInt16(value: number): number {
+  const clamped = Math.max(-1, Math.min(1, value));
+  return clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+}
+
+// Encodes float channels as an interleaved 16-bit WAV Blob.
+export function encodeFloatWav(channels: Float32Array[], sampleRate: number): Blob {
+  const numChannels = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const samples = new Int16Array(length * numChannels);
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      samples[i * numChannels + c] = floatToInt16(channels[c][i]);
+    }
+  }
+  return encodeWAV(samples, sampleRate, numChannels);
+}
+
+// Decodes the audio track of a media file and downmixes it to mono.
+// decodeAudioData resamples to the context's rate, so a low rate also keeps
+// the decoded buffer of a long film small.
+export async function decodeMediaToMono(data: ArrayBuffer, sampleRate: number): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(data);
+  const mono = buffer.getChannelData(0).slice();
+  for (let c = 1; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i];
+  }
+  if (buffer.numberOfChannels > 1) {
+    for (let i = 0; i < mono.length; i++) mono[i] /= buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+// Reads a media file's length from its metadata without decoding it, or null
+// when the browser can't tell.
+export function readMediaDuration(file: File): Promise<number | null> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const element = document.createElement(file.type.startsWith('video/') ? 'video' : 'audio');
+    const done = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    element.preload = 'metadata';
+    element.onloadedmetadata = () => done(Number.isFinite(element.duration) ? element.duration : null);
+    element.onerror = () => done(null);
+    element.src = url;
+  });
+}
+
+// Converts a rendered AudioBuffer to an interleaved 16-bit WAV Blob.
+export function encodeAudioBuffer(buffer: AudioBuffer): Blob {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  return encodeFloatWav(channels, buffer.sampleRate);
+}
+
+// Returns how much speech is present (0 to 1) at ENVELOPE_RATE steps,
+// smoothed with attack and release so the music moves gently.
+function speechEnvelope(samples: Int16Array, sampleRate: number, steps: number): Float32Array {
+  const windowSize = Math.floor(sampleRate / ENVELOPE_RATE);
+  const envelope = new Float32Array(steps);
+  const attack = 1 - Math.exp(-1 / (DUCK_ATTACK_SECONDS * ENVELOPE_RATE));
+  const release = 1 - Math.exp(-1 / (DUCK_RELEASE_SECONDS * ENVELOPE_RATE));
+
+  let level = 0;
+  for (let step = 0; step < steps; step++) {
+    let sum = 0;
+    const start = step * windowSize;
+    const end = Math.min(samples.length, start + windowSize);
+    for (let i = start; i < end; i++) {
+      const value = samples[i] / 0x8000;
+      sum += value * value;
+    }
+    const rms = end > start ? Math.sqrt(sum / (end - start)) : 0;
+    const target = rms > SPEECH_THRESHOLD ? 1 : 0;
+    level += (target - level) * (target > level ? attack : release);
+    envelope[step] = level;
+  }
+  return envelope;
+}
+
+// Mixes the narration over a looped or trimmed music bed, with fades and
+// sidechain ducking driven by the narration's envelope, and renders the
+// result offline to a stereo WAV Blob.
+export async function mixMusicBed(base64Audio: string, music: ArrayBuffer, options: MusicBedOptions = {}): Promise<Blob> {
+  const {
+    musicVolume = 0.3,
+    duckDepth = 0.7,
+    fadeInSeconds = 2,
+    fadeOutSeconds = 3,
+    tailSeconds = 2,
+    outputSampleRate = 44100,
+  } = options;
+
+  const narrationSamples = decodePcm(base64Audio);
+  const narrationSeconds = narrationSamples.length / TTS_SAMPLE_RATE;
+  const totalSeconds = narrationSeconds + tailSeconds;
+  const context = new OfflineAudioContext(2, Math.ceil(totalSeconds * outputSampleRate), outputSampleRate);
+
+  const narrationBuffer = context.createBuffer(1, narrationSamples.length, TTS_SAMPLE_RATE);
+  const narrationData = narrationBuffer.getChannelData(0);
+  for (let i = 0; i < narrationSamples.length; i++) {
+    narrationData[i] = narrationSamples[i] / 0x8000;
+  }
+  const musicBuffer = await context.decodeAudioData(music);
+
+  const narrationSource = context.createBufferSource();
+  narrationSource.buffer = narrationBuffer;
+  narrationSource.connect(context.destination);
+
+  const musicSource = context.createBufferSource();
+  musicSource.buffer = musicBuffer;
+  musicSource.loop = musicBuffer.duration < totalSeconds;
+  const musicGain = context.createGain();
+  musicSource.connect(musicGain).connect(context.destination);
+
+  // One gain curve carries ducking and both fades
+  const steps = Math.max(2, Math.ceil(totalSeconds * ENVELOPE_RATE));
+  const envelope = speechEnvelope(narrationSamples, TTS_SAMPLE_RATE, steps);
+  const curve = new Float32Array(steps);
+  for (let step = 0; step < steps; step++) {
+    const time = step / ENVELOPE_RATE;
+    const fadeIn = fadeInSeconds > 0 ? Math.min(1, time / fadeInSeconds) : 1;
+    const fadeOut = fadeOutSeconds > 0 ? Math.min(1, (totalSeconds - time) / fadeOutSeconds) : 1;
+    curve[step] = musicVolume * (1 - duckDepth * envelope[step]) * Math.max(0, fadeIn) * Math.max(0, fadeOut);
+  }
+  musicGain.gain.setValueCurveAtTime(curve, 0, totalSeconds);
+
+  narrationSource.start(0);
+  musicSource.start(0);
+  musicSource.stop(totalSeconds);
+
+  return encodeAudioBuffer(await context.startRendering());
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { SpeechSegment } from '../types';
+import { encodePcm } from './audio';
+import {
+  DEFAULT_SILENCE_TRIM, NO_EDITS, applyAudioEdits, computePeaks, findSilences, keptRanges, removedRanges, renderKept, toEditedTime, toSourceTime,
+} from './audioEdit';
+
+// A low rate keeps the audio small; the edits only depend on seconds.
+const SAMPLE_RATE = 1000;
+
+// Speech-level tone and silence, one entry per `seconds`.
+const audio = (...parts: [loud: boolean, seconds: number][]) => {
+  const samples: number[] = [];
+  for (const [loud, seconds] of parts) {
+    for (let i = 0; i < seconds * SAMPLE_RATE; i++) samples.push(loud ? (i % 2 ? 8000 : -8000) : 0);
+  }
+  return Int16Array.from(samples);
+};
+
+describe('findSilences', () => {
+  it('removes the middle of long pauses, keeping half of keepMs on each side', () => {
+    const silences = findSilences(audio([true, 1], [false, 1], [true, 1]), DEFAULT_SILENCE_TRIM, SAMPLE_RATE);
+    expect(silences).toHaveLength(1);
+    expect(silences[0].start).toBeCloseTo(1.15);
+    expect(silences[0].end).toBeCloseTo(1.85);
+  });
+
+  it('leaves pauses shorter than the minimum gap and trims a silent ending', () => {
+    expect(findSilences(audio([true, 1], [false, 0.5], [true, 1]), DEFAULT_SILENCE_TRIM, SAMPLE_RATE)).toEqual([]);
+    const [ending] = findSilences(audio([true, 1], [false, 1]), DEFAULT_SILENCE_TRIM, SAMPLE_RATE);
+    expect(ending.end).toBeCloseTo(1.85);
+  });
+});
+
+describe('keptRanges', () => {
+  it('merges overlapping and reversed ranges and clamps them to the audio', () => {
+    expect(keptRanges(10, [{ start: 3, end: 2 }, { start: 2.5, end: 4 }, { start: 9, end: 12 }, { start: -1, end: 0.5 }])).toEqual([
+      { start: 0.5, end: 2 },
+      { start: 4, end: 9 },
+    ]);
+  });
+
+  it('keeps everything when nothing is removed', () => {
+    expect(keptRanges(10, [])).toEqual([{ start: 0, end: 10 }]);
+  });
+});
+
+describe('toEditedTime and toSourceTime', () => {
+  const kept = [{ start: 0, end: 2 }, { start: 4, end: 9 }];
+
+  it('map moments between the original and the edited audio', () => {
+    expect(toEditedTime(kept, 1)).toBe(1);
+    expect(toEditedTime(kept, 5)).toBe(3);
+    expect(toSourceTime(kept, 3)).toBe(5);
+    expect(toSourceTime(kept, 1)).toBe(1);
+  });
+
+  it('move a moment inside a removed range to where the next kept part starts', () => {
+    expect(toEditedTime(kept, 3)).toBe(2);
+    expect(toEditedTime(kept, 20)).toBe(7);
+    expect(toSourceTime(kept, 20)).toBe(9);
+  });
+});
+
+describe('removedRanges', () => {
+  it('adds the long pauses to the cuts only when trimming', () => {
+    const samples = audio([true, 1], [false, 1], [true, 1]);
+    const cut = { start: 0, end: 0.5 };
+    expect(removedRanges(samples, { ...NO_EDITS, cuts: [cut] }, SAMPLE_RATE)).toEqual([cut]);
+    expect(removedRanges(samples, { ...NO_EDITS, cuts: [cut], silence: DEFAULT_SILENCE_TRIM }, SAMPLE_RATE)).toHaveLength(2);
+  });
+});
+
+describe('renderKept', () => {
+  it('joins the kept parts and fades at each join', () => {
+    const samples = new Int16Array(3000).fill(10000);
+    const output = renderKept(samples, [{ start: 0, end: 1 }, { start: 2, end: 3 }], SAMPLE_RATE);
+    expect(output).toHaveLength(2000);
+    expect(output[0]).toBe(10000);
+    expect(output[999]).toBe(0);
+    expect(output[1000]).toBe(0);
+    expect(output[1999]).toBe(10000);
+  });
+});
+
+describe('applyAudioEdits', () => {
+  const samples = audio([true, 1], [false, 1], [true, 1]);
+  const segments: SpeechSegment[] = [
+    { start: 0, end: 1, text: 'One.', paragraphIndex: 0 },
+    { start: 1.2, end: 1.8, text: '', paragraphIndex: 1 },
+    { start: 2, end: 3, text: 'Two.', paragraphIndex: 2 },
+  ];
+
+  it('renders cuts and moves the segments with their speech', () => {
+    const edited = applyAudioEdits(encodePcm(samples), segments, { ...NO_EDITS, cuts: [{ start: 1, end: 2 }] }, SAMPLE_RATE);
+    expect(edited.base64Audio).toBe(encodePcm(renderKept(samples, [{ start: 0, end: 1 }, { start: 2, end: 3 }], SAMPLE_RATE)));
+    expect(edited.segments.map(segment => [segment.start, segment.end])).toEqual([[0, 1], [1, 1], [1, 2]]);
+  });
+
+  it('scales the timings by the tempo', () => {
+    const edited = applyAudioEdits(encodePcm(samples), segments, { ...NO_EDITS, tempo: 1.5 }, SAMPLE_RATE);
+    expect(atob(edited.base64Audio)).toHaveLength(2 * 2000);
+    expect(edited.segments[2]).toEqual({ ...segments[2], start: 2 / 1.5, end: 2 });
+  });
+});
+
+describe('computePeaks', () => {
+  it('finds the loudest sample in each slice', () => {
+    expect(Array.from(computePeaks(Int16Array.from([0, -16384, 8192, 0]), 2))).toEqual([0.5, 0.25]);
+  });
+});
@@ -0,0 +1,165 @@
+import { SpeechSegment } from "../types";
+import { TTS_SAMPLE_RATE, decodePcm, encodePcm } from "./audio";
+import { stretchPcm } from "./timeStretch";
+
+export interface TimeRange {
+  start: number; // Seconds into the original audio
+  end: number;
+}
+
+// Pauses quieter than the threshold and longer than the minimum gap are
+// shortened to `keepMs`, so the narration keeps a natural breath.
+export interface SilenceTrim {
+  thresholdDb: number; // dBFS below which a stretch counts as silence
+  minGapMs: number;
+  keepMs: number;
+}
+
+// An edit list over the original audio. Nothing is rendered until the edits
+// are applied, so every step can be undone or changed.
+export interface AudioEdits {
+  cuts: TimeRange[];
+  silence: SilenceTrim | null;
+  tempo: number; // Speed without a change of pitch; 1 leaves it alone
+}
+
+export const NO_EDITS: AudioEdits = { cuts: [], silence: null, tempo: 1 };
+export const DEFAULT_SILENCE_TRIM: SilenceTrim = { thresholdDb: -40, minGapMs: 600, keepMs: 300 };
+
+// Loudness is measured over windows this long when looking for silence.
+const SILENCE_WINDOW_SECONDS = 0.01;
+// Each join is faded out and in over this long, so cuts do not click.
+const JOIN_FADE_SECONDS = 0.003;
+
+// Finds the part of each long pause to remove, leaving half of `keepMs` of
+// silence on either side of it.
+export function findSilences(samples: Int16Array, trim: SilenceTrim, sampleRate: number = TTS_SAMPLE_RATE): TimeRange[] {
+  const window = Math.max(1, Math.round(SILENCE_WINDOW_SECONDS * sampleRate));
+  const threshold = 0x8000 * 10 ** (trim.thresholdDb / 20);
+  const minGap = trim.minGapMs / 1000;
+  const keep = trim.keepMs / 2000;
+  const silences: TimeRange[] = [];
+
+  let runStart = -1;
+  for (let offset = 0; offset <= samples.length; offset += window) {
+    let silent = false;
+    if (offset < samples.length) {
+      const end = Math.min(samples.length, offset + window);
+      let sum = 0;
+      for (let i = offset; i < end; i++) sum += samples[i] * samples[i];
+      silent = Math.sqrt(sum / (end - offset)) < threshold;
+    }
+    if (silent && runStart < 0) {
+      runStart = offset;
+    } else if (!silent && runStart >= 0) {
+      const start = runStart / sampleRate;
+      const end = Math.min(offset, samples.length) / sampleRate;
+      if (end - start >= minGap && end - start > 2 * keep) silences.push({ start: start + keep, end: end - keep });
+      runStart = -1;
+    }
+  }
+  return silences;
+}
+
+// The parts of the audio that survive the removed ranges, in order.
+export function keptRanges(durationSeconds: number, removed: TimeRange[]): TimeRange[] {
+  const sorted = removed
+    .map(range => ({ start: Math.max(0, Math.min(range.start, range.end)), end: Math.min(durationSeconds, Math.max(range.start, range.end)) }))
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+  const kept: TimeRange[] = [];
+  let position = 0;
+  for (const range of sorted) {
+    if (range.start > position) kept.push({ start: position, end: range.start });
+    position = Math.max(position, range.end);
+  }
+  if (position < durationSeconds) kept.push({ start: position, end: durationSeconds });
+  return kept;
+}
+
+// Where a moment of the original audio ends up once the removed ranges are
+// taken out. A moment inside a removed range lands where the next kept part starts.
+export function toEditedTime(kept: TimeRange[], sourceTime: number): number {
+  let offset = 0;
+  for (const range of kept) {
+    if (sourceTime < range.start) return offset;
+    if (sourceTime <= range.end) return offset + sourceTime - range.start;
+    offset += range.end - range.start;
+  }
+  return offset;
+}
+
+// The moment of the original audio playing at a time in the edited audio.
+export function toSourceTime(kept: TimeRange[], editedTime: number): number {
+  let offset = 0;
+  for (const range of kept) {
+    const length = range.end - range.start;
+    if (editedTime <= offset + length) return range.start + Math.max(0, editedTime - offset);
+    offset += length;
+  }
+  return kept.length > 0 ? kept[kept.length - 1].end : 0;
+}
+
+// Everything the edits take out: the cuts and, when trimming, the long pauses.
+export function removedRanges(samples: Int16Array, edits: AudioEdits, sampleRate: number = TTS_SAMPLE_RATE): TimeRange[] {
+  return [...edits.cuts, ...(edits.silence ? findSilences(samples, edits.silence, sampleRate) : [])];
+}
+
+// Joins the kept parts, fading briefly at each join.
+export function renderKept(samples: Int16Array, kept: TimeRange[], sampleRate: number = TTS_SAMPLE_RATE): Int16Array {
+  const parts = kept.map(range => samples.subarray(Math.round(range.start * sampleRate), Math.round(range.end * sampleRate)));
+  const output = new Int16Array(parts.reduce((length, part) => length + part.length, 0));
+  const fade = Math.round(JOIN_FADE_SECONDS * sampleRate);
+  let offset = 0;
+  parts.forEach((part, index) => {
+    output.set(part, offset);
+    const length = Math.min(fade, Math.floor(part.length / 2));
+    for (let i = 0; i < length; i++) {
+      const gain = i / length;
+      if (index > 0) output[offset + i] *= gain;
+      if (index < parts.length - 1) output[offset + part.length - 1 - i] *= gain;
+    }
+    offset += part.length;
+  });
+  return output;
+}
+
+// Renders the edits into new audio, with the segments moved to where their
+// speech now is. Segments that were cut entirely keep a zero-length span, so
+// paragraph indexes stay complete.
+export function applyAudioEdits(
+  base64Audio: string,
+  segments: SpeechSegment[],
+  edits: AudioEdits,
+  sampleRate: number = TTS_SAMPLE_RATE
+): { base64Audio: string; segments: SpeechSegment[] } {
+  const samples = decodePcm(base64Audio);
+  const kept = keptRanges(samples.length / sampleRate, removedRanges(samples, edits, sampleRate));
+  const joined = renderKept(samples, kept, sampleRate);
+  const output = edits.tempo === 1 ? joined : stretchPcm(joined, edits.tempo, sampleRate);
+  return {
+    base64Audio: encodePcm(output),
+    segments: segments.map(segment => ({
+      ...segment,
+      start: toEditedTime(kept, segment.start) / edits.tempo,
+      end: toEditedTime(kept, segment.end) / edits.tempo,
+    })),
+  };
+}
+
+// The loudest sample in each of `buckets` equal slices, on a 0..1 scale, for
+// drawing a waveform.
+export function computePeaks(samples: Int16Array, buckets: number): Float32Array {
+  const peaks = new Float32Array(buckets);
+  const size = samples.length / buckets;
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const end = Math.min(samples.length, Math.round((bucket + 1) * size));
+    let peak = 0;
+    for (let i = Math.round(bucket * size); i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[bucket] = peak / 0x8000;
+  }
+  return peaks;
+}
@@ -0,0 +1,15 @@
+// Triggers a browser download of the given blob.
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadText(content: string, fileName: string, mimeType: string = 'text/plain') {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
+}
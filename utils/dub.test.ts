@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { fitDubClips, trimEdgeSilence } from './dub';
+
+// A low rate keeps the clips small; fitting only depends on seconds.
+const SAMPLE_RATE = 1000;
+
+// A clip of steady speech-level samples, `seconds` long.
+const clip = (seconds: number) => new Int16Array(Math.round(seconds * SAMPLE_RATE)).fill(8000);
+
+describe('trimEdgeSilence', () => {
+  it('drops quiet samples at either end only', () => {
+    expect(Array.from(trimEdgeSilence(Int16Array.from([0, 100, 8000, 0, -8000, 50, 0])))).toEqual([8000, 0, -8000]);
+    expect(trimEdgeSilence(new Int16Array(5))).toHaveLength(0);
+  });
+});
+
+describe('fitDubClips', () => {
+  const lines = [{ start: 0, end: 1.5 }, { start: 2, end: 3 }, { start: 4, end: 5 }];
+
+  it('places clips that fit at their line without changing them', () => {
+    const { samples, fits } = fitDubClips(lines, [clip(1), clip(1), clip(0.5)], 1.3, SAMPLE_RATE);
+    expect(fits).toEqual([{ speed: 1, overrunSeconds: 0 }, { speed: 1, overrunSeconds: 0 }, { speed: 1, overrunSeconds: 0 }]);
+    expect(samples).toHaveLength(5000);
+    expect(samples[1500]).toBe(0);
+    expect(samples[2500]).toBe(8000);
+  });
+
+  it('speeds up a clip that runs into the next line, up to the limit', () => {
+    const { fits } = fitDubClips(lines, [clip(2.4), clip(3), null], 1.3, SAMPLE_RATE);
+    expect(fits[0]!.speed).toBeCloseTo(1.2);
+    expect(fits[0]!.overrunSeconds).toBeCloseTo(0, 2);
+    // The last clip has the rest of the track, so it is never sped up
+    expect(fits[1]).toEqual({ speed: 1, overrunSeconds: 0 });
+    expect(fits[2]).toBeNull();
+  });
+
+  it('reports what still overruns at the limit', () => {
+    const { fits } = fitDubClips(lines, [clip(3.9), clip(1), null], 1.3, SAMPLE_RATE);
+    expect(fits[0]!.speed).toBe(1.3);
+    expect(fits[0]!.overrunSeconds).toBeCloseTo(1, 2);
+  });
+
+  it('gives a line without a clip to the line before it', () => {
+    const { fits } = fitDubClips(lines, [clip(3.5), null, clip(1)], 1.3, SAMPLE_RATE);
+    expect(fits).toEqual([{ speed: 1, overrunSeconds: 0 }, null, { speed: 1, overrunSeconds: 0 }]);
+  });
+
+  it('clamps overlapping lines instead of wrapping', () => {
+    const { samples } = fitDubClips([{ start: 0, end: 1 }, { start: 0.5, end: 1 }], [clip(1).fill(30000), clip(0.5).fill(30000)], 1, SAMPLE_RATE);
+    expect(samples[750]).toBe(0x7fff);
+  });
+});
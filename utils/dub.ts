@@ -0,0 +1,63 @@
+import { TTS_SAMPLE_RATE } from "./audio";
+import { stretchPcm } from "./timeStretch";
+
+// How a dubbed line was fitted into the time of the line it replaces.
+export interface DubFit {
+  speed: number;          // Tempo applied to the clip; 1 when it fit as synthesized
+  overrunSeconds: number; // How far it still runs into the next line, even sped up
+}
+
+// Faster than this, dubbed speech starts to sound rushed.
+export const DEFAULT_MAX_SPEEDUP = 1.3;
+// Smaller tempo changes are not worth the stretching artifacts.
+const MIN_SPEEDUP = 1.03;
+// Samples quieter than this (about -40 dBFS) count as silence at clip edges.
+const EDGE_SILENCE = 0.01 * 0x7fff;
+
+// Drops the silence TTS leaves before and after the speech, so it does not
+// eat into the time the line has.
+export function trimEdgeSilence(samples: Int16Array): Int16Array {
+  let start = 0;
+  let end = samples.length;
+  while (start < end && Math.abs(samples[start]) < EDGE_SILENCE) start++;
+  while (end > start && Math.abs(samples[end - 1]) < EDGE_SILENCE) end--;
+  return samples.subarray(start, end);
+}
+
+// Places each clip at the start of its line. A clip is padded with silence
+// when it is shorter than the time until the next spoken line, and sped up
+// (without changing pitch) when longer, up to `maxSpeedup`. What still does
+// not fit overlaps the next line and is reported in its fit. Lines without a
+// clip stay silent. The track lasts at least until the last line ends.
+export function fitDubClips(
+  lines: { start: number; end: number }[],
+  clips: (Int16Array | null)[],
+  maxSpeedup: number = DEFAULT_MAX_SPEEDUP,
+  sampleRate: number = TTS_SAMPLE_RATE
+): { samples: Int16Array; fits: (DubFit | null)[] } {
+  const placed: { offset: number; samples: Int16Array }[] = [];
+  const fits = lines.map((line, i) => {
+    const clip = clips[i] && trimEdgeSilence(clips[i]!);
+    if (!clip || clip.length === 0) return null;
+
+    const next = lines.findIndex((other, j) => j > i && clips[j]);
+    const available = next === -1 ? Infinity : lines[next].start - line.start;
+    const duration = clip.length / sampleRate;
+    const needed = duration / available;
+    const speed = needed >= MIN_SPEEDUP ? Math.min(needed, Math.max(1, maxSpeedup)) : 1;
+    const samples = speed === 1 ? clip : stretchPcm(clip, speed, sampleRate);
+
+    placed.push({ offset: Math.round(line.start * sampleRate), samples });
+    return { speed, overrunSeconds: Math.max(0, samples.length / sampleRate - available) };
+  });
+
+  const lastEnd = lines.reduce((end, line) => Math.max(end, Math.round(line.end * sampleRate)), 0);
+  const length = placed.reduce((end, clip) => Math.max(end, clip.offset + clip.samples.length), lastEnd);
+  const mix = new Int32Array(length);
+  for (const clip of placed) {
+    for (let i = 0; i < clip.samples.length; i++) mix[clip.offset + i] += clip.samples[i];
+  }
+  // Overlapping lines are summed, so clamp rather than wrap
+  const samples = Int16Array.from(mix, sample => Math.max(-0x8000, Math.min(0x7fff, sample)));
+  return { samples, fits };
+}
@@ -0,0 +1,40 @@
+import { SpeechSegment } from "../types";
+import { AudioEdits } from "./audioEdit";
+
+// Message sent to the edit worker.
+export interface RenderEditsRequest {
+  base64Audio: string;
+  segments: SpeechSegment[];
+  edits: AudioEdits;
+}
+
+// Reply from the edit worker: the edited narration, or why rendering failed.
+export interface RenderEditsResponse {
+  audio?: { base64Audio: string; segments: SpeechSegment[] };
+  error?: string;
+}
+
+// Renders cuts, pause trimming and tempo in a Web Worker, so a long tempo
+// change does not freeze the page.
+export async function renderAudioEdits(
+  base64Audio: string,
+  segments: SpeechSegment[],
+  edits: AudioEdits
+): Promise<{ base64Audio: string; segments: SpeechSegment[] }> {
+  const worker = new Worker(new URL('../workers/audioEditWorker.ts', import.meta.url), { type: 'module' });
+
+  try {
+    const response = await new Promise<RenderEditsResponse>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<RenderEditsResponse>) => resolve(event.data);
+      worker.onerror = (event) => reject(new Error(event.message || 'The audio editor stopped unexpectedly.'));
+      const request: RenderEditsRequest = { base64Audio, segments, edits };
+      worker.postMessage(request);
+    });
+    if (!response.audio) {
+      throw new Error(response.error || 'Could not apply the edits.');
+    }
+    return response.audio;
+  } finally {
+    worker.terminate();
+  }
+}
@@ -0,0 +1,84 @@
+export type ExportFormat = 'wav' | 'mp3' | 'opus';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  bitrate: number;          // kbps; ignored for WAV
+  targetLufs: number | null; // Loudness normalization target, or null to leave levels alone
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: 'wav', label: 'WAV (uncompressed)', extension: 'wav' },
+  { value: 'mp3', label: 'MP3', extension: 'mp3' },
+  { value: 'opus', label: 'Opus (WebM)', extension: 'webm' },
+];
+
+export const EXPORT_BITRATES = [64, 96, 128, 192, 256];
+
+// Message sent to the encoder worker.
+export interface EncodeRequest {
+  format: ExportFormat;
+  bitrate: number;
+  sampleRate: number;
+  channels: Float32Array[];
+  targetLufs: number | null;
+}
+
+// Reply from the encoder worker: the encoded file, or why encoding failed.
+export interface EncodeResponse {
+  blob?: Blob;
+  error?: string;
+}
+
+// Opus only runs at a few fixed rates; 48 kHz is the native one.
+const OPUS_SAMPLE_RATE = 48000;
+// Sample rates the MP3 encoder accepts.
+const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000];
+
+// Reads the sample rate from a WAV header.
+function wavSampleRate(header: ArrayBuffer): number {
+  return new DataView(header).getUint32(24, true);
+}
+
+// Decodes a WAV into float channels, resampled to the rate the format needs.
+async function decodeForFormat(wav: Blob, format: ExportFormat): Promise<{ channels: Float32Array[]; sampleRate: number }> {
+  const data = await wav.arrayBuffer();
+  const sourceRate = wavSampleRate(data);
+  const sampleRate = format === 'opus' ? OPUS_SAMPLE_RATE
+    : format === 'mp3' && !MP3_SAMPLE_RATES.includes(sourceRate) ? 44100
+    : sourceRate;
+
+  // decodeAudioData resamples to the context's rate
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(data);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+  return { channels, sampleRate };
+}
+
+// Converts a WAV Blob to the chosen export format in a Web Worker.
+export async function exportAudio(wav: Blob, options: ExportOptions): Promise<Blob> {
+  if (options.format === 'wav' && options.targetLufs === null) {
+    return wav;
+  }
+
+  const { channels, sampleRate } = await decodeForFormat(wav, options.format);
+  const worker = new Worker(new URL('../workers/encoderWorker.ts', import.meta.url), { type: 'module' });
+
+  try {
+    const response = await new Promise<EncodeResponse>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<EncodeResponse>) => resolve(event.data);
+      worker.onerror = (event) => reject(new Error(event.message || 'The encoder stopped unexpectedly.'));
+      const request: EncodeRequest = { ...options, sampleRate, channels };
+      worker.postMessage(request, channels.map(channel => channel.buffer));
+    });
+    if (!response.blob) {
+      throw new Error(response.error || 'Encoding failed.');
+    }
+    return response.blob;
+  } finally {
+    worker.terminate();
+  }
+}
+
+export function exportExtension(format: ExportFormat): string {
+  return EXPORT_FORMATS.find(f => f.value === format)?.extension ?? 'wav';
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { HistoryItem } from '../types';
+import { EMPTY_HISTORY_QUERY, HistoryQuery, filterHistory, historySearchText, listTags, sortHistory } from './historySearch';
+
+// Midday, so the local date is the same in every time zone the tests run in.
+const item = (id: number, date: string, overrides: Partial<HistoryItem> = {}, minutes?: number, title = `Recap ${id}`): HistoryItem => ({
+  id,
+  timestamp: `${date}T12:00:00.000Z`,
+  versions: [{ version: 1, title, script: 'Script.', voice: 'Kore', durationSeconds: minutes === undefined ? undefined : minutes * 60, audioId: id, timestamp: `${date}T12:00:00.000Z` }],
+  ...overrides,
+});
+
+const heist = item(1, '2026-03-01', { language: 'Burmese', tags: ['Heist', 'drama '], transcript: 'The vault opens at dawn.' }, 8, 'The Heist');
+const comedy = item(2, '2026-03-10', { language: 'Thai', tags: ['comedy'] }, 3, 'A Comedy');
+const old = item(3, '2026-02-20', {}, undefined, 'Old Recap');
+const items = [heist, comedy, old];
+
+const ids = (query: Partial<HistoryQuery>) =>
+  filterHistory(items, { ...EMPTY_HISTORY_QUERY, ...query }, historySearchText).map(found => found.id);
+
+describe('filterHistory', () => {
+  it('lists everything, newest first, for an empty query', () => {
+    expect(ids({})).toEqual([2, 1, 3]);
+  });
+
+  it('needs every word somewhere in the titles, scripts, transcript or tags', () => {
+    expect(ids({ text: 'VAULT heist' })).toEqual([1]);
+    expect(ids({ text: 'vault comedy' })).toEqual([]);
+    expect(ids({ text: 'drama' })).toEqual([1]);
+  });
+
+  it('needs every tag, compared without case or spaces', () => {
+    expect(ids({ tags: ['heist', ' DRAMA'] })).toEqual([1]);
+    expect(ids({ tags: ['heist', 'comedy'] })).toEqual([]);
+  });
+
+  it('filters by language, voice and date range', () => {
+    expect(ids({ language: 'Thai' })).toEqual([2]);
+    expect(ids({ voice: 'Puck' })).toEqual([]);
+    expect(ids({ from: '2026-03-01', to: '2026-03-09' })).toEqual([1]);
+  });
+
+  it('leaves items without a duration out of a maximum but not a minimum of zero', () => {
+    expect(ids({ maxMinutes: 5 })).toEqual([2]);
+    expect(ids({ minMinutes: 0 })).toEqual([2, 1, 3]);
+    expect(ids({ minMinutes: 5 })).toEqual([1]);
+  });
+});
+
+describe('sortHistory', () => {
+  it('sorts by date, title or duration', () => {
+    expect(sortHistory(items, 'oldest').map(found => found.id)).toEqual([3, 1, 2]);
+    expect(sortHistory(items, 'title').map(found => found.id)).toEqual([2, 3, 1]);
+    expect(sortHistory(items, 'longest').map(found => found.id)).toEqual([1, 2, 3]);
+    expect(sortHistory(items, 'shortest').map(found => found.id)).toEqual([3, 2, 1]);
+  });
+});
+
+describe('listTags', () => {
+  it('lists each normalized tag once, sorted', () => {
+    expect(listTags([...items, item(4, '2026-03-11', { tags: ['HEIST'] })])).toEqual(['comedy', 'drama', 'heist']);
+  });
+});
@@ -0,0 +1,89 @@
+import { HistoryItem } from "../types";
+
+export type HistorySort = 'newest' | 'oldest' | 'title' | 'longest' | 'shortest';
+
+export interface HistoryQuery {
+  text: string;         // Every word must appear in a title, script, transcript or tag
+  tags: string[];       // Items must have all of these
+  language: string;     // '' for any
+  voice: string;        // '' for any
+  from: string;         // yyyy-mm-dd, inclusive; '' for no limit
+  to: string;
+  minMinutes: number | null;
+  maxMinutes: number | null;
+  sort: HistorySort;
+}
+
+export const EMPTY_HISTORY_QUERY: HistoryQuery = {
+  text: '',
+  tags: [],
+  language: '',
+  voice: '',
+  from: '',
+  to: '',
+  minMinutes: null,
+  maxMinutes: null,
+  sort: 'newest',
+};
+
+const current = (item: HistoryItem) => item.versions[item.versions.length - 1];
+
+// Lower-cased text the search runs over: every version's title and script,
+// the source transcript and the tags. Build it once per item and reuse it.
+export function historySearchText(item: HistoryItem): string {
+  return [
+    ...item.versions.flatMap(version => [version.title, version.script]),
+    item.transcript ?? '',
+    ...(item.tags ?? []),
+  ].join('\n').toLocaleLowerCase();
+}
+
+// Tags are compared without case or surrounding spaces.
+export const normalizeTag = (tag: string) => tag.trim().toLocaleLowerCase();
+
+export function listTags(items: HistoryItem[]): string[] {
+  return [...new Set(items.flatMap(item => (item.tags ?? []).map(normalizeTag)))].sort();
+}
+
+// The item's date as yyyy-mm-dd in local time, to compare with date inputs.
+const localDate = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export function filterHistory(items: HistoryItem[], query: HistoryQuery, searchText: (item: HistoryItem) => string): HistoryItem[] {
+  const words = query.text.toLocaleLowerCase().split(/\s+/).filter(Boolean);
+  const tags = query.tags.map(normalizeTag);
+
+  const matches = items.filter(item => {
+    const version = current(item);
+    const minutes = (version.durationSeconds ?? 0) / 60;
+    if (query.language && item.language !== query.language) return false;
+    if (query.voice && !item.versions.some(other => other.voice === query.voice)) return false;
+    if (query.from && localDate(item.timestamp) < query.from) return false;
+    if (query.to && localDate(item.timestamp) > query.to) return false;
+    if (query.minMinutes !== null && minutes < query.minMinutes) return false;
+    if (query.maxMinutes !== null && (version.durationSeconds === undefined || minutes > query.maxMinutes)) return false;
+    const itemTags = (item.tags ?? []).map(normalizeTag);
+    if (!tags.every(tag => itemTags.includes(tag))) return false;
+    if (words.length > 0) {
+      const text = searchText(item);
+      if (!words.every(word => text.includes(word))) return false;
+    }
+    return true;
+  });
+
+  return sortHistory(matches, query.sort);
+}
+
+export function sortHistory(items: HistoryItem[], sort: HistorySort): HistoryItem[] {
+  const duration = (item: HistoryItem) => current(item).durationSeconds ?? 0;
+  const sorted = [...items];
+  switch (sort) {
+    case 'newest': return sorted.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    case 'oldest': return sorted.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    case 'title': return sorted.sort((a, b) => current(a).title.localeCompare(current(b).title));
+    case 'longest': return sorted.sort((a, b) => duration(b) - duration(a));
+    case 'shortest': return sorted.sort((a, b) => duration(a) - duration(b));
+  }
+}
@@ -0,0 +1,120 @@
+// Integrated loudness (ITU-R BS.1770-4) and normalization for mono or
+// stereo audio held as Float32Array channels.
+
+// Common delivery targets, in LUFS.
+export const LOUDNESS_TARGETS = [
+  { value: -14, label: '-14 LUFS (YouTube, Spotify)' },
+  { value: -16, label: '-16 LUFS (Apple Podcasts)' },
+  { value: -23, label: '-23 LUFS (EBU R128 broadcast)' },
+];
+
+// Peak ceiling after normalization, in dBFS.
+const PEAK_CEILING_DB = -1;
+
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1; // 75% block overlap
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+function normalizeBiquad(b0: number, b1: number, b2: number, a0: number, a1: number, a2: number): Biquad {
+  return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+// The two K-weighting stages: a +4 dB high shelf modelling the head, then a
+// high pass, derived for any sample rate.
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  const shelf = (() => {
+    const gain = 4, q = 1 / Math.SQRT2, fc = 1500;
+    const A = 10 ** (gain / 40);
+    const w0 = (2 * Math.PI * fc) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * q);
+    const cos = Math.cos(w0);
+    const sqrtA = Math.sqrt(A);
+    return normalizeBiquad(
+      A * ((A + 1) + (A - 1) * cos + 2 * sqrtA * alpha),
+      -2 * A * ((A - 1) + (A + 1) * cos),
+      A * ((A + 1) + (A - 1) * cos - 2 * sqrtA * alpha),
+      (A + 1) - (A - 1) * cos + 2 * sqrtA * alpha,
+      2 * ((A - 1) - (A + 1) * cos),
+      (A + 1) - (A - 1) * cos - 2 * sqrtA * alpha
+    );
+  })();
+
+  const highPass = (() => {
+    const q = 0.5, fc = 38;
+    const w0 = (2 * Math.PI * fc) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * q);
+    const cos = Math.cos(w0);
+    return normalizeBiquad((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+  })();
+
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, f: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+}
+
+// Measures integrated loudness in LUFS. Returns -Infinity for silence.
+export function measureLoudness(channels: Float32Array[], sampleRate: number): number {
+  const filters = kWeightingFilters(sampleRate);
+  const weighted = channels.map(channel => filters.reduce(applyBiquad, channel));
+
+  const blockSize = Math.round(BLOCK_SECONDS * sampleRate);
+  const stepSize = Math.round(STEP_SECONDS * sampleRate);
+  const length = channels[0]?.length ?? 0;
+
+  // Mean square of each block, summed over channels (all weighted 1.0 for mono/stereo)
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockSize <= length; start += stepSize) {
+    let power = 0;
+    for (const channel of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) sum += channel[i] * channel[i];
+      power += sum / blockSize;
+    }
+    blockPowers.push(power);
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  const aboveAbsolute = blockPowers.filter(power => toLufs(power) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(power => toLufs(power) > relativeGate);
+  return toLufs(mean(gated));
+}
+
+// Scales the audio toward the target loudness. The gain is capped so peaks
+// stay under the ceiling, so very dynamic audio may land below the target.
+export function normalizeLoudness(channels: Float32Array[], sampleRate: number, targetLufs: number): Float32Array[] {
+  const loudness = measureLoudness(channels, sampleRate);
+  if (!Number.isFinite(loudness)) return channels;
+
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) peak = Math.max(peak, Math.abs(channel[i]));
+  }
+
+  const targetGain = 10 ** ((targetLufs - loudness) / 20);
+  const maxGain = peak > 0 ? 10 ** (PEAK_CEILING_DB / 20) / peak : targetGain;
+  const gain = Math.min(targetGain, maxGain);
+
+  return channels.map(channel => channel.map(value => value * gain));
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { ChapterMarker, PublishingPackage, SpeechSegment } from '../types';
+import { assembleSections, chaptersStale, formatChapterTimestamp, reanchorChapters, reanchorPublishing, timeChapters } from './publishing';
+
+const script = (...paragraphs: string[]) => paragraphs.join('\n\n');
+const original = script('a', 'b', 'c', 'd', 'e', 'f');
+const chapters: ChapterMarker[] = [
+  { title: 'Opening', paragraphIndex: 0 },
+  { title: 'Middle', paragraphIndex: 2 },
+  { title: 'Ending', paragraphIndex: 4 },
+];
+const starts = (markers: ChapterMarker[]) => markers.map(chapter => chapter.paragraphIndex);
+
+const pkg: PublishingPackage = {
+  titleVariants: [],
+  description: '',
+  hashtags: [],
+  tags: [],
+  thumbnailText: [],
+  chapters,
+  chapterParagraphs: 6,
+};
+
+// One segment per paragraph, `seconds` long each.
+const segmentsFor = (paragraphs: number, seconds: number): SpeechSegment[] =>
+  Array.from({ length: paragraphs }, (_, i) => ({ start: i * seconds, end: (i + 1) * seconds, text: '', paragraphIndex: i }));
+
+describe('assembleSections', () => {
+  it('records where each section starts and skips empty ones', () => {
+    expect(assembleSections([
+      { heading: ' Opening ', script: 'a\n\nb' },
+      { heading: 'Empty', script: '  ' },
+      { heading: 'Ending', script: 'c' },
+    ])).toEqual({
+      script: script('a', 'b', 'c'),
+      chapters: [{ title: 'Opening', paragraphIndex: 0 }, { title: 'Ending', paragraphIndex: 2 }],
+      chapterParagraphs: 3,
+    });
+  });
+});
+
+describe('reanchorChapters', () => {
+  it('leaves chapters of an unchanged script alone', () => {
+    expect(starts(reanchorChapters(chapters, original, original))).toEqual([0, 2, 4]);
+  });
+
+  it('moves chapters past inserted paragraphs', () => {
+    expect(starts(reanchorChapters(chapters, original, script('x', 'a', 'b', 'c', 'd', 'e', 'f')))).toEqual([1, 3, 5]);
+    expect(starts(reanchorChapters(chapters, original, script('a', 'b', 'c', 'x', 'd', 'e', 'f')))).toEqual([0, 2, 5]);
+  });
+
+  it('does not pull a chapter into the section before when its first paragraph is deleted', () => {
+    expect(starts(reanchorChapters(chapters, original, script('a', 'b', 'd', 'e', 'f')))).toEqual([0, 2, 3]);
+  });
+
+  it('keeps a chapter on its section when a rewritten first paragraph replaces the original', () => {
+    expect(starts(reanchorChapters(chapters, original, script('a', 'b', 'x', 'd', 'e', 'f')))).toEqual([0, 2, 4]);
+  });
+
+  it('drops the chapter of a section that was rewritten throughout', () => {
+    const anchored = reanchorChapters(chapters, original, script('a', 'b', 'f'));
+    expect(anchored).toEqual([{ title: 'Opening', paragraphIndex: 0 }, { title: 'Ending', paragraphIndex: 2 }]);
+    expect(reanchorChapters(chapters, original, script('a', 'b', 'x', 'y', 'e', 'f')).map(chapter => chapter.title)).toEqual(['Opening', 'Ending']);
+  });
+});
+
+describe('reanchorPublishing', () => {
+  it('keeps chapters when the paragraph count is unchanged', () => {
+    const edited = script('a', 'b', 'C', 'd', 'e', 'f');
+    expect(reanchorPublishing(pkg, original, edited)).toEqual(pkg);
+  });
+
+  it('moves chapters when paragraphs were added or removed', () => {
+    const moved = reanchorPublishing(pkg, original, script('a', 'b', 'd', 'e', 'f'));
+    expect(starts(moved.chapters)).toEqual([0, 2, 3]);
+    expect(moved.chapterParagraphs).toBe(5);
+  });
+
+  it('drops chapters placed in another script than the one given', () => {
+    const placedElsewhere = { ...pkg, chapterParagraphs: 4 };
+    expect(reanchorPublishing(placedElsewhere, original, script('a', 'b', 'c'))).toEqual({ ...pkg, chapters: [], chapterParagraphs: 3 });
+  });
+});
+
+describe('chaptersStale', () => {
+  it('compares the recorded paragraph count with the audio', () => {
+    expect(chaptersStale(pkg, segmentsFor(6, 5))).toBe(false);
+    expect(chaptersStale(pkg, segmentsFor(7, 5))).toBe(true);
+  });
+
+  it('only catches chapters past the end when the count was not recorded', () => {
+    const { chapterParagraphs, ...unrecorded } = pkg;
+    expect(chaptersStale(unrecorded, segmentsFor(7, 5))).toBe(false);
+    expect(chaptersStale(unrecorded, segmentsFor(4, 5))).toBe(true);
+  });
+});
+
+describe('timeChapters', () => {
+  it('starts the first chapter at 0:00 and the rest at their paragraphs', () => {
+    expect(timeChapters(chapters, segmentsFor(6, 20))).toEqual([
+      { title: 'Opening', start: 0 },
+      { title: 'Middle', start: 40 },
+      { title: 'Ending', start: 80 },
+    ]);
+  });
+
+  it('folds chapters closer together than YouTube allows', () => {
+    expect(timeChapters(chapters, segmentsFor(6, 2)).map(chapter => chapter.title)).toEqual(['Opening']);
+  });
+
+  it('stops at chapters past the end of the audio', () => {
+    expect(timeChapters(chapters, segmentsFor(3, 20)).map(chapter => chapter.title)).toEqual(['Opening', 'Middle']);
+  });
+});
+
+describe('formatChapterTimestamp', () => {
+  it('adds hours only from an hour on', () => {
+    expect(formatChapterTimestamp(65.9)).toBe('1:05');
+    expect(formatChapterTimestamp(3725)).toBe('1:02:05');
+  });
+});
@@ -0,0 +1,136 @@
+import { ChapterMarker, PublishingPackage, SpeechSegment } from "../types";
+import { splitParagraphs } from "./script";
+
+export interface TimedChapter {
+  title: string;
+  start: number; // Seconds into the recap audio
+}
+
+// YouTube ignores chapter lists with a chapter shorter than this.
+export const MIN_CHAPTER_SECONDS = 10;
+export const MIN_CHAPTERS = 3;
+
+// Joins sections written separately into one script, recording the paragraph
+// each one starts at so chapters survive as paragraph positions.
+export function assembleSections(sections: { heading: string; script: string }[]): { script: string; chapters: ChapterMarker[]; chapterParagraphs: number } {
+  const chapters: ChapterMarker[] = [];
+  const parts: string[] = [];
+  let paragraphIndex = 0;
+  for (const section of sections) {
+    const paragraphs = splitParagraphs(section.script);
+    if (paragraphs.length === 0) continue;
+    chapters.push({ title: section.heading.trim(), paragraphIndex });
+    parts.push(paragraphs.join('\n\n'));
+    paragraphIndex += paragraphs.length;
+  }
+  return { script: parts.join('\n\n'), chapters, chapterParagraphs: paragraphIndex };
+}
+
+// Moves chapters onto a rewrite of the script they were placed in. Each one
+// follows the first paragraph of its section that is still in the new script,
+// shifted back by the paragraphs before it that were rewritten. A section
+// rewritten throughout loses its chapter.
+export function reanchorChapters(chapters: ChapterMarker[], fromScript: string, toScript: string): ChapterMarker[] {
+  const from = splitParagraphs(fromScript);
+  const to = splitParagraphs(toScript);
+  const sorted = [...chapters].sort((a, b) => a.paragraphIndex - b.paragraphIndex);
+  const anchored: ChapterMarker[] = [];
+  let searchFrom = 0;
+  sorted.forEach((chapter, i) => {
+    const sectionEnd = i + 1 < sorted.length ? sorted[i + 1].paragraphIndex : from.length;
+    let first = -1;
+    for (let paragraph = chapter.paragraphIndex; paragraph < sectionEnd; paragraph++) {
+      const found = to.indexOf(from[paragraph], searchFrom);
+      if (found < 0) continue;
+      if (first < 0) first = Math.max(searchFrom, found - (paragraph - chapter.paragraphIndex));
+      searchFrom = found + 1; // The next section starts after this one's last surviving paragraph
+    }
+    if (first >= 0) anchored.push({ title: chapter.title, paragraphIndex: first });
+  });
+  return anchored;
+}
+
+// The package for a script voiced in place of the one its chapters were
+// placed in. Chapters only move when paragraphs were added or removed, and
+// are dropped when that script is not the one given, as there is nothing to follow.
+export function reanchorPublishing(pkg: PublishingPackage, fromScript: string, toScript: string): PublishingPackage {
+  const from = splitParagraphs(fromScript).length;
+  const to = splitParagraphs(toScript).length;
+  const placedIn = pkg.chapterParagraphs ?? from;
+  let chapters = pkg.chapters;
+  if (placedIn !== to) {
+    chapters = placedIn === from ? reanchorChapters(pkg.chapters, fromScript, toScript) : [];
+  }
+  return { ...pkg, chapters, chapterParagraphs: to };
+}
+
+// Whether the chapters were placed in a script with other paragraphs than the
+// audio, so their timestamps would point at the wrong places. Packages that
+// didn't record their paragraph count are only caught when a chapter is past the end.
+export function chaptersStale(pkg: PublishingPackage, segments: SpeechSegment[]): boolean {
+  const paragraphs = segments.reduce((count, segment) => Math.max(count, segment.paragraphIndex + 1), 0);
+  return pkg.chapterParagraphs !== undefined
+    ? pkg.chapterParagraphs !== paragraphs
+    : pkg.chapters.some(chapter => chapter.paragraphIndex >= paragraphs);
+}
+
+// Places chapters at the start of their first paragraph in the audio. The
+// first chapter always starts at 0:00 and chapters closer together than
+// YouTube allows are folded into the one before.
+export function timeChapters(chapters: ChapterMarker[], segments: SpeechSegment[]): TimedChapter[] {
+  const timed: TimedChapter[] = [];
+  for (const chapter of [...chapters].sort((a, b) => a.paragraphIndex - b.paragraphIndex)) {
+    const segment = segments.find(candidate => candidate.paragraphIndex >= chapter.paragraphIndex);
+    if (!segment) break;
+    const start = timed.length === 0 ? 0 : segment.start;
+    if (timed.length > 0 && start - timed[timed.length - 1].start < MIN_CHAPTER_SECONDS) continue;
+    timed.push({ title: chapter.title, start });
+  }
+  return timed;
+}
+
+// m:ss, or h:mm:ss from an hour on, as YouTube descriptions expect.
+export function formatChapterTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+const hashtag = (tag: string) => `#${tag.replace(/^#/, '').replace(/\s+/g, '')}`;
+
+// The description box as it is pasted into YouTube: description, chapters, hashtags.
+export function formatDescription(pkg: PublishingPackage, chapters: TimedChapter[]): string {
+  const blocks = [pkg.description.trim()];
+  if (chapters.length >= MIN_CHAPTERS) {
+    blocks.push(chapters.map(chapter => `${formatChapterTimestamp(chapter.start)} ${chapter.title}`).join('\n'));
+  }
+  if (pkg.hashtags.length > 0) {
+    blocks.push(pkg.hashtags.map(hashtag).join(' '));
+  }
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+// Every field of the package as one labelled text block.
+export function formatPublishingText(title: string, pkg: PublishingPackage, chapters: TimedChapter[]): string {
+  return [
+    `TITLE\n${title}`,
+    `TITLE VARIANTS\n${pkg.titleVariants.map((variant, i) => `${i + 1}. ${variant}`).join('\n')}`,
+    `DESCRIPTION\n${formatDescription(pkg, chapters)}`,
+    `TAGS\n${pkg.tags.join(', ')}`,
+    `THUMBNAIL TEXT\n${pkg.thumbnailText.join('\n')}`,
+  ].join('\n\n') + '\n';
+}
+
+export function formatPublishingJson(title: string, pkg: PublishingPackage, chapters: TimedChapter[]): string {
+  return JSON.stringify({
+    title,
+    titleVariants: pkg.titleVariants,
+    description: pkg.description,
+    hashtags: pkg.hashtags.map(hashtag),
+    tags: pkg.tags,
+    thumbnailText: pkg.thumbnailText,
+    chapters: chapters.map(chapter => ({ ...chapter, timestamp: formatChapterTimestamp(chapter.start) })),
+  }, null, 2);
+}
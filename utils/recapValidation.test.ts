@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkLanguage, checkLength, countWords, parseRecapResponse, parseTranscriptCues, parseTranslations, stripCodeFences,
+} from './recapValidation';
+
+const metadata = { title: 'The Heist', titleVariants: ['A'], description: 'What happens.', hashtags: [], tags: ['recap'], thumbnailText: [] };
+const reply = (sections: object[], extra: object = {}) => JSON.stringify({ sections, ...metadata, ...extra });
+
+describe('stripCodeFences', () => {
+  it('unwraps a fenced reply', () => {
+    expect(stripCodeFences('```json\n{"a":1}\n```')).toBe('{"a":1}');
+  });
+
+  it('drops sentences around the object', () => {
+    expect(stripCodeFences('Here is the recap: {"a":{"b":1}} Enjoy!')).toBe('{"a":{"b":1}}');
+  });
+});
+
+describe('parseRecapResponse', () => {
+  it('accepts a prose recap', () => {
+    const { response, errors } = parseRecapResponse(reply([{ heading: 'Opening', text: 'It begins.' }]), false);
+    expect(errors).toEqual([]);
+    expect(response?.sections[0].text).toBe('It begins.');
+  });
+
+  it('accepts a fenced dialogue recap', () => {
+    const text = '```json\n' + reply([{ heading: 'Opening', lines: [{ speaker: 'NARRATOR', text: 'It begins.' }] }]) + '\n```';
+    expect(parseRecapResponse(text, true).errors).toEqual([]);
+  });
+
+  it('reports invalid JSON and non-objects', () => {
+    expect(parseRecapResponse('{"sections": [', false).errors[0]).toMatch(/^The response is not valid JSON/);
+    expect(parseRecapResponse('"recap"', false)).toEqual({ response: null, errors: ['The response must be a single JSON object.'] });
+  });
+
+  it('lists every problem so the model can repair them', () => {
+    const text = JSON.stringify({ sections: [{ heading: ' ', text: '' }, 'Ending'], title: 3, description: 'x', titleVariants: [1], hashtags: [], tags: [], thumbnailText: [] });
+    expect(parseRecapResponse(text, false)).toEqual({
+      response: null,
+      errors: [
+        'sections[0].heading must be a non-empty string.',
+        'sections[0].text must be a non-empty string.',
+        'sections[1] must be an object.',
+        '"title" must be a non-empty string.',
+        '"titleVariants" must be an array of strings.',
+      ],
+    });
+  });
+
+  it('requires lines in dialogue mode and text in prose mode', () => {
+    const prose = reply([{ heading: 'Opening', text: 'It begins.' }]);
+    expect(parseRecapResponse(prose, true).errors).toEqual(['sections[0].lines must be a non-empty array.']);
+    const dialogue = reply([{ heading: 'Opening', lines: [{ speaker: 'NARRATOR', text: ' ' }] }]);
+    expect(parseRecapResponse(dialogue, true).errors).toEqual(['Every entry of sections[0].lines needs a "speaker" and a non-empty "text" string.']);
+    expect(parseRecapResponse(dialogue, false).errors).toEqual(['sections[0].text must be a non-empty string.']);
+  });
+});
+
+describe('countWords', () => {
+  it('counts words in languages written without spaces', () => {
+    expect(countWords('Two words.', 'English')).toBe(2);
+    expect(countWords('สวัสดีครับ', 'Thai')).toBeGreaterThan(1);
+  });
+});
+
+describe('checkLanguage', () => {
+  it('flags a script in the wrong writing system', () => {
+    expect(checkLanguage('This recap came back in English.', 'Burmese')).toMatch(/^The script is not written in Burmese: only 0%/);
+    expect(checkLanguage('ဇာတ်လမ်းအကျဉ်း', 'Burmese')).toBeNull();
+  });
+
+  it('tells Vietnamese from other Latin-script text by its diacritics', () => {
+    expect(checkLanguage('The heist goes wrong.', 'Vietnamese')).toBe('The script does not look like Vietnamese: it has no Vietnamese diacritics.');
+    expect(checkLanguage('Vụ trộm thất bại.', 'Vietnamese')).toBeNull();
+  });
+
+  it('ignores speaker tags and skips languages it does not know', () => {
+    expect(checkLanguage('[Detective Park] ဇာတ်လမ်းအကျဉ်း', 'Burmese')).toBeNull();
+    expect(checkLanguage('Anything at all.', 'Klingon')).toBeNull();
+  });
+});
+
+describe('checkLength', () => {
+  it('passes scripts within the tolerance', () => {
+    expect(checkLength('one two three four five six seven eight nine ten', 'English', 8)).toBeNull();
+    expect(checkLength('Anything.', 'English', undefined)).toBeNull();
+  });
+
+  it('asks for a longer or shorter script', () => {
+    expect(checkLength('one two', 'English', 10)).toBe('The script is 2 words long, but the target is about 10 words. Make it longer.');
+    expect(checkLength('one two three four five', 'English', 2)).toMatch(/Make it shorter\.$/);
+  });
+});
+
+describe('parseTranscriptCues', () => {
+  it('reads timed segments', () => {
+    expect(parseTranscriptCues('[{"start":0,"end":1.5,"text":"Hi."},{"start":1.5,"end":1.5,"text":""}]')).toEqual({
+      cues: [{ start: 0, end: 1.5, text: 'Hi.' }, { start: 1.5, end: 1.5, text: '' }],
+      errors: [],
+    });
+  });
+
+  it('rejects a reply that is not a list', () => {
+    expect(parseTranscriptCues('{"start":0,"end":1,"text":"Hi."}')).toEqual({ cues: null, errors: ['The response must be a JSON array.'] });
+    expect(parseTranscriptCues('[{"start":0').cues).toBeNull();
+  });
+
+  it('rejects segments with a missing or non-numeric end', () => {
+    expect(parseTranscriptCues('[{"start":0,"text":"Hi."}]').errors).toEqual(['[0] needs numeric "start" and "end" and a "text" string.']);
+    expect(parseTranscriptCues('[{"start":0,"end":"2","text":"Hi."}]').cues).toBeNull();
+  });
+
+  it('rejects segments that end before they start', () => {
+    expect(parseTranscriptCues('[{"start":3,"end":2,"text":"Hi."}]').errors).toEqual(['[0] must not end before it starts.']);
+  });
+});
+
+describe('parseTranslations', () => {
+  it('orders the translations by index', () => {
+    expect(parseTranslations('[{"index":2,"text":" Deux "},{"index":1,"text":"Un"}]', 2)).toEqual({ translations: ['Un', 'Deux'], errors: [] });
+  });
+
+  it('rejects an object reply', () => {
+    expect(parseTranslations('{"index":1,"text":"Un"}', 1)).toEqual({ translations: null, errors: ['The response must be a JSON array.'] });
+  });
+
+  it('rejects string indexes instead of misaligning the lines', () => {
+    expect(parseTranslations('[{"index":"1","text":"Un"},{"index":2,"text":"Deux"}]', 2).errors).toEqual([
+      '[0] needs an integer "index" and a "text" string.',
+      'Lines 1 of 2 were not translated.',
+    ]);
+  });
+
+  it('reports missing and out-of-range lines', () => {
+    expect(parseTranslations('[{"index":1,"text":"Un"},{"index":4,"text":"Quatre"}]', 3).errors).toEqual([
+      '[1] has index 4, but the lines are numbered 1 to 3.',
+      'Lines 2, 3 of 3 were not translated.',
+    ]);
+  });
+});
@@ -0,0 +1,219 @@
+import { DialogueLine, formatDialogueScript, parseSpeakerTag, splitParagraphs } from "./script";
+import { assembleSections } from "./publishing";
+import { isNumber, isRecord, isString } from "./guards";
+import { PublishingPackage, TimedCue } from "../types";
+
+export interface RecapSection {
+  heading: string;
+  text?: string;         // Prose sections
+  lines?: DialogueLine[]; // Dialogue sections
+}
+
+// The recap JSON the model is asked for (see recapConfig in geminiService).
+export interface RecapResponse {
+  sections: RecapSection[];
+  title: string;
+  titleVariants: string[];
+  description: string;
+  hashtags: string[];
+  tags: string[];
+  thumbnailText: string[];
+}
+
+// How far the script may miss its target length before it is flagged.
+export const LENGTH_TOLERANCE = 0.35;
+// Share of the script's letters that must be in the language's writing system.
+const MIN_SCRIPT_SHARE = 0.6;
+
+interface LanguageProfile {
+  locale: string;
+  script: RegExp;   // Letters of the language's writing system
+  marker?: RegExp;  // Letters that set it apart from languages sharing that system
+  markerName?: string;
+}
+
+// Languages the app offers; others skip the writing-system check.
+const LANGUAGE_PROFILES: Record<string, LanguageProfile> = {
+  Burmese: { locale: 'my', script: /\p{Script=Myanmar}/u },
+  Thai: { locale: 'th', script: /\p{Script=Thai}/u },
+  Vietnamese: {
+    locale: 'vi',
+    script: /\p{Script=Latin}/u,
+    marker: /[ăâđêôơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/iu,
+    markerName: 'Vietnamese diacritics',
+  },
+  Indonesian: { locale: 'id', script: /\p{Script=Latin}/u },
+  Japanese: {
+    locale: 'ja',
+    script: /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}ー]/u,
+    marker: /[\p{Script=Hiragana}\p{Script=Katakana}]/u,
+    markerName: 'kana',
+  },
+};
+
+// Models sometimes wrap JSON in a Markdown code fence or add a sentence
+// around it. Keeps only the outermost object.
+export function stripCodeFences(text: string): string {
+  const unfenced = text.trim().replace(/^```[\w-]*\s*\n?/, '').replace(/\n?\s*```$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+}
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+// Parses the model's reply and checks it against the recap schema. Problems
+// are phrased so they can be sent back to the model in a repair request;
+// the response is only returned when there are none.
+export function parseRecapResponse(text: string, dialogue: boolean): { response: RecapResponse | null; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(stripCodeFences(text));
+  } catch (error) {
+    return { response: null, errors: [`The response is not valid JSON (${(error as Error).message}).`] };
+  }
+  if (!isRecord(data)) {
+    return { response: null, errors: ['The response must be a single JSON object.'] };
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(data.sections) || data.sections.length === 0) {
+    errors.push('"sections" must be a non-empty array.');
+  } else {
+    data.sections.forEach((section: unknown, i: number) => {
+      const name = `sections[${i}]`;
+      if (!isRecord(section)) {
+        errors.push(`${name} must be an object.`);
+        return;
+      }
+      if (!isString(section.heading) || !section.heading.trim()) errors.push(`${name}.heading must be a non-empty string.`);
+      if (dialogue) {
+        const lines = section.lines;
+        if (!Array.isArray(lines) || lines.length === 0) {
+          errors.push(`${name}.lines must be a non-empty array.`);
+        } else if (!lines.every((line: unknown) => isRecord(line) && isString(line.speaker) && isString(line.text) && line.text.trim())) {
+          errors.push(`Every entry of ${name}.lines needs a "speaker" and a non-empty "text" string.`);
+        }
+      } else if (!isString(section.text) || !section.text.trim()) {
+        errors.push(`${name}.text must be a non-empty string.`);
+      }
+    });
+  }
+  if (!isString(data.title) || !data.title.trim()) errors.push('"title" must be a non-empty string.');
+  if (!isString(data.description)) errors.push('"description" must be a string.');
+  for (const key of ['titleVariants', 'hashtags', 'tags', 'thumbnailText']) {
+    if (!isStringList(data[key])) errors.push(`"${key}" must be an array of strings.`);
+  }
+
+  // Every field was checked above
+  return { response: errors.length === 0 ? data as unknown as RecapResponse : null, errors };
+}
+
+// Joins a checked response's sections into the script, with its chapters and
+// the rest of the publishing package.
+export function toRecapResult(response: RecapResponse, dialogue: boolean): { script: string; title: string; publishing: PublishingPackage } {
+  const { script, chapters, chapterParagraphs } = assembleSections(response.sections.map(section => ({
+    heading: section.heading,
+    script: dialogue ? formatDialogueScript(section.lines ?? []) : section.text ?? '',
+  })));
+  return {
+    script,
+    title: response.title.trim(),
+    publishing: {
+      titleVariants: response.titleVariants,
+      description: response.description,
+      hashtags: response.hashtags,
+      tags: response.tags,
+      thumbnailText: response.thumbnailText,
+      chapters,
+      chapterParagraphs,
+    },
+  };
+}
+
+// Parses a JSON reply that must be a list, as the transcription and
+// translation replies are.
+function parseList(text: string): { items: unknown[] | null; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { items: null, errors: [`The response is not valid JSON (${(error as Error).message}).`] };
+  }
+  return Array.isArray(data) ? { items: data, errors: [] } : { items: null, errors: ['The response must be a JSON array.'] };
+}
+
+// Parses a transcription reply: timed segments, each ending no earlier than it starts.
+export function parseTranscriptCues(text: string): { cues: TimedCue[] | null; errors: string[] } {
+  const { items, errors } = parseList(text);
+  if (!items) return { cues: null, errors };
+  items.forEach((item, i) => {
+    if (!isRecord(item) || !isNumber(item.start) || !isNumber(item.end) || !isString(item.text)) {
+      errors.push(`[${i}] needs numeric "start" and "end" and a "text" string.`);
+    } else if (item.start < 0 || item.end < item.start) {
+      errors.push(`[${i}] must not end before it starts.`);
+    }
+  });
+  // Every item was checked above
+  return { cues: errors.length === 0 ? items as TimedCue[] : null, errors };
+}
+
+// Parses a translation reply, which must give one text for each of the
+// `count` lines, numbered from 1.
+export function parseTranslations(text: string, count: number): { translations: string[] | null; errors: string[] } {
+  const { items, errors } = parseList(text);
+  if (!items) return { translations: null, errors };
+  const byIndex = new Map<number, string>();
+  items.forEach((item, i) => {
+    if (!isRecord(item) || !isNumber(item.index) || !Number.isInteger(item.index) || !isString(item.text)) {
+      errors.push(`[${i}] needs an integer "index" and a "text" string.`);
+    } else if (item.index < 1 || item.index > count) {
+      errors.push(`[${i}] has index ${item.index}, but the lines are numbered 1 to ${count}.`);
+    } else {
+      byIndex.set(item.index, item.text.trim());
+    }
+  });
+  const missing = Array.from({ length: count }, (_, i) => i + 1).filter(index => !byIndex.has(index));
+  if (missing.length > 0) errors.push(`Lines ${missing.join(', ')} of ${count} were not translated.`);
+  return { translations: errors.length === 0 ? Array.from({ length: count }, (_, i) => byIndex.get(i + 1)!) : null, errors };
+}
+
+// Script text without speaker tags, as it is read aloud.
+const spokenText = (script: string) => splitParagraphs(script).map(paragraph => parseSpeakerTag(paragraph).text).join('\n');
+
+// Counts words the way the language splits them; Thai, Burmese and Japanese
+// are written without spaces between words.
+export function countWords(text: string, language: string): number {
+  const locale = LANGUAGE_PROFILES[language]?.locale ?? 'en';
+  let count = 0;
+  for (const segment of new Intl.Segmenter(locale, { granularity: 'word' }).segment(text)) {
+    if (segment.isWordLike) count++;
+  }
+  return count;
+}
+
+// Returns a problem when the script is mostly not in the language's writing
+// system, e.g. an English recap when Burmese was requested.
+export function checkLanguage(script: string, language: string): string | null {
+  const profile = LANGUAGE_PROFILES[language];
+  if (!profile) return null;
+  const letters = [...spokenText(script)].filter(char => /\p{L}/u.test(char));
+  if (letters.length === 0) return null;
+
+  const share = letters.filter(char => profile.script.test(char)).length / letters.length;
+  if (share < MIN_SCRIPT_SHARE) {
+    return `The script is not written in ${language}: only ${Math.round(share * 100)}% of its letters are in the ${language} writing system.`;
+  }
+  if (profile.marker && !letters.some(char => profile.marker!.test(char))) {
+    return `The script does not look like ${language}: it has no ${profile.markerName}.`;
+  }
+  return null;
+}
+
+// Returns a problem when the script is far from the target length.
+export function checkLength(script: string, language: string, targetWords: number | undefined): string | null {
+  if (!targetWords) return null;
+  const words = countWords(spokenText(script), language);
+  if (Math.abs(words - targetWords) <= targetWords * LENGTH_TOLERANCE) return null;
+  return `The script is ${words} words long, but the target is about ${Math.round(targetWords)} words. Make it ${words < targetWords ? 'longer' : 'shorter'}.`;
+}
@@ -0,0 +1,34 @@
+import JSZip from 'jszip';
+import { PublishingPackage, SpeechSegment } from '../types';
+import { createWavBlob } from './audio';
+import { alignCaptions, formatSrt } from './subtitles';
+import { timeChapters, chaptersStale, formatPublishingText, formatPublishingJson } from './publishing';
+
+export interface ZipRecap {
+  title: string;
+  script: string;
+  segments: SpeechSegment[];
+  base64Audio: string;
+  publishing?: PublishingPackage;
+  transcript?: string;
+}
+
+// Strips characters that are not allowed in file names inside the ZIP.
+export const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_').trim().slice(0, 80) || 'recap';
+
+// Adds a recap as a numbered folder with its audio, script, captions and,
+// when present, publishing notes and source transcript.
+export function addRecapFolder(zip: JSZip, index: number, recap: ZipRecap) {
+  const folder = zip.folder(`${String(index + 1).padStart(2, '0')} - ${safeFileName(recap.title)}`)!;
+  folder.file('recap.wav', createWavBlob(recap.base64Audio));
+  folder.file('script.txt', `${recap.title}\n\n${recap.script}\n`);
+  folder.file('captions.srt', formatSrt(alignCaptions(recap.segments)));
+  if (recap.publishing) {
+    const chapters = chaptersStale(recap.publishing, recap.segments) ? [] : timeChapters(recap.publishing.chapters, recap.segments);
+    folder.file('publishing.txt', formatPublishingText(recap.title, recap.publishing, chapters));
+    folder.file('publishing.json', formatPublishingJson(recap.title, recap.publishing, chapters));
+  }
+  if (recap.transcript) {
+    folder.file('transcript.txt', recap.transcript);
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { chunkScript, formatDialogueScript, listSpeakers, parseSpeakerTag, splitParagraphs, splitSentences, windowTranscript } from './script';
+
+describe('splitParagraphs', () => {
+  it('splits on blank lines and drops empty paragraphs', () => {
+    expect(splitParagraphs(' One.\n \nTwo.\nStill two.\n\n\n\n')).toEqual(['One.', 'Two.\nStill two.']);
+  });
+});
+
+describe('splitSentences', () => {
+  it('keeps terminators and closing quotes on their sentence', () => {
+    expect(splitSentences('He ran. "Stop!" she said… Then nothing')).toEqual(['He ran.', '"Stop!"', 'she said…', 'Then nothing']);
+  });
+
+  it('splits Burmese and Japanese sentences', () => {
+    expect(splitSentences('သူပြေးသည်။ သူမလိုက်သည်။')).toEqual(['သူပြေးသည်။', 'သူမလိုက်သည်။']);
+    expect(splitSentences('走った。 止まった。')).toEqual(['走った。', '止まった。']);
+  });
+});
+
+describe('parseSpeakerTag', () => {
+  it('separates the speaker from the line', () => {
+    expect(parseSpeakerTag('[Mara] "Run!"')).toEqual({ speaker: 'Mara', text: '"Run!"' });
+  });
+
+  it('reads an explicit narrator tag as narration', () => {
+    expect(parseSpeakerTag('[narrator] It was late.')).toEqual({ speaker: null, text: 'It was late.' });
+    expect(parseSpeakerTag('It was late.')).toEqual({ speaker: null, text: 'It was late.' });
+  });
+});
+
+describe('formatDialogueScript', () => {
+  it('tags character lines and leaves narration and empty lines out', () => {
+    expect(formatDialogueScript([
+      { speaker: 'NARRATOR', text: 'It was late. ' },
+      { speaker: ' Mara ', text: '"Run!"' },
+      { speaker: 'Jun', text: '  ' },
+    ])).toBe('It was late.\n\n[Mara] "Run!"');
+  });
+});
+
+describe('listSpeakers', () => {
+  const script = '[Mara] Run!\n\n[Narrator] They ran.\n\n[Jun] Wait.\n\n[Mara] No.';
+
+  it('lists characters in order of first appearance in dialogue scripts', () => {
+    expect(listSpeakers(script, true)).toEqual(['Mara', 'Jun']);
+  });
+
+  it('finds no speakers in other scripts', () => {
+    expect(listSpeakers('[Music] The score swells.', false)).toEqual([]);
+  });
+});
+
+describe('chunkScript', () => {
+  it('reads bracketed text as written outside dialogue mode', () => {
+    expect(chunkScript('[Music] The score swells.', false)).toEqual([
+      { text: '[Music] The score swells.', paragraphIndex: 0, endsParagraph: true, speaker: null },
+    ]);
+  });
+
+  it('records the speaker on each chunk in dialogue mode', () => {
+    expect(chunkScript('They ran.\n\n[Mara] Run!', true)).toEqual([
+      { text: 'They ran.', paragraphIndex: 0, endsParagraph: true, speaker: null },
+      { text: 'Run!', paragraphIndex: 1, endsParagraph: true, speaker: 'Mara' },
+    ]);
+  });
+
+  it('splits long paragraphs at sentences and marks only the last chunk as ending it', () => {
+    const chunks = chunkScript('One two. Three four. Five six.', false, 20);
+    expect(chunks.map(chunk => chunk.text)).toEqual(['One two. Three four.', 'Five six.']);
+    expect(chunks.map(chunk => chunk.endsParagraph)).toEqual([false, true]);
+  });
+
+  it('breaks a sentence without spaces mid-word', () => {
+    expect(chunkScript('กขคงจฉชซฌญ', false, 4).map(chunk => chunk.text)).toEqual(['กขคง', 'จฉชซ', 'ฌญ']);
+  });
+});
+
+describe('windowTranscript', () => {
+  it('packs whole paragraphs into windows', () => {
+    expect(windowTranscript('aaa\n\nbbb\n\nccc', 8)).toEqual(['aaa\n\nbbb', 'ccc']);
+  });
+
+  it('splits only paragraphs longer than a window', () => {
+    expect(windowTranscript('One two. Three four.\n\nok', 12)).toEqual(['One two.', 'Three four.', 'ok']);
+  });
+});
@@ -0,0 +1,141 @@
+// A piece of the recap script small enough for a single TTS request.
+export interface ScriptChunk {
+  text: string;
+  paragraphIndex: number;
+  endsParagraph: boolean; // True when this is the last chunk of its paragraph
+  speaker: string | null;  // Character reading the chunk; null for narration
+}
+
+// One paragraph of a dialogue script: narration or a character's line.
+export interface DialogueLine {
+  speaker: string | null; // null for narration
+  text: string;
+}
+
+// Narration may be tagged explicitly; it is read by the main voice either way.
+export const NARRATOR = 'Narrator';
+
+// Roughly what the TTS model reads reliably in one call. Burmese and Thai
+// characters are three bytes each in UTF-8, so this stays well under the limit.
+export const DEFAULT_MAX_CHUNK_CHARS = 1200;
+
+// Sentence terminators for the supported output languages: Latin, Burmese (။),
+// Devanagari-style danda (।), CJK full-width marks and the ellipsis.
+const SENTENCE_END = /([.!?…။।。！？]+["'”’)\]]*)(\s+|$)/g;
+
+// A speaker tag at the start of a paragraph, e.g. `[Mara] "Run!"`.
+const SPEAKER_TAG = /^\[([^\]\n]{1,40})\]\s*/;
+
+// Splits the script into paragraphs, dropping empty ones.
+export function splitParagraphs(script: string): string[] {
+  return script
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+}
+
+// Splits a paragraph into sentences, keeping terminators attached.
+export function splitSentences(paragraph: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of paragraph.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[1].length;
+    const sentence = paragraph.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end + match[2].length;
+  }
+  const rest = paragraph.slice(start).trim();
+  if (rest) sentences.push(rest);
+  return sentences;
+}
+
+const isNarrator = (speaker: string | null) => !speaker || speaker.trim().toLowerCase() === NARRATOR.toLowerCase();
+
+// Separates a paragraph's speaker tag from the text that is read aloud.
+export function parseSpeakerTag(paragraph: string): DialogueLine {
+  const match = paragraph.match(SPEAKER_TAG);
+  if (!match) return { speaker: null, text: paragraph };
+  const speaker = match[1].trim();
+  return { speaker: isNarrator(speaker) ? null : speaker, text: paragraph.slice(match[0].length) };
+}
+
+// Writes dialogue lines as a script, one tagged paragraph per character line.
+// Narration is left untagged.
+export function formatDialogueScript(lines: DialogueLine[]): string {
+  return lines
+    .filter(line => line.text.trim())
+    .map(line => (isNarrator(line.speaker) ? line.text.trim() : `[${line.speaker.trim()}] ${line.text.trim()}`))
+    .join('\n\n');
+}
+
+// The characters with lines in the script, in order of first appearance.
+// Only dialogue scripts have speakers; elsewhere "[Music]" is just text.
+export function listSpeakers(script: string, dialogue: boolean): string[] {
+  if (!dialogue) return [];
+  const speakers = splitParagraphs(script).map(paragraph => parseSpeakerTag(paragraph).speaker);
+  return [...new Set(speakers.filter((speaker): speaker is string => speaker !== null))];
+}
+
+// Breaks an over-long sentence at whitespace, or mid-word when there is none
+// (Thai and Burmese text often has no spaces within a sentence).
+function hardSplit(sentence: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let remaining = sentence;
+  while (remaining.length > maxChars) {
+    let cut = remaining.lastIndexOf(' ', maxChars);
+    if (cut <= 0) cut = maxChars;
+    parts.push(remaining.slice(0, cut).trim());
+    remaining = remaining.slice(cut).trim();
+  }
+  if (remaining) parts.push(remaining);
+  return parts;
+}
+
+// Splits a script into TTS-sized chunks at paragraph and sentence boundaries.
+// In a dialogue script, speaker tags are removed from the text and recorded on
+// each chunk; other scripts are read as written.
+export function chunkScript(script: string, dialogue: boolean, maxChars: number = DEFAULT_MAX_CHUNK_CHARS): ScriptChunk[] {
+  const chunks: ScriptChunk[] = [];
+
+  splitParagraphs(script).forEach((paragraph, paragraphIndex) => {
+    const { speaker, text } = dialogue ? parseSpeakerTag(paragraph) : { speaker: null, text: paragraph };
+    const pieces = splitSentences(text).flatMap(s => hardSplit(s, maxChars));
+    let current = '';
+
+    for (const piece of pieces) {
+      if (current && current.length + 1 + piece.length > maxChars) {
+        chunks.push({ text: current, paragraphIndex, endsParagraph: false, speaker });
+        current = piece;
+      } else {
+        current = current ? `${current} ${piece}` : piece;
+      }
+    }
+    if (current) {
+      chunks.push({ text: current, paragraphIndex, endsParagraph: true, speaker });
+    }
+  });
+
+  return chunks;
+}
+
+// Packs a long transcript into windows of whole paragraphs (scenes, when the
+// transcript came from captions with gaps), splitting only paragraphs that
+// are longer than a window on their own.
+export function windowTranscript(transcript: string, maxChars: number): string[] {
+  const pieces = splitParagraphs(transcript).flatMap(paragraph =>
+    paragraph.length <= maxChars ? [paragraph] : splitSentences(paragraph).flatMap(s => hardSplit(s, maxChars))
+  );
+
+  const windows: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + 2 + piece.length > maxChars) {
+      windows.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) windows.push(current);
+  return windows;
+}
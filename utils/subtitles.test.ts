@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignCaptions, cuesMatchTranscript, cuesToTranscript, decodeSubtitleBytes, estimateSpeechSegments, formatSrt, formatVtt, getSubtitleFormat, mergeCues, parseSubtitles,
+} from './subtitles';
+
+describe('getSubtitleFormat', () => {
+  it('reads the format from the extension', () => {
+    expect(getSubtitleFormat('Episode.1.SRT')).toBe('srt');
+    expect(getSubtitleFormat('episode.ssa')).toBe('ass');
+    expect(getSubtitleFormat('episode.txt')).toBeNull();
+  });
+});
+
+describe('decodeSubtitleBytes', () => {
+  it('honours a UTF-16 byte order mark', () => {
+    expect(decodeSubtitleBytes(new Uint8Array([0xff, 0xfe, 0x48, 0x00, 0x69, 0x00]).buffer)).toBe('Hi');
+    expect(decodeSubtitleBytes(new Uint8Array([0x48, 0x69]).buffer)).toBe('Hi');
+  });
+});
+
+describe('parseSubtitles', () => {
+  it('parses SRT with CRLF line ends and strips markup', () => {
+    const srt = '\uFEFF1\r\n00:00:01,000 --> 00:00:02,500\r\n<i>Run!</i> {\\an8}\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nTom &amp; Jerry\r\n';
+    expect(parseSubtitles(srt, 'a.srt')).toEqual([
+      { start: 1, end: 2.5, text: 'Run!' },
+      { start: 3, end: 4, text: 'Tom & Jerry' },
+    ]);
+  });
+
+  it('sniffs WebVTT and skips its header and notes', () => {
+    const vtt = 'WEBVTT\n\nNOTE made by hand\n\nintro\n01:02.000 --> 01:03.250 align:start\n<v Mara>Over here.</v>\n';
+    expect(parseSubtitles(vtt)).toEqual([{ start: 62, end: 63.25, text: 'Over here.' }]);
+  });
+
+  it('reads ASS dialogue by its format line, keeping commas in the text', () => {
+    const ass = [
+      '[Script Info]',
+      'Title: Test',
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:01.50,0:00:03.00,Default,,0,0,0,,{\\b1}Wait,{\\b0} stop\\Nnow',
+      'Comment: 0,0:00:04.00,0:00:05.00,Default,,0,0,0,,Not shown',
+    ].join('\n');
+    expect(parseSubtitles(ass)).toEqual([{ start: 1.5, end: 3, text: 'Wait, stop\nnow' }]);
+  });
+});
+
+describe('mergeCues', () => {
+  it('drops the repeated line of rolling captions', () => {
+    expect(mergeCues([
+      { start: 0, end: 2, text: 'One' },
+      { start: 2, end: 4, text: 'One\nTwo' },
+    ])).toEqual([
+      { start: 0, end: 2, text: 'One' },
+      { start: 2, end: 4, text: 'Two' },
+    ]);
+  });
+
+  it('joins identical touching cues and stacks simultaneous ones', () => {
+    expect(mergeCues([
+      { start: 2, end: 3, text: 'Same' },
+      { start: 0, end: 2, text: 'Same' },
+    ])).toEqual([{ start: 0, end: 3, text: 'Same' }]);
+    expect(mergeCues([
+      { start: 0, end: 2, text: 'Mara: Run!' },
+      { start: 0.5, end: 2, text: 'Jun: Why?' },
+    ])).toEqual([{ start: 0, end: 2, text: 'Mara: Run!\nJun: Why?' }]);
+  });
+});
+
+describe('cuesToTranscript', () => {
+  it('starts a paragraph at long pauses', () => {
+    expect(cuesToTranscript([
+      { start: 0, end: 1, text: 'One\nline.' },
+      { start: 1.5, end: 2, text: 'Two.' },
+      { start: 6, end: 7, text: 'Three.' },
+    ])).toBe('One line. Two.\n\nThree.');
+  });
+});
+
+describe('cuesMatchTranscript', () => {
+  const cues = [{ start: 0, end: 1, text: 'One\nline.' }, { start: 6, end: 7, text: 'Two.' }];
+
+  it('ignores whitespace changes', () => {
+    expect(cuesMatchTranscript(cues, 'One line.\n\n  Two. ')).toBe(true);
+  });
+
+  it('notices an edited transcript', () => {
+    expect(cuesMatchTranscript(cues, 'One line. Three.')).toBe(false);
+  });
+});
+
+describe('alignCaptions', () => {
+  it('shares a segment out by the text in each caption', () => {
+    expect(alignCaptions([{ start: 10, end: 16, text: 'Aa bb. Ccccccccc.' }], 10)).toEqual([
+      { start: 10, end: 12, text: 'Aa bb.' },
+      { start: 12, end: 16, text: 'Ccccccccc.' },
+    ]);
+  });
+
+  it('ends the last caption with its segment', () => {
+    const cues = alignCaptions([{ start: 0, end: 1, text: 'One. Two. Three.' }], 6);
+    expect(cues).toHaveLength(3);
+    expect(cues[2].end).toBe(1);
+  });
+});
+
+describe('estimateSpeechSegments', () => {
+  it('spreads paragraphs over the audio by length, without speaker tags in dialogue', () => {
+    expect(estimateSpeechSegments('[Mara] Aaa\n\nBbbbbb', 9, true)).toEqual([
+      { start: 0, end: 3, text: 'Aaa', paragraphIndex: 0 },
+      { start: 3, end: 9, text: 'Bbbbbb', paragraphIndex: 1 },
+    ]);
+    expect(estimateSpeechSegments('[Mara] Aaa', 9, false)[0].text).toBe('[Mara] Aaa');
+  });
+});
+
+describe('formatSrt and formatVtt', () => {
+  const cues = [{ start: 0, end: 1.5, text: 'One.' }, { start: 3661.0004, end: 3662, text: 'Two.' }];
+
+  it('numbers SRT cues and uses commas', () => {
+    expect(formatSrt(cues)).toBe('1\n00:00:00,000 --> 00:00:01,500\nOne.\n\n2\n01:01:01,000 --> 01:01:02,000\nTwo.\n');
+  });
+
+  it('writes the WebVTT header and dots', () => {
+    expect(formatVtt(cues)).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nOne.\n\n01:01:01.000 --> 01:01:02.000\nTwo.\n');
+  });
+});
@@ -0,0 +1,252 @@
+import { TimedCue, SpeechSegment } from "../types";
+import { chunkScript, splitParagraphs, parseSpeakerTag } from "./script";
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+const SUBTITLE_EXTENSIONS: Record<string, SubtitleFormat> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  ass: 'ass',
+  ssa: 'ass',
+};
+
+// Seconds of silence between cues that starts a new transcript paragraph.
+const PARAGRAPH_GAP_SECONDS = 3;
+
+// Cues closer than this are treated as touching when merging duplicates.
+const MERGE_TOLERANCE_SECONDS = 0.05;
+
+export function getSubtitleFormat(fileName: string): SubtitleFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return SUBTITLE_EXTENSIONS[extension] ?? null;
+}
+
+export function isSubtitleFile(file: File): boolean {
+  return getSubtitleFormat(file.name) !== null;
+}
+
+// Decodes subtitle bytes, honouring UTF-16 byte order marks that some
+// subtitle editors still write.
+export function decodeSubtitleBytes(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+// Parses "01:02:03,456", "02:03.456" or the ASS form "1:02:03.45" into seconds.
+function parseTimestamp(value: string): number {
+  const parts = value.trim().replace(',', '.').split(':');
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+function normalizeText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+// Removes HTML-style tags used by SRT and WebVTT (<i>, <font>, <c.yellow>,
+// <v Speaker>, inline <00:00:01.000> timestamps) and SRT {\an8} positioning.
+function stripMarkupTags(text: string): string {
+  return normalizeText(
+    text
+      .replace(/<[^>]*>/g, '')
+      .replace(/\{\\[^}]*\}/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&')
+  );
+}
+
+// Removes ASS override blocks ({\b1}, {\pos(10,10)}) and converts its escapes.
+function stripAssTags(text: string): string {
+  return normalizeText(
+    text
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\\N/gi, '\n')
+      .replace(/\\h/g, ' ')
+  );
+}
+
+const CUE_TIMING = /((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+// SRT and WebVTT share the same block layout: optional identifier, a timing
+// line, then text up to a blank line.
+function parseBlocks(content: string): TimedCue[] {
+  const cues: TimedCue[] = [];
+  for (const block of content.split(/\n\s*\n/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE or REGION blocks
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    const text = stripMarkupTags(lines.slice(timingIndex + 1).join('\n'));
+    if (text) {
+      cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), text });
+    }
+  }
+  return cues;
+}
+
+function parseAss(content: string): TimedCue[] {
+  const cues: TimedCue[] = [];
+  let inEvents = false;
+  let format: string[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1);
+
+    if (key === 'format') {
+      format = value.split(',').map(field => field.trim().toLowerCase());
+    } else if (key === 'dialogue' && format.length > 0) {
+      // Text is the last field and may itself contain commas.
+      const fields = value.split(',');
+      const values = [...fields.slice(0, format.length - 1), fields.slice(format.length - 1).join(',')];
+      const field = (name: string) => values[format.indexOf(name)]?.trim() ?? '';
+      const text = stripAssTags(field('text'));
+      if (text) {
+        cues.push({ start: parseTimestamp(field('start')), end: parseTimestamp(field('end')), text });
+      }
+    }
+  }
+  return cues;
+}
+
+// Sorts cues and removes repetition. Rolling captions repeat the previous
+// line at the top of each cue and some files split one line across identical
+// cues; simultaneous cues (ASS layers, two speakers) are stacked into one.
+export function mergeCues(cues: TimedCue[]): TimedCue[] {
+  const sorted = [...cues].sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: TimedCue[] = [];
+
+  for (const cue of sorted) {
+    const previous = merged[merged.length - 1];
+    if (!previous || cue.start > previous.end + MERGE_TOLERANCE_SECONDS) {
+      merged.push({ ...cue });
+      continue;
+    }
+
+    const previousLines = previous.text.split('\n');
+    const lines = cue.text.split('\n');
+    const newLines = lines.filter(line => !previousLines.includes(line));
+
+    if (newLines.length === 0) {
+      previous.end = Math.max(previous.end, cue.end);
+    } else if (newLines.length < lines.length) {
+      merged.push({ start: Math.max(cue.start, previous.end), end: cue.end, text: newLines.join('\n') });
+    } else if (cue.start < previous.end - MERGE_TOLERANCE_SECONDS) {
+      previous.end = Math.max(previous.end, cue.end);
+      previous.text = `${previous.text}\n${cue.text}`;
+    } else {
+      merged.push({ ...cue });
+    }
+  }
+  return merged;
+}
+
+// Parses subtitle text into cleaned, merged cues. The format is taken from
+// the file name when given, otherwise sniffed from the content.
+export function parseSubtitles(content: string, fileName?: string): TimedCue[] {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const format = (fileName && getSubtitleFormat(fileName))
+    || (/^\s*\[script info\]/i.test(text) ? 'ass' : /^WEBVTT/.test(text) ? 'vtt' : 'srt');
+
+  const cues = format === 'ass' ? parseAss(text) : parseBlocks(text);
+  return mergeCues(cues);
+}
+
+// Joins cues into transcript text, starting a new paragraph at long pauses.
+export function cuesToTranscript(cues: TimedCue[]): string {
+  const paragraphs: string[][] = [];
+  let previousEnd = -Infinity;
+  for (const cue of cues) {
+    if (paragraphs.length === 0 || cue.start - previousEnd >= PARAGRAPH_GAP_SECONDS) {
+      paragraphs.push([]);
+    }
+    paragraphs[paragraphs.length - 1].push(cue.text.replace(/\n/g, ' '));
+    previousEnd = cue.end;
+  }
+  return paragraphs.map(lines => lines.join(' ')).join('\n\n');
+}
+
+// Whether the transcript is still the text of these cues, i.e. has not been
+// edited or replaced since they were imported. Whitespace is not compared.
+export function cuesMatchTranscript(cues: TimedCue[], transcript: string): boolean {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  return normalize(cuesToTranscript(cues)) === normalize(transcript);
+}
+
+// Longest caption line pair we emit; about two lines of 42 characters.
+export const DEFAULT_MAX_CAPTION_CHARS = 84;
+
+// Splits each timed speech segment into caption-sized cues, sharing out the
+// segment's duration by the amount of text in each cue.
+export function alignCaptions(segments: TimedCue[], maxChars: number = DEFAULT_MAX_CAPTION_CHARS): TimedCue[] {
+  const cues: TimedCue[] = [];
+  for (const segment of segments) {
+    const pieces = chunkScript(segment.text, false, maxChars).map(chunk => chunk.text);
+    const weights = pieces.map(piece => piece.replace(/\s/g, '').length || 1);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const duration = segment.end - segment.start;
+
+    let start = segment.start;
+    pieces.forEach((text, i) => {
+      const end = i === pieces.length - 1 ? segment.end : start + (duration * weights[i]) / totalWeight;
+      cues.push({ start, end, text });
+      start = end;
+    });
+  }
+  return cues;
+}
+
+// Approximates speech segments for audio with no chunk timings (for example
+// older history items) by spreading the paragraphs over its duration.
+export function estimateSpeechSegments(script: string, durationSeconds: number, dialogue: boolean): SpeechSegment[] {
+  const paragraphs = splitParagraphs(script).map(paragraph => (dialogue ? parseSpeakerTag(paragraph).text : paragraph));
+  const weights = paragraphs.map(paragraph => paragraph.replace(/\s/g, '').length || 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let start = 0;
+  return paragraphs.map((text, i) => {
+    const end = start + (durationSeconds * weights[i]) / totalWeight;
+    const segment = { start, end, text, paragraphIndex: i };
+    start = end;
+    return segment;
+  });
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function formatSrt(cues: TimedCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function formatVtt(cues: TimedCue[]): string {
+  const body = cues
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { stretchPcm, timeStretch } from './timeStretch';
+
+const SAMPLE_RATE = 24000;
+
+const sine = (frequency: number, seconds: number) =>
+  Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+// Estimates the pitch of a tone from how often it crosses zero.
+function frequencyOf(samples: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i - 1] < 0) !== (samples[i] < 0)) crossings++;
+  }
+  return crossings / 2 / (samples.length / SAMPLE_RATE);
+}
+
+describe('timeStretch', () => {
+  it('returns a copy at speed 1', () => {
+    const input = sine(200, 0.1);
+    const output = timeStretch(input, 1, SAMPLE_RATE);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+
+  it('shortens or lengthens by the speed', () => {
+    const input = sine(200, 1);
+    expect(timeStretch(input, 1.25, SAMPLE_RATE)).toHaveLength(19200);
+    expect(timeStretch(input, 0.8, SAMPLE_RATE)).toHaveLength(30000);
+    expect(timeStretch(new Float32Array(0), 1.25, SAMPLE_RATE)).toHaveLength(0);
+  });
+
+  it('keeps the pitch', () => {
+    const output = timeStretch(sine(200, 1), 1.25, SAMPLE_RATE);
+    // The edges are only half covered by frames
+    expect(frequencyOf(output.subarray(1000, output.length - 1000))).toBeCloseTo(200, -1);
+  });
+});
+
+describe('stretchPcm', () => {
+  it('stretches 16-bit samples', () => {
+    const samples = Int16Array.from(sine(200, 1), sample => Math.round(sample * 0x7fff));
+    const stretched = stretchPcm(samples, 1.2, SAMPLE_RATE);
+    expect(stretched).toHaveLength(20000);
+    expect(Math.max(...stretched)).toBeLessThanOrEqual(0x4000);
+  });
+});
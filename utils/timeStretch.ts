@@ -0,0 +1,67 @@
+import { floatToInt16 } from "./audio";
+
+// Frame length for WSOLA; about the length of a speech pitch period several
+// times over, so voiced sounds survive the overlap.
+const FRAME_SECONDS = 0.03;
+// How far a frame may be moved to line up with the waveform before it.
+const SEEK_SECONDS = 0.008;
+
+// Finds the frame start within `seek` of `nominal` whose waveform best matches
+// the audio at `natural`, the samples that would have followed the previous
+// frame. Correlates every other sample; plenty for speech at 24 kHz.
+function bestAlignment(input: Float32Array, natural: number, nominal: number, seek: number, length: number): number {
+  const from = Math.max(0, nominal - seek);
+  const to = Math.min(input.length - length, nominal + seek);
+  if (natural + length > input.length || from > to) return nominal;
+
+  let best = nominal;
+  let bestScore = -Infinity;
+  for (let candidate = from; candidate <= to; candidate++) {
+    let score = 0;
+    for (let i = 0; i < length; i += 2) score += input[natural + i] * input[candidate + i];
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+// Changes the tempo of mono audio without changing its pitch, using WSOLA:
+// Hann-windowed frames are overlap-added at a fixed hop, each read from near
+// its time-scaled position but shifted to continue the previous frame's
+// waveform. A speed above 1 makes the audio shorter.
+export function timeStretch(input: Float32Array, speed: number, sampleRate: number): Float32Array {
+  if (speed === 1 || input.length === 0) return input.slice();
+
+  const frame = 2 * Math.max(1, Math.round((FRAME_SECONDS * sampleRate) / 2));
+  const hop = frame / 2;
+  const seek = Math.round(SEEK_SECONDS * sampleRate);
+  const outputLength = Math.round(input.length / speed);
+  const output = new Float32Array(outputLength + frame);
+  const weight = new Float32Array(outputLength + frame);
+  const window = Float32Array.from({ length: frame }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame));
+
+  let previous = 0;
+  for (let position = 0; position < outputLength; position += hop) {
+    const nominal = Math.round(position * speed);
+    const start = position === 0 ? 0 : bestAlignment(input, previous + hop, nominal, seek, hop);
+    for (let i = 0; i < frame; i++) {
+      const sample = start + i < input.length ? input[start + i] : 0;
+      output[position + i] += sample * window[i];
+      weight[position + i] += window[i];
+    }
+    previous = start;
+  }
+
+  for (let i = 0; i < outputLength; i++) {
+    if (weight[i] > 1e-3) output[i] /= weight[i];
+  }
+  return output.slice(0, outputLength);
+}
+
+// timeStretch for 16-bit PCM samples.
+export function stretchPcm(samples: Int16Array, speed: number, sampleRate: number): Int16Array {
+  const stretched = timeStretch(Float32Array.from(samples, sample => sample / 0x8000), speed, sampleRate);
+  return Int16Array.from(stretched, floatToInt16);
+}
@@ -0,0 +1,47 @@
+import { ChapterMarker, SpeechSegment } from "../types";
+
+// A stretch of the recap audio that one clip or image is shown over.
+export interface TimelineSection {
+  title: string;
+  start: number; // Seconds into the recap audio
+  end: number;
+}
+
+// Longest paragraph excerpt used to name a section when there are no chapters.
+const SECTION_TITLE_CHARS = 40;
+
+const excerpt = (text: string) => text.length > SECTION_TITLE_CHARS ? `${text.slice(0, SECTION_TITLE_CHARS).trim()}…` : text;
+
+// Splits the audio into one section per chapter, or per paragraph when the
+// recap has no chapters. Sections run back to back over the whole audio, so
+// the first starts at 0 and the last ends with the narration.
+export function buildTimeline(segments: SpeechSegment[], chapters: ChapterMarker[] | undefined, durationSeconds: number): TimelineSection[] {
+  const markers = chapters && chapters.length > 0
+    ? [...chapters].sort((a, b) => a.paragraphIndex - b.paragraphIndex)
+    : segments
+        .filter((segment, i) => i === 0 || segment.paragraphIndex !== segments[i - 1].paragraphIndex)
+        .map(segment => ({ title: excerpt(segment.text), paragraphIndex: segment.paragraphIndex }));
+
+  const starts: { title: string; start: number }[] = [];
+  for (const marker of markers) {
+    const segment = segments.find(candidate => candidate.paragraphIndex >= marker.paragraphIndex);
+    if (!segment) break;
+    const start = starts.length === 0 ? 0 : segment.start;
+    // Markers that land on the same paragraph keep only the first
+    if (starts.length > 0 && start <= starts[starts.length - 1].start) continue;
+    starts.push({ title: marker.title, start });
+  }
+  if (starts.length === 0) starts.push({ title: 'Recap', start: 0 });
+
+  return starts.map((section, i) => ({
+    ...section,
+    end: i < starts.length - 1 ? starts[i + 1].start : durationSeconds,
+  }));
+}
+
+// Index of the section or cue playing at the given time, or -1. The last one
+// stays active at its very end so the final frame is not blank.
+export function findActive(items: { start: number; end: number }[], time: number): number {
+  const last = items.length - 1;
+  return items.findIndex((item, i) => time >= item.start && (time < item.end || (i === last && time <= item.end)));
+}
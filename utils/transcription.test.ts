@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { planMediaChunks, placeChunkCues } from './transcription';
+
+describe('planMediaChunks', () => {
+  it('covers the recording with overlapping chunks that split each overlap', () => {
+    expect(planMediaChunks(500, 240, 10)).toEqual([
+      { start: 0, end: 240, keepStart: 0, keepEnd: 235 },
+      { start: 230, end: 470, keepStart: 235, keepEnd: 465 },
+      { start: 460, end: 500, keepStart: 465, keepEnd: Infinity },
+    ]);
+  });
+
+  it('plans one chunk for a short recording and none for an empty one', () => {
+    expect(planMediaChunks(30, 240, 10)).toEqual([{ start: 0, end: 30, keepStart: 0, keepEnd: Infinity }]);
+    expect(planMediaChunks(0, 240, 10)).toEqual([]);
+  });
+
+  it('rejects an overlap as long as the chunk', () => {
+    expect(() => planMediaChunks(500, 10, 10)).toThrow('Chunks must be longer than their overlap.');
+  });
+});
+
+describe('placeChunkCues', () => {
+  const [first, second] = planMediaChunks(500, 240, 10);
+
+  it('moves cues onto the recording and keeps only those starting in its part', () => {
+    expect(placeChunkCues(second, [
+      { start: 2, end: 4, text: 'Owned by the first chunk.' },
+      { start: 6, end: 9, text: ' Mine. ' },
+      { start: 236, end: 239, text: 'Owned by the next chunk.' },
+    ])).toEqual([{ start: 236, end: 239, text: 'Mine.' }]);
+  });
+
+  it('sorts cues, drops empty ones and clamps timings to the chunk', () => {
+    expect(placeChunkCues(first, [
+      { start: 20, end: 300, text: 'Late.' },
+      { start: -1, end: 2, text: 'Early.' },
+      { start: 5, end: 6, text: '  ' },
+    ])).toEqual([
+      { start: 0, end: 2, text: 'Early.' },
+      { start: 20, end: 240, text: 'Late.' },
+    ]);
+  });
+
+  it('drops a first cue repeating the cue before it, as when resuming from a checkpoint', () => {
+    const previous = { start: 233, end: 235.5, text: 'Where is the money?' };
+    expect(placeChunkCues(second, [
+      { start: 5.5, end: 6, text: 'where is the money' },
+      { start: 7, end: 8, text: 'Gone.' },
+    ], previous)).toEqual([{ start: 237, end: 238, text: 'Gone.' }]);
+  });
+});
@@ -0,0 +1,55 @@
+import { TimedCue } from "../types";
+
+// A window of a long recording, transcribed on its own. Neighbouring chunks
+// overlap so no word is cut at a boundary; each chunk keeps only the cues that
+// start in its half of the overlap.
+export interface MediaChunk {
+  start: number;     // Seconds into the recording
+  end: number;
+  keepStart: number; // Cues starting before this belong to the previous chunk
+  keepEnd: number;   // Cues starting at or after this belong to the next chunk
+}
+
+// Plans overlapping chunks covering a recording of the given duration.
+export function planMediaChunks(durationSeconds: number, chunkSeconds: number, overlapSeconds: number): MediaChunk[] {
+  const step = chunkSeconds - overlapSeconds;
+  if (step <= 0) {
+    throw new Error("Chunks must be longer than their overlap.");
+  }
+
+  const chunks: MediaChunk[] = [];
+  for (let start = 0; start < durationSeconds; start += step) {
+    const end = Math.min(durationSeconds, start + chunkSeconds);
+    const last = end >= durationSeconds;
+    chunks.push({
+      start,
+      end,
+      keepStart: start === 0 ? 0 : start + overlapSeconds / 2,
+      keepEnd: last ? Infinity : end - overlapSeconds / 2,
+    });
+    if (last) break;
+  }
+  return chunks;
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[\s\p{P}]+/gu, ' ').trim();
+
+// Moves a chunk's cues (timed from the chunk start) onto the recording's
+// timeline and drops the ones another chunk owns. A first cue repeating the
+// previous chunk's last cue is dropped too, since timestamps near a boundary
+// are rarely exact.
+export function placeChunkCues(chunk: MediaChunk, cues: TimedCue[], previous?: TimedCue): TimedCue[] {
+  const placed = cues
+    .map(cue => ({
+      start: chunk.start + Math.max(0, cue.start),
+      end: chunk.start + Math.min(chunk.end - chunk.start, Math.max(cue.start, cue.end)),
+      text: cue.text.trim(),
+    }))
+    .filter(cue => cue.text && cue.start >= chunk.keepStart && cue.start < chunk.keepEnd)
+    .sort((a, b) => a.start - b.start);
+
+  if (previous && placed.length > 0 && normalizeText(placed[0].text) === normalizeText(previous.text)) {
+    placed.shift();
+  }
+  return placed;
+}
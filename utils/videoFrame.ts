@@ -0,0 +1,161 @@
+import { TimedCue } from "../types";
+import { TimelineSection, findActive } from "./timeline";
+
+export const VIDEO_SIZES: { label: string; width: number; height: number }[] = [
+  { label: '720p (1280×720)', width: 1280, height: 720 },
+  { label: '1080p (1920×1080)', width: 1920, height: 1080 },
+  { label: 'Vertical (1080×1920)', width: 1080, height: 1920 },
+];
+
+// How far a clip may drift from the narration before it is seeked back.
+const MAX_CLIP_DRIFT_SECONDS = 0.3;
+// Still images zoom in by this much over their section.
+const IMAGE_ZOOM = 0.08;
+
+// A clip or still image loaded for a section.
+export type SectionVisual = HTMLImageElement | HTMLVideoElement;
+
+// What a frame is drawn from; visuals are indexed like the sections.
+export interface VideoTimeline {
+  sections: TimelineSection[];
+  visuals: (SectionVisual | null)[];
+  captions: TimedCue[] | null; // Null to leave captions off
+}
+
+const isVideo = (visual: SectionVisual | null): visual is HTMLVideoElement => visual instanceof HTMLVideoElement;
+
+// Loads a user file as an image or a muted, looping clip.
+export function loadVisual(url: string, kind: 'image' | 'video'): Promise<SectionVisual> {
+  return new Promise((resolve, reject) => {
+    if (kind === 'image') {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('This image could not be opened.'));
+      image.src = url;
+      return;
+    }
+    const video = document.createElement('video');
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('This clip could not be opened. The browser may not support its format.'));
+    video.src = url;
+  });
+}
+
+// Keeps the clip of the active section playing in step with the narration and
+// pauses the others. When the timeline is paused, clips are seeked instead so
+// scrubbing shows the right frame.
+export function syncClips(timeline: VideoTimeline, time: number, playing: boolean) {
+  const active = findActive(timeline.sections, time);
+  timeline.visuals.forEach((visual, i) => {
+    if (!isVideo(visual)) return;
+    if (i !== active) {
+      if (!visual.paused) visual.pause();
+      return;
+    }
+    const duration = visual.duration || 0;
+    const target = duration > 0 ? (time - timeline.sections[i].start) % duration : 0;
+    if (Math.abs(visual.currentTime - target) > MAX_CLIP_DRIFT_SECONDS) visual.currentTime = target;
+    if (playing && visual.paused) visual.play().catch(() => {});
+    if (!playing && !visual.paused) visual.pause();
+  });
+}
+
+export function pauseClips(timeline: VideoTimeline) {
+  timeline.visuals.forEach(visual => {
+    if (isVideo(visual)) visual.pause();
+  });
+}
+
+// Draws the source scaled to fill the frame, cropping what overflows.
+function drawCover(ctx: CanvasRenderingContext2D, source: SectionVisual, width: number, height: number, zoom: number) {
+  const sourceWidth = isVideo(source) ? source.videoWidth : source.naturalWidth;
+  const sourceHeight = isVideo(source) ? source.videoHeight : source.naturalHeight;
+  if (!sourceWidth || !sourceHeight) return;
+  const scale = Math.max(width / sourceWidth, height / sourceHeight) * zoom;
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+// Breaks text into lines that fit the width. Words come from Intl.Segmenter so
+// Thai and Burmese, written without spaces, still wrap between words.
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const { segment } of new Intl.Segmenter(undefined, { granularity: 'word' }).segment(paragraph)) {
+      const candidate = line + segment;
+      if (line.trim() && ctx.measureText(candidate.trim()).width > maxWidth) {
+        lines.push(line.trim());
+        line = segment;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line.trim()) lines.push(line.trim());
+  }
+  return lines;
+}
+
+function drawCaption(ctx: CanvasRenderingContext2D, text: string, width: number, height: number) {
+  const fontSize = Math.round(Math.min(width, height) * 0.05);
+  const lineHeight = fontSize * 1.3;
+  const padding = fontSize * 0.4;
+  ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const lines = wrapText(ctx, text, width * 0.85);
+  const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 2;
+  const boxTop = height - height * 0.08 - boxHeight;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+  ctx.fillRect((width - boxWidth) / 2, boxTop, boxWidth, boxHeight);
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, boxTop + padding + lineHeight * (i + 0.5)));
+}
+
+// Sections without a clip or image show their title on a plain background.
+function drawPlaceholder(ctx: CanvasRenderingContext2D, title: string, width: number, height: number) {
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, '#1f1235');
+  gradient.addColorStop(1, '#0f172a');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  const fontSize = Math.round(Math.min(width, height) * 0.07);
+  ctx.font = `700 ${fontSize}px system-ui, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#e9d5ff';
+  const lines = wrapText(ctx, title, width * 0.8);
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, height / 2 + fontSize * 1.2 * (i - (lines.length - 1) / 2)));
+}
+
+// Draws the frame at the given time. Used for both the preview and the render.
+export function drawFrame(ctx: CanvasRenderingContext2D, timeline: VideoTimeline, time: number) {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+
+  const index = findActive(timeline.sections, time);
+  if (index !== -1) {
+    const section = timeline.sections[index];
+    const visual = timeline.visuals[index];
+    if (visual) {
+      const progress = (time - section.start) / Math.max(section.end - section.start, 0.001);
+      drawCover(ctx, visual, width, height, isVideo(visual) ? 1 : 1 + IMAGE_ZOOM * Math.min(1, Math.max(0, progress)));
+    } else {
+      drawPlaceholder(ctx, section.title, width, height);
+    }
+  }
+
+  if (timeline.captions) {
+    const cue = timeline.captions[findActive(timeline.captions, time)];
+    if (cue) drawCaption(ctx, cue.text, width, height);
+  }
+}
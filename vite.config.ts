@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.RECAP_PROVIDER': JSON.stringify(env.RECAP_PROVIDER),
+        'process.env.CAPTIONS_PROXY_URL': JSON.stringify(env.CAPTIONS_PROXY_URL ?? '')
       },
       resolve: {
         alias: {
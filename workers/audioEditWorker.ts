@@ -0,0 +1,17 @@
+// Renders audio edits off the main thread. Receives the narration, its
+// segments and the edit list, and replies with the edited narration.
+import { applyAudioEdits } from '../utils/audioEdit';
+import type { RenderEditsRequest, RenderEditsResponse } from '../utils/editRenderer';
+
+self.onmessage = (event: MessageEvent<RenderEditsRequest>) => {
+  const { base64Audio, segments, edits } = event.data;
+
+  let response: RenderEditsResponse;
+  try {
+    response = { audio: applyAudioEdits(base64Audio, segments, edits) };
+  } catch (error) {
+    console.error("Error rendering audio edits:", error);
+    response = { error: (error instanceof Error ? error.message : String(error)) || 'Could not apply the edits.' };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,94 @@
+// Encodes audio off the main thread. Receives float channels, optionally
+// normalizes their loudness, and replies with the encoded file as a Blob.
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { Muxer, ArrayBufferTarget } from 'webm-muxer';
+import { encodeFloatWav, floatToInt16 } from '../utils/audio';
+import { normalizeLoudness } from '../utils/loudness';
+import type { EncodeRequest, EncodeResponse } from '../utils/encoder';
+
+// Samples handed to an encoder per call.
+const MP3_FRAME_BLOCK = 1152 * 20;
+
+function toInt16(channel: Float32Array): Int16Array {
+  const samples = new Int16Array(channel.length);
+  for (let i = 0; i < channel.length; i++) samples[i] = floatToInt16(channel[i]);
+  return samples;
+}
+
+function encodeMp3(channels: Float32Array[], sampleRate: number, bitrate: number): Blob {
+  const encoder = new Mp3Encoder(channels.length, sampleRate, bitrate);
+  const [left, right] = channels.map(toInt16);
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < left.length; i += MP3_FRAME_BLOCK) {
+    const frame = encoder.encodeBuffer(
+      left.subarray(i, i + MP3_FRAME_BLOCK),
+      right?.subarray(i, i + MP3_FRAME_BLOCK)
+    );
+    if (frame.length > 0) parts.push(new Uint8Array(frame));
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(new Uint8Array(tail));
+  return new Blob(parts, { type: 'audio/mpeg' });
+}
+
+async function encodeOpusWebm(channels: Float32Array[], sampleRate: number, bitrate: number): Promise<Blob> {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error('This browser cannot encode Opus. Try MP3 instead.');
+  }
+  const numberOfChannels = channels.length;
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    audio: { codec: 'A_OPUS', sampleRate, numberOfChannels },
+  });
+
+  let encodeError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (e) => { encodeError = e; },
+  });
+  encoder.configure({ codec: 'opus', sampleRate, numberOfChannels, bitrate: bitrate * 1000 });
+
+  // Feed one second at a time in planar layout
+  const length = channels[0].length;
+  for (let start = 0; start < length; start += sampleRate) {
+    const frames = Math.min(sampleRate, length - start);
+    const planar = new Float32Array(frames * numberOfChannels);
+    channels.forEach((channel, c) => planar.set(channel.subarray(start, start + frames), c * frames));
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate,
+      numberOfChannels,
+      numberOfFrames: frames,
+      timestamp: Math.round((start / sampleRate) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: 'audio/webm' });
+}
+
+self.onmessage = async (event: MessageEvent<EncodeRequest>) => {
+  const { format, bitrate, sampleRate, targetLufs } = event.data;
+  let { channels } = event.data;
+
+  let response: EncodeResponse;
+  try {
+    if (targetLufs !== null) {
+      channels = normalizeLoudness(channels, sampleRate, targetLufs);
+    }
+    const blob = format === 'mp3' ? encodeMp3(channels, sampleRate, bitrate)
+      : format === 'opus' ? await encodeOpusWebm(channels, sampleRate, bitrate)
+      : encodeFloatWav(channels, sampleRate);
+    response = { blob };
+  } catch (error) {
+    console.error("Error encoding audio:", error);
+    response = { error: (error instanceof Error ? error.message : String(error)) || 'Encoding failed.' };
+  }
+  self.postMessage(response);
+};